@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CueList } from './CueList';
+
+describe('CueList', () => {
+  it('should fire a cue once when time reaches it', () => {
+    const cues = new CueList();
+    const cb = vi.fn();
+    cues.add(2, cb);
+
+    cues.advance(1, 10);
+    expect(cb).not.toHaveBeenCalled();
+
+    cues.advance(2, 10);
+    cues.advance(3, 10);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fire every skipped cue in timeline order', () => {
+    const cues = new CueList();
+    const order: string[] = [];
+    cues.add(5, () => order.push('b'));
+    cues.add({ progress: 0.1 }, () => order.push('a'));
+    cues.add(9, () => order.push('c'));
+
+    cues.advance(8, 10);
+    expect(order).toEqual(['a', 'b']);
+  });
+
+  it('should resolve progress cues against the current duration', () => {
+    const cues = new CueList();
+    const cb = vi.fn();
+    cues.add({ progress: 0.5 }, cb);
+
+    cues.advance(6, 20);
+    expect(cb).not.toHaveBeenCalled();
+    cues.advance(10, 20);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clamp cues beyond the duration to the end', () => {
+    const cues = new CueList();
+    const cb = vi.fn();
+    cues.add(30, cb);
+
+    cues.advance(10, 10);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-arm cues after the playhead moves back', () => {
+    const cues = new CueList();
+    const cb = vi.fn();
+    cues.add(2, cb);
+    cues.advance(3, 10);
+
+    cues.rearm(1, 10);
+    cues.advance(3, 10);
+    expect(cb).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip cues when the playhead moves forward past them', () => {
+    const cues = new CueList();
+    const cb = vi.fn();
+    cues.add(2, cb);
+
+    cues.rearm(5, 10);
+    cues.advance(6, 10);
+    expect(cb).not.toHaveBeenCalled();
+  });
+
+  it('should treat cues added behind the playhead as passed', () => {
+    const cues = new CueList();
+    cues.advance(5, 10);
+    const behind = vi.fn();
+    const ahead = vi.fn();
+    cues.add(3, behind);
+    cues.add(7, ahead);
+
+    cues.advance(8, 10);
+    expect(behind).not.toHaveBeenCalled();
+    expect(ahead).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove cues by id', () => {
+    const cues = new CueList();
+    const cb = vi.fn();
+    const id = cues.add(1, cb);
+
+    expect(cues.remove(id)).toBe(true);
+    expect(cues.remove(id)).toBe(false);
+    cues.advance(5, 10);
+    expect(cb).not.toHaveBeenCalled();
+    expect(cues.size).toBe(0);
+  });
+
+  it('should not fire a cue removed by an earlier callback', () => {
+    const cues = new CueList();
+    const later = vi.fn();
+    const laterId = cues.add(3, later);
+    cues.add(1, () => cues.remove(laterId));
+
+    cues.advance(5, 10);
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('should isolate errors thrown by callbacks', () => {
+    const cues = new CueList();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cb = vi.fn();
+    cues.add(1, () => {
+      throw new Error('boom');
+    });
+    cues.add(2, cb);
+
+    cues.advance(5, 10);
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should reject negative or non-finite positions', () => {
+    const cues = new CueList();
+    expect(() => cues.add(-1, () => {})).toThrow('Garten:');
+    expect(() => cues.add(NaN, () => {})).toThrow('Garten:');
+    expect(() => cues.add({ progress: Infinity }, () => {})).toThrow('Garten:');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * CueList - Timeline cue points for Garden
+ * Fires callbacks once per pass when playback crosses a point on the timeline
+ */
+
+import type { CueCallback, CueTarget } from './types';
+
+/**
+ * Registered cue entry
+ */
+interface Cue {
+  id: number;
+  /** Absolute time in seconds, or null for a progress-based cue */
+  time: number | null;
+  /** Progress (0-1), used when time is null */
+  progress: number;
+  callback: CueCallback;
+  fired: boolean;
+}
+
+/**
+ * CueList class - Tracks which cues have fired during the current pass
+ *
+ * Usage:
+ * ```typescript
+ * const cues = new CueList();
+ * const id = cues.add({ progress: 0.5 }, () => showHeadline());
+ *
+ * // Each frame:
+ * cues.advance(elapsedTime, duration);
+ *
+ * // After a seek or loop:
+ * cues.rearm(time, duration);
+ *
+ * cues.remove(id);
+ * ```
+ */
+export class CueList {
+  private cues: Cue[] = [];
+  private nextId = 1;
+  /** Playhead and duration from the last advance() or rearm() */
+  private position = 0;
+  private duration = 0;
+
+  /**
+   * Register a cue
+   * A cue behind the current playhead waits for the next pass.
+   * @param target Time in seconds, or `{ progress }` in the range 0-1
+   * @param callback Called once each time playback crosses the cue
+   * @returns Cue id, for use with remove()
+   * @throws {Error} If the target is negative or not a finite number
+   */
+  add(target: CueTarget, callback: CueCallback): number {
+    const isProgress = typeof target === 'object';
+    const value = isProgress ? target.progress : target;
+
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error('Garten: Cue position must be a non-negative number');
+    }
+
+    const cue: Cue = {
+      id: this.nextId++,
+      time: isProgress ? null : value,
+      progress: isProgress ? Math.min(value, 1) : 0,
+      callback,
+      fired: false,
+    };
+    cue.fired = this.resolveTime(cue, this.duration) < this.position;
+    this.cues.push(cue);
+    return cue.id;
+  }
+
+  /**
+   * Remove a cue
+   * @returns True if a cue with this id was registered
+   */
+  remove(id: number): boolean {
+    const index = this.cues.findIndex((cue) => cue.id === id);
+    if (index === -1) return false;
+
+    this.cues.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Fire every unfired cue at or before the given time, in timeline order
+   * @param time Current elapsed time in seconds
+   * @param duration Timeline duration in seconds
+   */
+  advance(time: number, duration: number): void {
+    this.position = time;
+    this.duration = duration;
+
+    const due = this.cues
+      .filter((cue) => !cue.fired && this.resolveTime(cue, duration) <= time)
+      .sort((a, b) => this.resolveTime(a, duration) - this.resolveTime(b, duration));
+
+    for (const cue of due) {
+      // A callback may have removed a later cue
+      if (!this.cues.includes(cue)) continue;
+      cue.fired = true;
+
+      try {
+        cue.callback();
+      } catch (error) {
+        console.error('Error in cue callback:', error);
+      }
+    }
+  }
+
+  /**
+   * Re-arm cues after the playhead jumped
+   * Cues before the given time are treated as already passed; cues at or
+   * after it will fire when playback reaches them.
+   * @param time New elapsed time in seconds
+   * @param duration Timeline duration in seconds
+   */
+  rearm(time: number, duration: number): void {
+    this.position = time;
+    this.duration = duration;
+
+    for (const cue of this.cues) {
+      cue.fired = this.resolveTime(cue, duration) < time;
+    }
+  }
+
+  /**
+   * Number of registered cues
+   */
+  get size(): number {
+    return this.cues.length;
+  }
+
+  /**
+   * Remove all cues
+   */
+  clear(): void {
+    this.cues = [];
+  }
+
+  /**
+   * Cue position in seconds, clamped to the timeline
+   */
+  private resolveTime(cue: Cue, duration: number): number {
+    const time = cue.time ?? cue.progress * duration;
+    return Math.min(time, duration);
+  }
+}
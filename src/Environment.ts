@@ -379,6 +379,20 @@ export class Environment {
     window.addEventListener('resize', handler);
     return () => window.removeEventListener('resize', handler);
   }
+
+  /**
+   * Listen for the page being unloaded or put into the back/forward cache
+   * @returns Cleanup function
+   */
+  static onPageHide(callback: () => void): () => void {
+    if (typeof window === 'undefined') {
+      return () => {};
+    }
+
+    const handler = () => callback();
+    window.addEventListener('pagehide', handler);
+    return () => window.removeEventListener('pagehide', handler);
+  }
 }
 
 // ==================== STANDALONE FUNCTIONS FOR BACKWARD COMPATIBILITY ====================
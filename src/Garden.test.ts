@@ -0,0 +1,2031 @@
+/**
+ * Garten Tests - Verify playback state machine and public event API
+ * jsdom has no canvas or animation clock, so these tests stub a 2D context,
+ * matchMedia, performance.now and requestAnimationFrame with a manual frame queue.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Garten } from './Garden';
+import { Renderer } from './Renderer';
+import { GardenClock } from './GardenClock';
+import { renderToSVG } from './headless';
+import type { GardenOptions, PlantData } from './types';
+
+/**
+ * Create a permissive mock 2D context: every method is a no-op
+ */
+function createMockContext(): CanvasRenderingContext2D {
+  const gradient = { addColorStop: () => {} };
+  const target: Record<string | symbol, unknown> = {
+    createLinearGradient: () => gradient,
+    createRadialGradient: () => gradient,
+  };
+  return new Proxy(target, {
+    get(obj, prop) {
+      if (!(prop in obj)) obj[prop] = () => {};
+      return obj[prop];
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+/**
+ * Manual frame driver replacing requestAnimationFrame and performance.now
+ */
+function createFrameDriver() {
+  let now = 0;
+  let nextId = 1;
+  const callbacks = new Map<number, FrameRequestCallback>();
+
+  vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+    const id = nextId++;
+    callbacks.set(id, cb);
+    return id;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => {
+    callbacks.delete(id);
+  });
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+  return {
+    /** Advance the clock in fixed steps, running queued frames at each step */
+    advance(ms: number, stepMs: number = 50): void {
+      const end = now + ms;
+      while (now < end) {
+        now = Math.min(end, now + stepMs);
+        const pending = Array.from(callbacks.entries());
+        callbacks.clear();
+        for (const [, cb] of pending) cb(now);
+      }
+    },
+  };
+}
+
+function mockMatchMedia(matches: boolean = false) {
+  return vi.fn().mockImplementation((query: string) => ({
+    matches,
+    media: query,
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+  }));
+}
+
+describe('Garten', () => {
+  let container: HTMLElement;
+  let frames: ReturnType<typeof createFrameDriver>;
+
+  function createGarden(options: Partial<GardenOptions> = {}): Garten {
+    return new Garten({
+      container,
+      duration: 10,
+      generations: 5,
+      seed: 42,
+      autoplay: false,
+      targetFPS: 60,
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      () => createMockContext() as unknown as RenderingContext
+    );
+    vi.stubGlobal('matchMedia', mockMatchMedia());
+    frames = createFrameDriver();
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('event subscription', () => {
+    it('should emit play, pause and stop with state changes', () => {
+      const garden = createGarden();
+      const events: string[] = [];
+      garden.on('play', () => events.push('play'));
+      garden.on('pause', () => events.push('pause'));
+      garden.on('stop', () => events.push('stop'));
+      garden.on('stateChange', ({ state }) => events.push(`state:${state}`));
+
+      garden.play();
+      garden.pause();
+      garden.stop();
+
+      expect(events).toEqual([
+        'state:playing', 'play',
+        'state:paused', 'pause',
+        'state:idle', 'stop',
+      ]);
+      garden.destroy();
+    });
+
+    it('should emit typed progress and generationComplete payloads', () => {
+      const garden = createGarden();
+      const generations: number[] = [];
+      const progress = vi.fn();
+      garden.on('generationComplete', ({ generation, totalGenerations }) => {
+        expect(totalGenerations).toBe(5);
+        generations.push(generation);
+      });
+      garden.on('progress', progress);
+
+      garden.play();
+      frames.advance(4100);
+
+      expect(generations).toEqual([1, 2]);
+      expect(progress).toHaveBeenCalled();
+      const last = progress.mock.calls[progress.mock.calls.length - 1][0];
+      expect(last.progress).toBeCloseTo(last.elapsedTime / 10);
+      garden.destroy();
+    });
+
+    it('should fire once handlers a single time', () => {
+      const garden = createGarden({ loop: true });
+      const handler = vi.fn();
+      garden.once('generationComplete', handler);
+
+      garden.play();
+      frames.advance(27000);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ generation: 1, totalGenerations: 5 });
+      garden.destroy();
+    });
+
+    it('should emit complete alongside the onComplete callback', () => {
+      const onComplete = vi.fn();
+      const garden = createGarden({ events: { onComplete } });
+      const complete = vi.fn();
+      garden.on('complete', complete);
+
+      garden.play();
+      frames.advance(11000);
+
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(garden.getState()).toBe('complete');
+      garden.destroy();
+    });
+
+    it('should emit seek with the clamped time', () => {
+      const garden = createGarden();
+      const seek = vi.fn();
+      garden.on('seek', seek);
+
+      garden.seek(4);
+      garden.seek(-3);
+
+      expect(seek.mock.calls).toEqual([[{ time: 4 }], [{ time: 0 }]]);
+      garden.destroy();
+    });
+
+    it('should emit regenerate and optionsChange from setOptions', () => {
+      const garden = createGarden();
+      const events: string[] = [];
+      garden.on('regenerate', () => events.push('regenerate'));
+      garden.on('optionsChange', ({ options }) => events.push(`options:${Object.keys(options)}`));
+
+      garden.setOptions({ density: 'sparse' });
+      garden.setOptions({ opacity: 0.5 });
+
+      expect(events).toEqual(['regenerate', 'options:density', 'options:opacity']);
+      garden.destroy();
+    });
+
+    it('should not emit pause/play when speed changes or plants regenerate', () => {
+      const garden = createGarden();
+      garden.play();
+      const handler = vi.fn();
+      garden.on('pause', handler);
+      garden.on('play', handler);
+      garden.on('stateChange', handler);
+
+      garden.setSpeed(2);
+      garden.regenerate();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(garden.getState()).toBe('playing');
+      garden.destroy();
+    });
+
+    it('should keep elapsed time continuous across speed changes', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(2000);
+      const before = garden.getElapsedTime();
+
+      garden.setSpeed(2);
+      frames.advance(1000);
+
+      expect(garden.getElapsedTime()).toBeCloseTo(before + 2, 1);
+      garden.destroy();
+    });
+
+    it('should stop delivering events after off()', () => {
+      const garden = createGarden();
+      const handler = vi.fn();
+      garden.on('play', handler);
+      garden.off('play', handler);
+
+      garden.play();
+
+      expect(handler).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should remove all listeners on destroy', () => {
+      const garden = createGarden();
+      const handler = vi.fn();
+      garden.on('stateChange', handler);
+
+      garden.destroy();
+      garden.play();
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pauseWhenHidden', () => {
+    let observerCallback: ((entries: Array<{ isIntersecting: boolean }>) => void) | null;
+    const disconnect = vi.fn();
+
+    function setPageHidden(hidden: boolean): void {
+      Object.defineProperty(document, 'hidden', { value: hidden, configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+    }
+
+    function setOnscreen(isIntersecting: boolean): void {
+      observerCallback?.([{ isIntersecting }]);
+    }
+
+    beforeEach(() => {
+      observerCallback = null;
+      disconnect.mockClear();
+      vi.stubGlobal('IntersectionObserver', vi.fn().mockImplementation((cb) => {
+        observerCallback = cb;
+        return { observe: vi.fn(), disconnect };
+      }));
+    });
+
+    afterEach(() => {
+      Object.defineProperty(document, 'hidden', { value: false, configurable: true });
+    });
+
+    it('should pause on page hide and resume without jumping', () => {
+      const garden = createGarden({ pauseWhenHidden: true });
+      const autoPause = vi.fn();
+      const autoResume = vi.fn();
+      const pause = vi.fn();
+      garden.on('autoPause', autoPause);
+      garden.on('autoResume', autoResume);
+      garden.on('pause', pause);
+
+      garden.play();
+      frames.advance(2000);
+      setPageHidden(true);
+      const pausedAt = garden.getElapsedTime();
+      frames.advance(5000);
+
+      expect(garden.getState()).toBe('paused');
+      expect(garden.getElapsedTime()).toBe(pausedAt);
+      expect(autoPause).toHaveBeenCalledWith({ reason: 'hidden' });
+      expect(pause).not.toHaveBeenCalled();
+
+      setPageHidden(false);
+      frames.advance(1000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(autoResume).toHaveBeenCalledWith({ reason: 'hidden' });
+      expect(garden.getElapsedTime()).toBeCloseTo(pausedAt + 1, 1);
+      garden.destroy();
+    });
+
+    it('should pause while the container is offscreen', () => {
+      const garden = createGarden({ pauseWhenHidden: true });
+      garden.play();
+
+      setOnscreen(false);
+      expect(garden.getState()).toBe('paused');
+
+      setOnscreen(true);
+      expect(garden.getState()).toBe('playing');
+      garden.destroy();
+    });
+
+    it('should only resume once every reason has cleared', () => {
+      const garden = createGarden({ pauseWhenHidden: true });
+      garden.play();
+
+      setOnscreen(false);
+      setPageHidden(true);
+      setPageHidden(false);
+      expect(garden.getState()).toBe('paused');
+
+      setOnscreen(true);
+      expect(garden.getState()).toBe('playing');
+      garden.destroy();
+    });
+
+    it('should not resume a garden the user paused', () => {
+      const garden = createGarden({ pauseWhenHidden: true });
+      garden.play();
+
+      setPageHidden(true);
+      garden.pause();
+      setPageHidden(false);
+
+      expect(garden.getState()).toBe('paused');
+      garden.destroy();
+    });
+
+    it('should leave playback alone when the option is off', () => {
+      const garden = createGarden();
+      garden.play();
+
+      setPageHidden(true);
+
+      expect(garden.getState()).toBe('playing');
+      expect(observerCallback).toBeNull();
+      garden.destroy();
+    });
+
+    it('should disconnect observers on destroy', () => {
+      const garden = createGarden({ pauseWhenHidden: true });
+      garden.destroy();
+      expect(disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe('reverse playback', () => {
+    it('should rewind a complete garden back to zero', () => {
+      const garden = createGarden();
+      const rewound = vi.fn();
+      garden.on('rewindComplete', rewound);
+      garden.play();
+      frames.advance(11000);
+      expect(garden.getState()).toBe('complete');
+
+      garden.rewind();
+      expect(garden.getState()).toBe('playing');
+      frames.advance(5000);
+      expect(garden.getElapsedTime()).toBeCloseTo(5, 1);
+
+      frames.advance(6000);
+      expect(garden.getState()).toBe('idle');
+      expect(garden.getElapsedTime()).toBe(0);
+      expect(rewound).toHaveBeenCalledTimes(1);
+      garden.destroy();
+    });
+
+    it('should emit generationComplete in reverse order', () => {
+      const garden = createGarden();
+      garden.seek(10);
+      const generations: number[] = [];
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+
+      garden.rewind();
+      frames.advance(11000);
+
+      expect(generations).toEqual([5, 4, 3, 2, 1]);
+      garden.destroy();
+    });
+
+    it('should reverse direction mid-playback without jumping', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(4000);
+      const time = garden.getElapsedTime();
+
+      garden.setSpeed(-2);
+      frames.advance(1000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeCloseTo(time - 2, 1);
+      garden.destroy();
+    });
+
+    it('should wrap to the end when looping backwards', () => {
+      const garden = createGarden({ loop: true });
+      garden.seek(2);
+      garden.rewind();
+      frames.advance(3000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeCloseTo(9, 0);
+      garden.destroy();
+    });
+
+    it('should do nothing when rewinding from the start', () => {
+      const garden = createGarden();
+      garden.rewind();
+
+      expect(garden.getState()).toBe('idle');
+      garden.destroy();
+    });
+
+    it('should reject a zero or non-finite speed', () => {
+      const garden = createGarden();
+      expect(() => garden.setSpeed(0)).toThrow('Garten:');
+      expect(() => garden.setSpeed(NaN)).toThrow('Garten:');
+      expect(() => garden.setSpeed(-1)).not.toThrow();
+      garden.destroy();
+    });
+  });
+
+  describe('loop modes', () => {
+    it('should jump back to an empty garden in restart mode', () => {
+      const crossfade = vi.spyOn(Renderer.prototype, 'renderCrossfade');
+      const garden = createGarden({ loop: true });
+      garden.play();
+      frames.advance(11000);
+
+      expect(garden.getElapsedTime()).toBeCloseTo(1, 0);
+      expect(crossfade).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should play backwards and forwards again in ping-pong mode', () => {
+      const garden = createGarden({ loop: true, loopMode: 'ping-pong' });
+      const generations: number[] = [];
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+      garden.play();
+
+      frames.advance(12000);
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeCloseTo(8, 0);
+
+      frames.advance(9000);
+      expect(garden.getElapsedTime()).toBeCloseTo(1, 0);
+      expect(generations).toEqual([1, 2, 3, 4, 5, 5, 4, 3, 2, 1]);
+      garden.destroy();
+    });
+
+    it('should grow a different garden each cycle in reseed mode', () => {
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const garden = createGarden({ loop: true, loopMode: 'reseed' });
+      garden.play();
+
+      frames.advance(5000);
+      const firstPlants = render.mock.lastCall![0];
+      frames.advance(10000);
+      const secondPlants = render.mock.lastCall![0];
+
+      expect(secondPlants).not.toBe(firstPlants);
+      expect(secondPlants.map((p) => p.x)).not.toEqual(firstPlants.map((p) => p.x));
+      garden.destroy();
+    });
+
+    it('should build terrain from the new seed each cycle in reseed mode', () => {
+      const setOptions = vi.spyOn(Renderer.prototype, 'setOptions');
+      const garden = createGarden({ loop: true, loopMode: 'reseed', terrain: 'hills' });
+      garden.play();
+
+      frames.advance(10500);
+      const seed = garden.getSnapshot().options.seed;
+
+      expect(seed).not.toBe(42);
+      expect(setOptions).toHaveBeenLastCalledWith(expect.objectContaining({ seed }));
+      garden.destroy();
+    });
+
+    it('should derive the same seed sequence for the same starting seed', () => {
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const cyclePlants = (): number[] => {
+        const garden = createGarden({ loop: true, loopMode: 'reseed' });
+        garden.play();
+        frames.advance(15000);
+        const xs = render.mock.lastCall![0].map((p) => p.x);
+        garden.destroy();
+        return xs;
+      };
+
+      expect(cyclePlants()).toEqual(cyclePlants());
+    });
+
+    it('should fade out the previous garden in crossfade mode', () => {
+      const crossfade = vi.spyOn(Renderer.prototype, 'renderCrossfade');
+      const garden = createGarden({ loop: true, loopMode: 'crossfade' });
+      garden.play();
+
+      frames.advance(10500);
+      expect(crossfade).toHaveBeenCalled();
+      const [, , alpha] = crossfade.mock.lastCall!;
+      expect(alpha).toBeGreaterThan(0);
+      expect(alpha).toBeLessThan(1);
+
+      // The fade lasts a tenth of the duration
+      frames.advance(1000);
+      crossfade.mockClear();
+      frames.advance(1000);
+      expect(crossfade).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+  });
+
+  describe('snapshots', () => {
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    it('should capture a JSON-safe snapshot', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(4000);
+
+      const snapshot = garden.getSnapshot();
+      expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+      expect(snapshot.state).toBe('playing');
+      expect(snapshot.elapsedTime).toBeCloseTo(4, 1);
+      expect(snapshot.options.seed).toBe(42);
+      expect(snapshot.lastReportedGeneration).toBe(2);
+      garden.destroy();
+    });
+
+    it('should resume playing from a snapshot', () => {
+      const original = createGarden({ seed: 7 });
+      original.play();
+      frames.advance(6000);
+      const snapshot = original.getSnapshot();
+      original.destroy();
+
+      const restored = Garten.fromSnapshot(container, snapshot);
+      expect(restored.getState()).toBe('playing');
+      expect(restored.getElapsedTime()).toBeCloseTo(6, 1);
+      expect(restored.getSnapshot().options.seed).toBe(7);
+
+      frames.advance(1000);
+      expect(restored.getElapsedTime()).toBeCloseTo(7, 1);
+      restored.destroy();
+    });
+
+    it('should restore a paused snapshot without playing', () => {
+      const garden = createGarden();
+      garden.play();
+      garden.seek(3);
+      garden.pause();
+      const other = createGarden({ seed: 99 });
+      other.restore(garden.getSnapshot());
+
+      expect(other.getState()).toBe('paused');
+      expect(other.getElapsedTime()).toBe(3);
+      expect(other.getSnapshot().options.seed).toBe(42);
+      garden.destroy();
+      other.destroy();
+    });
+
+    it('should record an auto-paused garden as playing', () => {
+      const garden = createGarden({ pauseWhenHidden: true });
+      garden.play();
+      frames.advance(1000);
+
+      Object.defineProperty(document, 'hidden', { configurable: true, value: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+      expect(garden.getState()).toBe('paused');
+      expect(garden.getSnapshot().state).toBe('playing');
+
+      Object.defineProperty(document, 'hidden', { configurable: true, value: false });
+      garden.destroy();
+    });
+
+    it('should reject invalid snapshots', () => {
+      const garden = createGarden();
+      const snapshot = { ...garden.getSnapshot(), version: 0 };
+      expect(() => garden.restore(snapshot)).toThrow('Garten:');
+      expect(() => Garten.fromSnapshot(container, snapshot)).toThrow('Garten:');
+      garden.destroy();
+    });
+
+    it('should persist to sessionStorage and resume with the same persistKey', () => {
+      const first = createGarden({ persistKey: 'hero-garden', seed: 5 });
+      first.play();
+      frames.advance(2000);
+      window.dispatchEvent(new Event('pagehide'));
+      first.destroy();
+
+      expect(sessionStorage.getItem('hero-garden')).not.toBeNull();
+
+      // The next page constructs the garden with different options
+      const second = createGarden({ persistKey: 'hero-garden', seed: 1 });
+      expect(second.getState()).toBe('playing');
+      expect(second.getElapsedTime()).toBeCloseTo(2, 1);
+      expect(second.getSnapshot().options.seed).toBe(5);
+      second.destroy();
+    });
+
+    it('should apply options passed on reload over the persisted ones', () => {
+      const first = createGarden({ persistKey: 'hero-garden', seed: 5 });
+      first.play();
+      frames.advance(2000);
+      first.pause();
+      first.destroy();
+
+      const clock = new GardenClock({ targetFPS: 60 });
+      const second = createGarden({ persistKey: 'hero-garden', clock, duration: 20 });
+      expect(second.getSnapshot().options.duration).toBe(20);
+      expect(second.getSnapshot().options.seed).toBe(5);
+
+      // The clock is not in the snapshot but still drives the garden
+      clock.play();
+      frames.advance(500);
+      expect(second.getState()).toBe('playing');
+      second.destroy();
+      clock.destroy();
+    });
+  });
+
+  describe('scroll driver', () => {
+    function scrollTo(y: number): void {
+      Object.defineProperty(window, 'scrollY', { configurable: true, value: y });
+      window.dispatchEvent(new Event('scroll'));
+      frames.advance(20);
+    }
+
+    afterEach(() => {
+      Object.defineProperty(window, 'scrollY', { configurable: true, value: 0 });
+    });
+
+    function createScrollGarden(options: Partial<GardenOptions> = {}): Garten {
+      return createGarden({ driver: 'scroll', scrollRange: { start: 0, end: 1000 }, ...options });
+    }
+
+    it('should map scroll position to elapsed time', () => {
+      const garden = createScrollGarden();
+      scrollTo(500);
+      expect(garden.getElapsedTime()).toBe(5);
+      expect(garden.getProgress()).toBe(0.5);
+      garden.destroy();
+    });
+
+    it('should ignore play and pause', () => {
+      const garden = createScrollGarden({ autoplay: true });
+      expect(garden.getState()).toBe('idle');
+
+      garden.play();
+      frames.advance(1000);
+      expect(garden.getState()).toBe('idle');
+      expect(garden.getElapsedTime()).toBe(0);
+      garden.destroy();
+    });
+
+    it('should fire generation events in both directions without completing', () => {
+      const garden = createScrollGarden();
+      const generations: number[] = [];
+      const states = vi.fn();
+      const complete = vi.fn();
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+      garden.on('stateChange', states);
+      garden.on('complete', complete);
+
+      scrollTo(1000);
+      scrollTo(300);
+
+      expect(generations).toEqual([1, 2, 3, 4, 5, 5, 4, 3, 2]);
+      expect(states).not.toHaveBeenCalled();
+      expect(complete).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should fire cues when scrolling forward past them', () => {
+      const garden = createScrollGarden();
+      const cb = vi.fn();
+      garden.addCue({ progress: 0.5 }, cb);
+
+      scrollTo(600);
+      scrollTo(100);
+      scrollTo(700);
+      expect(cb).toHaveBeenCalledTimes(2);
+      garden.destroy();
+    });
+
+    it('should hand the position back to the clock when switching to time', () => {
+      const garden = createScrollGarden();
+      scrollTo(400);
+
+      garden.setOptions({ driver: 'time' });
+      expect(garden.getState()).toBe('paused');
+
+      garden.play();
+      frames.advance(1000);
+      expect(garden.getElapsedTime()).toBeCloseTo(5, 1);
+
+      scrollTo(900);
+      expect(garden.getElapsedTime()).toBeCloseTo(5, 0);
+      garden.destroy();
+    });
+
+    it('should stop the clock when switching to scroll mid-playback', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(1000);
+
+      garden.setOptions({ driver: 'scroll', scrollRange: { start: 0, end: 1000 } });
+      expect(garden.getState()).toBe('idle');
+      expect(garden.getElapsedTime()).toBe(0);
+      garden.destroy();
+    });
+
+    it('should reject an empty scroll range', () => {
+      expect(() => createScrollGarden({ scrollRange: { start: 100, end: 100 } })).toThrow('Garten:');
+    });
+  });
+
+  describe('manual driver', () => {
+    function createManualGarden(options: Partial<GardenOptions> = {}): Garten {
+      return createGarden({ driver: 'manual', progressTweenDuration: 1, ...options });
+    }
+
+    it('should ease towards the target instead of jumping', () => {
+      const garden = createManualGarden();
+      garden.setProgress(0.5);
+      expect(garden.getElapsedTime()).toBe(0);
+
+      frames.advance(500);
+      const midway = garden.getElapsedTime();
+      expect(midway).toBeGreaterThan(2.5);
+      expect(midway).toBeLessThan(5);
+
+      frames.advance(600);
+      expect(garden.getElapsedTime()).toBe(5);
+      garden.destroy();
+    });
+
+    it('should retarget from the current render time', () => {
+      const garden = createManualGarden();
+      garden.setProgress(1);
+      frames.advance(300);
+      const current = garden.getElapsedTime();
+
+      garden.setProgress(0.2);
+      frames.advance(20);
+      expect(garden.getElapsedTime()).toBeLessThanOrEqual(current);
+
+      frames.advance(1100);
+      expect(garden.getElapsedTime()).toBe(2);
+      garden.destroy();
+    });
+
+    it('should fire complete only once when reaching 1', () => {
+      const garden = createManualGarden();
+      const complete = vi.fn();
+      garden.on('complete', complete);
+
+      garden.setProgress(1);
+      frames.advance(1100);
+      garden.setProgress(1);
+      frames.advance(1100);
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(garden.getState()).toBe('complete');
+
+      garden.setProgress(0.5);
+      expect(garden.getState()).toBe('idle');
+      garden.setProgress(1);
+      frames.advance(1100);
+      expect(complete).toHaveBeenCalledTimes(2);
+      garden.destroy();
+    });
+
+    it('should never run on its own clock', () => {
+      const garden = createManualGarden({ autoplay: true });
+      garden.play();
+      frames.advance(2000);
+
+      expect(garden.getState()).toBe('idle');
+      expect(garden.getElapsedTime()).toBe(0);
+      garden.destroy();
+    });
+
+    it('should jump when the tween duration is zero', () => {
+      const garden = createManualGarden({ progressTweenDuration: 0 });
+      const generations: number[] = [];
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+
+      garden.setProgress(0.45);
+      expect(garden.getElapsedTime()).toBe(4.5);
+      expect(generations).toEqual([1, 2]);
+      garden.destroy();
+    });
+
+    it('should throw outside manual mode', () => {
+      const garden = createGarden();
+      expect(() => garden.setProgress(0.5)).toThrow('Garten:');
+      garden.destroy();
+    });
+  });
+
+  describe('promise API', () => {
+    it('should resolve play() with complete when playback finishes', async () => {
+      const garden = createGarden();
+      const outcome = garden.play();
+
+      frames.advance(11000);
+
+      await expect(outcome).resolves.toBe('complete');
+      garden.destroy();
+    });
+
+    it('should keep play() pending across pause and resume', async () => {
+      const garden = createGarden();
+      const settled = vi.fn();
+      garden.play().then(settled);
+
+      frames.advance(2000);
+      garden.pause();
+      await Promise.resolve();
+      expect(settled).not.toHaveBeenCalled();
+
+      garden.play();
+      frames.advance(9000);
+      await Promise.resolve();
+      expect(settled).toHaveBeenCalledWith('complete');
+      garden.destroy();
+    });
+
+    it('should settle play() on stop and destroy', async () => {
+      const garden = createGarden();
+      const first = garden.play();
+      garden.stop();
+      await expect(first).resolves.toBe('stopped');
+
+      const second = garden.play();
+      garden.destroy();
+      await expect(second).resolves.toBe('destroyed');
+    });
+
+    it('should resolve play() when a rewind reaches zero', async () => {
+      const garden = createGarden();
+      garden.seek(3);
+      garden.setSpeed(-1);
+      const outcome = garden.play();
+
+      frames.advance(4000);
+
+      await expect(outcome).resolves.toBe('complete');
+      garden.destroy();
+    });
+
+    it('should resolve waitFor() when a generation finishes', async () => {
+      const garden = createGarden();
+      const generations: number[] = [];
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+      const reached = vi.fn();
+      garden.waitFor({ generation: 3 }).then(reached);
+      garden.play();
+
+      frames.advance(5000);
+      await Promise.resolve();
+      expect(reached).not.toHaveBeenCalled();
+
+      frames.advance(1200);
+      await Promise.resolve();
+      expect(reached).toHaveBeenCalledWith('reached');
+      expect(generations).toContain(3);
+      garden.destroy();
+    });
+
+    it('should resolve waitFor() on progress, including via seek', async () => {
+      const garden = createGarden();
+      const viaPlayback = garden.waitFor({ progress: 0.25 });
+      const viaSeek = garden.waitFor({ progress: 0.8 });
+      garden.play();
+
+      frames.advance(3000);
+      await expect(viaPlayback).resolves.toBe('reached');
+
+      garden.seek(9);
+      await expect(viaSeek).resolves.toBe('reached');
+      garden.destroy();
+    });
+
+    it('should resolve waitFor() immediately for a point already passed', async () => {
+      const garden = createGarden();
+      garden.seek(5);
+
+      await expect(garden.waitFor({ progress: 0.5 })).resolves.toBe('reached');
+      await expect(garden.waitFor({ generation: 2 })).resolves.toBe('reached');
+      garden.destroy();
+    });
+
+    it('should settle waitFor() with stopped when stopped first', async () => {
+      const garden = createGarden();
+      const pending = garden.waitFor({ progress: 0.9 });
+      garden.play();
+      frames.advance(1000);
+      garden.stop();
+
+      await expect(pending).resolves.toBe('stopped');
+      garden.destroy();
+    });
+
+    it('should reject out-of-range waitFor() targets', () => {
+      const garden = createGarden();
+
+      expect(() => garden.waitFor({ generation: 0 })).toThrow('Garten:');
+      expect(() => garden.waitFor({ generation: 6 })).toThrow('Garten:');
+      expect(() => garden.waitFor({ generation: 1.5 })).toThrow('Garten:');
+      expect(() => garden.waitFor({ progress: 1.5 })).toThrow('Garten:');
+      expect(() => garden.waitFor({ progress: NaN })).toThrow('Garten:');
+      garden.destroy();
+    });
+  });
+
+  describe('manual stepping and schedulers', () => {
+    /** Scheduler with its own time base, advanced explicitly */
+    function createTestScheduler(start: number = 0) {
+      let time = start;
+      let nextHandle = 1;
+      const queued = new Map<number, (timestamp: number) => void>();
+      return {
+        now: () => time,
+        requestFrame: vi.fn((callback: (timestamp: number) => void) => {
+          queued.set(nextHandle, callback);
+          return nextHandle++;
+        }),
+        cancelFrame: vi.fn((handle: number) => {
+          queued.delete(handle);
+        }),
+        pending: () => queued.size,
+        advance(ms: number, stepMs: number = 50): void {
+          const end = time + ms;
+          while (time < end) {
+            time = Math.min(end, time + stepMs);
+            const callbacks = Array.from(queued.values());
+            queued.clear();
+            callbacks.forEach((callback) => callback(time));
+          }
+        },
+      };
+    }
+
+    it('should advance, emit events and render on step() without requesting frames', () => {
+      const scheduler = createTestScheduler();
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const garden = createGarden({ scheduler });
+      const generations: number[] = [];
+      const complete = vi.fn();
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+      garden.on('complete', complete);
+      render.mockClear();
+
+      for (let i = 0; i < 4; i++) garden.step(2.5);
+
+      expect(render).toHaveBeenCalledTimes(4);
+      expect(render).toHaveBeenLastCalledWith(expect.any(Array), 10);
+      expect(generations).toEqual([1, 2, 3, 4, 5]);
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(garden.getState()).toBe('complete');
+      expect(rafSpy).not.toHaveBeenCalled();
+      expect(scheduler.requestFrame).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should report every generation when a step goes past the end', () => {
+      for (const seconds of [10, 12, 15]) {
+        const garden = createGarden();
+        const generations: number[] = [];
+        const complete = vi.fn();
+        garden.on('generationComplete', ({ generation }) => generations.push(generation));
+        garden.on('complete', complete);
+
+        garden.step(seconds);
+
+        expect(generations).toEqual([1, 2, 3, 4, 5]);
+        expect(complete).toHaveBeenCalledTimes(1);
+        garden.destroy();
+      }
+    });
+
+    it('should apply speed and leave an idle garden paused at the new position', () => {
+      const garden = createGarden({ speed: 2 });
+
+      garden.step(1);
+
+      expect(garden.getElapsedTime()).toBe(2);
+      expect(garden.getState()).toBe('paused');
+
+      garden.play();
+      frames.advance(500);
+      expect(garden.getElapsedTime()).toBeCloseTo(3, 1);
+      garden.destroy();
+    });
+
+    it('should step a playing garden without breaking its loop', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(1000);
+
+      garden.step(3);
+      frames.advance(1000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeCloseTo(5, 1);
+      garden.destroy();
+    });
+
+    it('should wrap when stepping past the end of a looping garden', () => {
+      const garden = createGarden({ loop: true });
+      const complete = vi.fn();
+      garden.on('complete', complete);
+
+      garden.step(9);
+      garden.step(2);
+
+      expect(garden.getElapsedTime()).toBe(0);
+      expect(complete).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should reject invalid steps and other drivers', () => {
+      const garden = createGarden();
+      expect(() => garden.step(-1)).toThrow('Garten:');
+      expect(() => garden.step(Infinity)).toThrow('Garten:');
+      garden.destroy();
+
+      const manual = createGarden({ driver: 'manual' });
+      expect(() => manual.step(1)).toThrow('Garten:');
+      manual.destroy();
+    });
+
+    it('should play on a custom scheduler', () => {
+      const scheduler = createTestScheduler(50000);
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+      const garden = createGarden({ scheduler });
+
+      garden.play();
+      scheduler.advance(2000);
+
+      expect(garden.getElapsedTime()).toBeCloseTo(2, 1);
+      expect(rafSpy).not.toHaveBeenCalled();
+
+      garden.pause();
+      expect(scheduler.pending()).toBe(0);
+      garden.destroy();
+    });
+
+    it('should move a running loop to a new scheduler', () => {
+      const scheduler = createTestScheduler(50000);
+      const garden = createGarden();
+      garden.play();
+      frames.advance(1000);
+
+      garden.setOptions({ scheduler });
+      frames.advance(1000);
+      scheduler.advance(1000);
+
+      expect(garden.getElapsedTime()).toBeCloseTo(2, 1);
+      expect(garden.getState()).toBe('playing');
+      garden.destroy();
+    });
+  });
+
+  describe('offscreen rendering', () => {
+    function createFakeWorker() {
+      return {
+        postMessage: vi.fn(),
+        terminate: vi.fn(),
+        addEventListener: vi.fn(),
+      };
+    }
+
+    type FakeWorker = ReturnType<typeof createFakeWorker>;
+
+    function sentMessages(worker: FakeWorker): Array<{ type: string; [key: string]: unknown }> {
+      return worker.postMessage.mock.calls.map(([message]) => message);
+    }
+
+    function stubOffscreenSupport(): { transfer: ReturnType<typeof vi.fn> } {
+      const transfer = vi.fn(() => ({ offscreen: true }));
+      vi.stubGlobal('OffscreenCanvas', class {});
+      vi.stubGlobal('Worker', class {});
+      Object.defineProperty(HTMLCanvasElement.prototype, 'transferControlToOffscreen', {
+        value: transfer,
+        configurable: true,
+      });
+      return { transfer };
+    }
+
+    afterEach(() => {
+      delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).transferControlToOffscreen;
+    });
+
+    it('should transfer the canvas and send frames to the worker instead of drawing', () => {
+      const { transfer } = stubOffscreenSupport();
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const worker = createFakeWorker();
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => worker as unknown as Worker,
+      });
+
+      garden.seek(4);
+
+      expect(transfer).toHaveBeenCalledTimes(1);
+      expect(container.querySelector('canvas')).not.toBeNull();
+      expect(render).not.toHaveBeenCalled();
+
+      const [init, transferList] = worker.postMessage.mock.calls[0];
+      expect(init.type).toBe('init');
+      expect(transferList).toEqual([init.canvas]);
+
+      const messages = sentMessages(worker);
+      const generate = messages.find((message) => message.type === 'generate');
+      expect(generate?.options).toMatchObject({ seed: 42, duration: 10 });
+      expect(generate?.options).not.toHaveProperty('container');
+      expect(messages[messages.length - 1]).toEqual({ type: 'render', time: 4, outgoingAlpha: 0 });
+      garden.destroy();
+    });
+
+    it('should keep events and playback on the main thread', () => {
+      stubOffscreenSupport();
+      const worker = createFakeWorker();
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => worker as unknown as Worker,
+      });
+      const generations: number[] = [];
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+
+      garden.play();
+      frames.advance(4500);
+
+      expect(generations).toEqual([1, 2]);
+      const renders = sentMessages(worker).filter((message) => message.type === 'render');
+      expect(renders.length).toBeGreaterThan(50);
+      garden.destroy();
+    });
+
+    it('should terminate the worker on destroy', () => {
+      stubOffscreenSupport();
+      const worker = createFakeWorker();
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => worker as unknown as Worker,
+      });
+
+      garden.destroy();
+
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(container.querySelector('canvas')).toBeNull();
+    });
+
+    it('should fall back to the main thread without OffscreenCanvas', () => {
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const createWorker = vi.fn();
+      const garden = createGarden({ offscreen: true, createWorker });
+
+      garden.seek(2);
+
+      expect(createWorker).not.toHaveBeenCalled();
+      expect(render).toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should fall back to the main thread if the worker fails to start', () => {
+      stubOffscreenSupport();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => {
+          throw new Error('blocked by CSP');
+        },
+      });
+
+      garden.seek(2);
+
+      expect(render).toHaveBeenCalled();
+      expect(warn).toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should warn once about a missing createWorker, not on every setOptions', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const garden = createGarden({ offscreen: true });
+
+      garden.setOptions({ speed: 2 });
+      garden.setOptions({ duration: 20 });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith('Garten: offscreen requires createWorker. Rendering on the main thread.');
+      garden.destroy();
+    });
+
+    it('should switch renderers when offscreen is toggled', () => {
+      stubOffscreenSupport();
+      const worker = createFakeWorker();
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const garden = createGarden();
+      garden.seek(3);
+      render.mockClear();
+
+      garden.setOptions({ offscreen: true, createWorker: () => worker as unknown as Worker });
+      garden.seek(5);
+
+      expect(render).not.toHaveBeenCalled();
+      expect(sentMessages(worker)).toContainEqual({ type: 'render', time: 5, outgoingAlpha: 0 });
+      expect(container.querySelectorAll('canvas')).toHaveLength(1);
+
+      garden.setOptions({ offscreen: false });
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(render).toHaveBeenCalledWith(expect.any(Array), 5);
+      garden.destroy();
+    });
+
+    it('should draw on the main thread while the background is a callback', () => {
+      stubOffscreenSupport();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const worker = createFakeWorker();
+      const painter = vi.fn();
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => worker as unknown as Worker,
+        background: painter,
+      });
+
+      garden.seek(4);
+      expect(worker.postMessage).not.toHaveBeenCalled();
+      expect(painter).toHaveBeenCalled();
+
+      garden.setOptions({ background: '#000000' });
+      expect(sentMessages(worker)[0].type).toBe('init');
+      garden.destroy();
+    });
+  });
+
+  describe('shared clock', () => {
+    it('should keep gardens in step, each with its own offset', () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const a = createGarden({ clock });
+      frames.advance(700);
+      const b = createGarden({ clock, clockOffset: 2 });
+
+      clock.play();
+      frames.advance(3000);
+
+      expect(a.getState()).toBe('playing');
+      expect(b.getState()).toBe('playing');
+      expect(b.getElapsedTime() - a.getElapsedTime()).toBeCloseTo(2, 5);
+      a.destroy();
+      b.destroy();
+      clock.destroy();
+    });
+
+    it('should forward play, pause, seek and setSpeed to the clock', () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const a = createGarden({ clock });
+      const b = createGarden({ clock });
+
+      a.play();
+      expect(clock.getState()).toBe('playing');
+      expect(b.getState()).toBe('playing');
+
+      b.seek(4);
+      expect(a.getElapsedTime()).toBe(4);
+
+      a.setSpeed(2);
+      frames.advance(1000);
+      expect(b.getElapsedTime()).toBeCloseTo(6, 1);
+
+      b.pause();
+      expect(a.getState()).toBe('paused');
+      a.destroy();
+      b.destroy();
+      clock.destroy();
+    });
+
+    it('should complete gardens individually as the clock passes their duration', () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const short = createGarden({ clock, duration: 2 });
+      const long = createGarden({ clock, duration: 10 });
+      const complete = vi.fn();
+      short.on('complete', complete);
+
+      clock.play();
+      frames.advance(3000);
+
+      expect(short.getState()).toBe('complete');
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(long.getState()).toBe('playing');
+      short.destroy();
+      long.destroy();
+      clock.destroy();
+    });
+
+    it('should rewind a completed garden from its end and stop at the start', async () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const garden = createGarden({ clock });
+      const rewindComplete = vi.fn();
+      garden.on('rewindComplete', rewindComplete);
+
+      clock.play();
+      frames.advance(20000);
+      expect(garden.getState()).toBe('complete');
+
+      garden.rewind();
+      const outcome = garden.play();
+      frames.advance(4000);
+      expect(garden.getElapsedTime()).toBeCloseTo(6, 1);
+
+      frames.advance(8000);
+      expect(garden.getElapsedTime()).toBe(0);
+      expect(garden.getState()).toBe('idle');
+      expect(rewindComplete).toHaveBeenCalledTimes(1);
+      expect(clock.getState()).toBe('paused');
+      expect(clock.getTime()).toBe(0);
+      await expect(outcome).resolves.toBe('complete');
+      garden.destroy();
+      clock.destroy();
+    });
+
+    it('should wrap looping gardens on the shared timeline', () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const garden = createGarden({ clock, loop: true });
+      const generations: number[] = [];
+      garden.on('generationComplete', ({ generation }) => generations.push(generation));
+
+      clock.play();
+      frames.advance(12500);
+
+      expect(garden.getElapsedTime()).toBeCloseTo(2.5, 1);
+      expect(generations).toEqual([1, 2, 3, 4, 5, 1]);
+      garden.destroy();
+      clock.destroy();
+    });
+
+    it('should not start its own animation loop', () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame');
+      const a = createGarden({ clock, autoplay: true });
+      const b = createGarden({ clock, autoplay: true });
+
+      expect(rafSpy).toHaveBeenCalledTimes(1);
+      a.destroy();
+      b.destroy();
+      clock.destroy();
+    });
+
+    it('should continue on its own clock after detaching', () => {
+      const clock = new GardenClock({ targetFPS: 60 });
+      const garden = createGarden({ clock });
+      clock.play();
+      frames.advance(1000);
+
+      garden.setOptions({ clock: null });
+      clock.pause();
+      frames.advance(1000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeCloseTo(2, 1);
+      garden.destroy();
+      clock.destroy();
+    });
+  });
+
+  describe('cues', () => {
+    it('should fire a cue once per pass during playback', () => {
+      const garden = createGarden();
+      const cb = vi.fn();
+      garden.addCue(2, cb);
+      garden.play();
+
+      frames.advance(5000);
+      expect(cb).toHaveBeenCalledTimes(1);
+      garden.destroy();
+    });
+
+    it('should fire cues skipped by a fast frame', () => {
+      const garden = createGarden();
+      const cb = vi.fn();
+      garden.addCue({ progress: 0.25 }, cb);
+      garden.setSpeed(50);
+      garden.play();
+
+      frames.advance(100);
+      expect(cb).toHaveBeenCalledTimes(1);
+      garden.destroy();
+    });
+
+    it('should re-arm cues on loop wrap-around', () => {
+      const garden = createGarden({ loop: true });
+      const cb = vi.fn();
+      garden.addCue(5, cb);
+      garden.play();
+
+      frames.advance(27000);
+      expect(cb).toHaveBeenCalledTimes(3);
+      garden.destroy();
+    });
+
+    it('should re-arm cues after seeking back and skip them after seeking forward', () => {
+      const garden = createGarden();
+      const early = vi.fn();
+      const late = vi.fn();
+      garden.addCue(2, early);
+      garden.addCue(6, late);
+      garden.play();
+      frames.advance(3000);
+      expect(early).toHaveBeenCalledTimes(1);
+
+      garden.seek(1);
+      frames.advance(1500);
+      expect(early).toHaveBeenCalledTimes(2);
+
+      garden.seek(7);
+      frames.advance(1000);
+      expect(late).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+
+    it('should not fire removed cues', () => {
+      const garden = createGarden();
+      const cb = vi.fn();
+      const id = garden.addCue(1, cb);
+      expect(garden.removeCue(id)).toBe(true);
+      garden.play();
+
+      frames.advance(3000);
+      expect(cb).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+  });
+
+  describe('backgrounds', () => {
+    it('should redraw a paused garden when the background changes', () => {
+      const garden = createGarden();
+      garden.seek(3);
+      const render = vi.spyOn(Renderer.prototype, 'render');
+
+      garden.setOptions({ background: { type: 'linear', stops: [{ offset: 0, color: '#fff' }] } });
+
+      expect(render).toHaveBeenCalledTimes(1);
+      expect(render.mock.calls[0][1]).toBe(3);
+      garden.destroy();
+    });
+
+    it('should keep gradient backgrounds in snapshots and drop callbacks', () => {
+      const gradient = { type: 'radial' as const, stops: [{ offset: 0, color: '#fff' }] };
+      const garden = createGarden({ background: gradient });
+      expect(garden.getSnapshot().options.background).toEqual(gradient);
+
+      garden.setOptions({ background: () => {} });
+      const snapshot = garden.getSnapshot();
+      expect(snapshot.options.background).toBeNull();
+      garden.destroy();
+
+      const restored = Garten.fromSnapshot(container, snapshot);
+      expect(restored.getSnapshot().options.background).toBe('#ffffff');
+      restored.destroy();
+    });
+  });
+
+  describe('terrain', () => {
+    it('should raise plants onto the terrain and regenerate when it changes', () => {
+      const garden = createGarden();
+      garden.seek(10);
+      const flat = garden.toSVG({ width: 200, height: 100 });
+
+      garden.setOptions({ terrain: { shape: 'mound', height: 0.3 } });
+
+      expect(garden.getSnapshot().options.terrain).toMatchObject({ shape: 'mound', height: 0.3 });
+      expect(garden.toSVG({ width: 200, height: 100 })).not.toBe(flat);
+      // Other options keep the terrain
+      garden.setOptions({ opacity: 0.5 });
+      expect(garden.getSnapshot().options.terrain.shape).toBe('mound');
+      garden.destroy();
+    });
+
+    it('should draw on the main thread while the terrain is a function', () => {
+      vi.stubGlobal('OffscreenCanvas', class {});
+      vi.stubGlobal('Worker', class {});
+      Object.defineProperty(HTMLCanvasElement.prototype, 'transferControlToOffscreen', {
+        value: vi.fn(() => ({})),
+        configurable: true,
+      });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const worker = { postMessage: vi.fn(), terminate: vi.fn(), addEventListener: vi.fn() };
+      const terrain = vi.fn((x: number) => x);
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => worker as unknown as Worker,
+        terrain,
+      });
+
+      garden.seek(4);
+      expect(worker.postMessage).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('terrain functions'));
+      expect(terrain).toHaveBeenCalled();
+
+      garden.setOptions({ terrain: 'hills' });
+      expect(worker.postMessage.mock.calls[0][0].type).toBe('init');
+      garden.destroy();
+      delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).transferControlToOffscreen;
+    });
+  });
+
+  describe('anchor', () => {
+    it('should regenerate plants on the new edge when the anchor changes', () => {
+      const garden = createGarden();
+      const regenerate = vi.fn();
+      garden.on('regenerate', regenerate);
+
+      garden.setOptions({ anchor: 'top' });
+
+      expect(regenerate).toHaveBeenCalledTimes(1);
+      expect(garden.getSnapshot().options.anchor).toBe('top');
+      // Other options keep the anchor
+      garden.setOptions({ opacity: 0.5 });
+      expect(garden.getSnapshot().options.anchor).toBe('top');
+
+      garden.setOptions({ anchor: { type: 'radial', radius: 0.1 } });
+      expect(garden.getSnapshot().options.anchor).toEqual({ type: 'radial', x: 0.5, y: 0.5, radius: 0.1 });
+      garden.destroy();
+    });
+  });
+
+  describe('distribution', () => {
+    it('should regenerate plants and keep the distribution across later updates', () => {
+      const garden = createGarden();
+      const regenerate = vi.fn();
+      garden.on('regenerate', regenerate);
+
+      garden.setOptions({ distribution: { mode: 'poisson', minGap: 0.02 } });
+
+      expect(regenerate).toHaveBeenCalledTimes(1);
+      garden.setOptions({ opacity: 0.5 });
+      expect(garden.getSnapshot().options.distribution).toMatchObject({ mode: 'poisson', minGap: 0.02 });
+      garden.destroy();
+    });
+
+    it('should generate plants on the main thread while the distribution is a function', () => {
+      vi.stubGlobal('OffscreenCanvas', class {});
+      vi.stubGlobal('Worker', class {});
+      Object.defineProperty(HTMLCanvasElement.prototype, 'transferControlToOffscreen', {
+        value: vi.fn(() => ({})),
+        configurable: true,
+      });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const worker = { postMessage: vi.fn(), terminate: vi.fn(), addEventListener: vi.fn() };
+      const density = vi.fn((x: number) => x);
+      const garden = createGarden({
+        offscreen: true,
+        createWorker: () => worker as unknown as Worker,
+        distribution: density,
+      });
+
+      expect(worker.postMessage).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('density functions'));
+      expect(density).toHaveBeenCalled();
+
+      garden.setOptions({ distribution: 'edges' });
+      expect(worker.postMessage.mock.calls[0][0].type).toBe('init');
+      garden.destroy();
+      delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).transferControlToOffscreen;
+    });
+  });
+
+  describe('depth', () => {
+    it('should regenerate plants into rows and keep the depth across later updates', () => {
+      const garden = createGarden();
+      const regenerate = vi.fn();
+      garden.on('regenerate', regenerate);
+
+      garden.setOptions({ depth: { layers: 3, hazeColor: '#dde6f0' } });
+
+      expect(regenerate).toHaveBeenCalledTimes(1);
+      garden.setOptions({ opacity: 0.5 });
+      expect(garden.getSnapshot().options.depth).toMatchObject({ layers: 3, hazeColor: '#dde6f0' });
+      garden.destroy();
+    });
+
+    it('should redraw a paused garden as the pointer moves with parallax', () => {
+      const garden = createGarden({ depth: { layers: 3, parallax: 0.05 } });
+      garden.seek(5);
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const setView = vi.spyOn(Renderer.prototype, 'setView');
+
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX: 0, clientY: 0 }));
+      frames.advance(50);
+
+      expect(setView).toHaveBeenLastCalledWith({ x: -1, y: expect.any(Number) });
+      expect(render).toHaveBeenCalledTimes(1);
+      expect(render.mock.calls[0][1]).toBe(5);
+
+      // Turning parallax off centers the rows again
+      garden.setOptions({ depth: 3 });
+      expect(setView).toHaveBeenLastCalledWith(null);
+      garden.destroy();
+    });
+
+    it('should not track the pointer when motion is reduced', () => {
+      vi.stubGlobal('matchMedia', mockMatchMedia(true));
+      const garden = createGarden({ depth: { layers: 3, parallax: 0.05 }, respectReducedMotion: true });
+      const setView = vi.spyOn(Renderer.prototype, 'setView');
+
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX: 0, clientY: 0 }));
+      frames.advance(50);
+
+      expect(setView).not.toHaveBeenCalled();
+      garden.destroy();
+    });
+  });
+
+  describe('avoid', () => {
+    const rect = (x: number, y: number, width: number, height: number): DOMRect => ({
+      x, y, left: x, top: y, width, height, right: x + width, bottom: y + height, toJSON: () => ({}),
+    });
+
+    it('should regenerate plants around new regions', () => {
+      vi.spyOn(container, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 400, 200));
+      const garden = createGarden();
+      const regenerate = vi.fn();
+      garden.on('regenerate', regenerate);
+
+      garden.setOptions({ avoid: [{ x: 0, y: 0, width: 400, height: 180 }] });
+
+      expect(regenerate).toHaveBeenCalledTimes(1);
+      expect(garden.getSnapshot().options.avoid).toEqual([{ x: 0, y: 0, width: 400, height: 180 }]);
+      garden.destroy();
+    });
+
+    it('should refit plants when avoided elements move', () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      const heading = document.createElement('h1');
+      container.appendChild(heading);
+      vi.spyOn(container, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 400, 200));
+      const headingRect = vi.spyOn(heading, 'getBoundingClientRect').mockReturnValue(rect(0, 0, 100, 40));
+      const garden = createGarden({ avoid: [heading] });
+      const regenerate = vi.fn();
+      garden.on('regenerate', regenerate);
+
+      // Resizing without moving the heading keeps the garden
+      window.dispatchEvent(new Event('resize'));
+      vi.advanceTimersByTime(100);
+      expect(regenerate).not.toHaveBeenCalled();
+
+      headingRect.mockReturnValue(rect(200, 100, 100, 40));
+      window.dispatchEvent(new Event('resize'));
+      vi.advanceTimersByTime(100);
+      expect(regenerate).toHaveBeenCalledTimes(1);
+
+      garden.destroy();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('color scheme', () => {
+    const size = { width: 400, height: 200 };
+    let dark: boolean;
+    let listeners: Array<(e: { matches: boolean }) => void>;
+
+    function setDarkMode(value: boolean): void {
+      dark = value;
+      for (const listener of [...listeners]) listener({ matches: value });
+    }
+
+    beforeEach(() => {
+      dark = false;
+      listeners = [];
+      vi.stubGlobal('matchMedia', vi.fn().mockImplementation((query: string) => ({
+        get matches() {
+          return query.includes('color-scheme: dark') ? dark : false;
+        },
+        media: query,
+        addEventListener: (_: string, cb: (e: { matches: boolean }) => void) => {
+          if (query.includes('color-scheme')) listeners.push(cb);
+        },
+        removeEventListener: (_: string, cb: (e: { matches: boolean }) => void) => {
+          listeners = listeners.filter((l) => l !== cb);
+        },
+      })));
+    });
+
+    it('should start dark on a dark page with colorScheme auto', () => {
+      dark = true;
+      const garden = createGarden({ colorScheme: 'auto' });
+
+      expect(garden.toSVG(size)).toContain('fill="#121417"');
+      garden.destroy();
+    });
+
+    it('should recolor live without moving plants when the preference changes', () => {
+      const garden = createGarden({ colorScheme: 'auto' });
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      garden.seek(5);
+      const change = vi.fn();
+      const regenerate = vi.fn();
+      garden.on('colorSchemeChange', change);
+      garden.on('regenerate', regenerate);
+
+      setDarkMode(true);
+
+      expect(change).toHaveBeenCalledWith({ colorScheme: 'dark' });
+      expect(regenerate).not.toHaveBeenCalled();
+      expect(render).toHaveBeenCalledTimes(2);
+      expect(render.mock.calls[1][1]).toBe(5);
+
+      const [lightPlants] = render.mock.calls[0];
+      const [darkPlants] = render.mock.calls[1];
+      const layout = (plants: PlantData[]) => plants.map(({ type, x, maxHeight, delay }) => ({ type, x, maxHeight, delay }));
+      expect(layout(darkPlants)).toEqual(layout(lightPlants));
+      expect(darkPlants.map((p) => p.leafColor)).not.toEqual(lightPlants.map((p) => p.leafColor));
+      expect(garden.toSVG(size)).toContain('fill="#121417"');
+      garden.destroy();
+    });
+
+    it('should not follow the preference with a fixed scheme', () => {
+      const garden = createGarden({ colorScheme: 'light' });
+      const change = vi.fn();
+      garden.on('colorSchemeChange', change);
+
+      setDarkMode(true);
+
+      expect(change).not.toHaveBeenCalled();
+      expect(listeners).toHaveLength(0);
+      garden.destroy();
+    });
+
+    it('should keep custom backgrounds and apply scheme overrides', () => {
+      const garden = createGarden({ colorScheme: 'dark', background: '#334455' });
+      expect(garden.toSVG(size)).toContain('fill="#334455"');
+
+      garden.setOptions({ schemes: { dark: { background: '#000011', groundColor: '#00ff00' } } });
+      const svg = garden.toSVG(size);
+      expect(svg).toContain('fill="#000011"');
+      expect(svg).toContain('fill="#00ff00"');
+      garden.destroy();
+    });
+
+    it('should emit colorSchemeChange and stop listening when set to a fixed scheme', () => {
+      const garden = createGarden({ colorScheme: 'auto' });
+      const change = vi.fn();
+      garden.on('colorSchemeChange', change);
+
+      garden.setOptions({ colorScheme: 'dark' });
+
+      expect(change).toHaveBeenCalledWith({ colorScheme: 'dark' });
+      expect(listeners).toHaveLength(0);
+      garden.destroy();
+    });
+  });
+
+  describe('SVG export', () => {
+    const size = { width: 400, height: 200 };
+    const sameOptions = { duration: 10, generations: 5, seed: 42 };
+
+    it('should export the frame currently shown by default', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(3000);
+      garden.pause();
+
+      const svg = garden.toSVG(size);
+      expect(svg).toBe(renderToSVG({ ...sameOptions, ...size, time: garden.getElapsedTime() }));
+      garden.destroy();
+    });
+
+    it('should export any time or progress without changing playback', () => {
+      const garden = createGarden();
+      const state = garden.getState();
+
+      expect(garden.toSVG({ ...size, progress: 0.5 })).toBe(garden.toSVG({ ...size, time: 5 }));
+      expect(garden.toSVG({ ...size, time: 5 })).toBe(renderToSVG({ ...sameOptions, ...size, time: 5 }));
+      expect(garden.getState()).toBe(state);
+      expect(garden.getElapsedTime()).toBe(0);
+      garden.destroy();
+    });
+
+    it('should default to the canvas size', () => {
+      vi.spyOn(container, 'getBoundingClientRect').mockReturnValue({
+        width: 320, height: 160, top: 0, left: 0, right: 320, bottom: 160, x: 0, y: 0, toJSON: () => ({}),
+      });
+      const garden = createGarden();
+
+      expect(garden.toSVG()).toContain('width="320" height="160"');
+      garden.destroy();
+    });
+
+    it('should throw when there is no size to export at', () => {
+      const garden = createGarden();
+
+      // jsdom containers have no layout, so the canvas is 0 x 0
+      expect(() => garden.toSVG()).toThrow('Garten:');
+      expect(() => garden.toSVG({ width: 100, height: 0 })).toThrow('Garten: width and height must be positive numbers');
+      garden.destroy();
+    });
+  });
+
+  describe('image snapshots', () => {
+    let drawn: Array<{ method: string; args: unknown[] }>;
+    let toBlob: ReturnType<typeof vi.fn>;
+    let encodedSize: string;
+
+    /**
+     * Give the container a size and record drawing on canvases created after the garden
+     */
+    function createSizedGarden(options: Partial<GardenOptions> = {}): Garten {
+      vi.spyOn(container, 'getBoundingClientRect').mockReturnValue({
+        width: 200, height: 100, top: 0, left: 0, right: 200, bottom: 100, x: 0, y: 0, toJSON: () => ({}),
+      });
+      const garden = createGarden(options);
+
+      drawn = [];
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => {
+        const gradient = { addColorStop: () => {} };
+        return new Proxy({} as Record<string | symbol, unknown>, {
+          get(obj, prop) {
+            if (prop in obj) return obj[prop];
+            return (...args: unknown[]) => {
+              drawn.push({ method: String(prop), args });
+              return prop === 'createLinearGradient' || prop === 'createRadialGradient' ? gradient : undefined;
+            };
+          },
+          set(obj, prop, value) {
+            obj[prop] = value;
+            return true;
+          },
+        }) as unknown as RenderingContext;
+      });
+      return garden;
+    }
+
+    beforeEach(() => {
+      toBlob = vi.fn(function (this: HTMLCanvasElement, callback: BlobCallback, type?: string) {
+        encodedSize = `${this.width}x${this.height}`;
+        callback(new Blob([], { type }));
+      });
+      Object.defineProperty(HTMLCanvasElement.prototype, 'toBlob', { value: toBlob, configurable: true });
+      vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(
+        (type?: string) => `data:${type};base64,AAAA`
+      );
+    });
+
+    it('should resolve with a blob drawn at the requested scale', async () => {
+      const garden = createSizedGarden();
+
+      const blob = await garden.snapshot({ scale: 3, type: 'image/webp', quality: 0.8 });
+
+      expect(blob.type).toBe('image/webp');
+      expect(encodedSize).toBe('600x300');
+      expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/webp', 0.8);
+      expect(drawn[0]).toEqual({ method: 'setTransform', args: [3, 0, 0, 3, 0, 0] });
+      garden.destroy();
+    });
+
+    it('should resolve with a PNG data URL on request', async () => {
+      const garden = createSizedGarden();
+
+      await expect(garden.snapshot({ output: 'dataURL' })).resolves.toBe('data:image/png;base64,AAAA');
+      garden.destroy();
+    });
+
+    it('should draw the requested frame without disturbing playback', async () => {
+      const garden = createSizedGarden();
+      garden.play();
+      frames.advance(2000);
+      const render = vi.spyOn(Renderer.prototype, 'render');
+      const time = garden.getElapsedTime();
+
+      await garden.snapshot({ progress: 0 });
+      const empty = drawn.length;
+      await garden.snapshot({ progress: 1 });
+
+      expect(drawn.length - empty).toBeGreaterThan(empty);
+      expect(render).not.toHaveBeenCalled();
+      expect(garden.getElapsedTime()).toBe(time);
+      expect(garden.getState()).toBe('playing');
+      garden.destroy();
+    });
+
+    it('should leave the background clear when transparent', async () => {
+      const garden = createSizedGarden();
+
+      const background = { method: 'fillRect', args: [0, 0, 200, 100] };
+
+      await garden.snapshot({ transparent: true });
+      expect(drawn[1]).toEqual({ method: 'clearRect', args: [0, 0, 200, 100] });
+      expect(drawn).not.toContainEqual(background);
+
+      drawn = [];
+      await garden.snapshot();
+      expect(drawn).toContainEqual(background);
+      garden.destroy();
+    });
+
+    it('should reject when the image cannot be encoded or there is no size', async () => {
+      const garden = createSizedGarden();
+      toBlob.mockImplementation((callback: BlobCallback) => callback(null));
+
+      await expect(garden.snapshot()).rejects.toThrow('Garten:');
+      await expect(garden.snapshot({ scale: 0 })).rejects.toThrow('Garten:');
+      garden.destroy();
+
+      const hidden = createGarden();
+      await expect(hidden.snapshot()).rejects.toThrow('Garten:');
+      hidden.destroy();
+    });
+  });
+
+  describe('reduced motion', () => {
+    let reduced: boolean;
+    let listeners: Array<(e: { matches: boolean }) => void>;
+
+    function setReducedMotion(value: boolean): void {
+      reduced = value;
+      for (const listener of [...listeners]) listener({ matches: value });
+    }
+
+    beforeEach(() => {
+      reduced = false;
+      listeners = [];
+      vi.stubGlobal('matchMedia', vi.fn().mockImplementation((query: string) => ({
+        get matches() {
+          return query.includes('reduced-motion') ? reduced : false;
+        },
+        media: query,
+        addEventListener: (_: string, cb: (e: { matches: boolean }) => void) => listeners.push(cb),
+        removeEventListener: (_: string, cb: (e: { matches: boolean }) => void) => {
+          listeners = listeners.filter((l) => l !== cb);
+        },
+      })));
+    });
+
+    it('should render a static frame when the preference turns on', () => {
+      const garden = createGarden();
+      const change = vi.fn();
+      garden.on('motionPreferenceChange', change);
+      garden.play();
+      frames.advance(3000);
+
+      setReducedMotion(true);
+      const time = garden.getElapsedTime();
+      frames.advance(2000);
+
+      expect(garden.getState()).toBe('complete');
+      expect(garden.getElapsedTime()).toBe(time);
+      expect(change).toHaveBeenCalledWith({ reducedMotion: true });
+      garden.destroy();
+    });
+
+    it('should resume animating where it left off when the preference turns off', () => {
+      const garden = createGarden();
+      garden.play();
+      frames.advance(3000);
+      setReducedMotion(true);
+      const time = garden.getElapsedTime();
+
+      setReducedMotion(false);
+      frames.advance(1000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeCloseTo(time + 1, 1);
+      garden.destroy();
+    });
+
+    it('should start animating a garden that began static', () => {
+      reduced = true;
+      const garden = createGarden({ autoplay: true });
+      expect(garden.getState()).toBe('complete');
+
+      setReducedMotion(false);
+      frames.advance(1000);
+
+      expect(garden.getState()).toBe('playing');
+      expect(garden.getElapsedTime()).toBeGreaterThan(0);
+      garden.destroy();
+    });
+
+    it('should restore an idle garden without starting it', () => {
+      reduced = true;
+      const garden = createGarden();
+
+      setReducedMotion(false);
+
+      expect(garden.getState()).toBe('idle');
+      garden.destroy();
+    });
+
+    it('should ignore the preference when respectReducedMotion is false', () => {
+      const garden = createGarden({ respectReducedMotion: false });
+      garden.play();
+
+      setReducedMotion(true);
+
+      expect(garden.getState()).toBe('playing');
+      expect(listeners).toHaveLength(0);
+      garden.destroy();
+    });
+
+    it('should unsubscribe on destroy', () => {
+      const garden = createGarden();
+      expect(listeners).toHaveLength(1);
+      garden.destroy();
+      expect(listeners).toHaveLength(0);
+    });
+  });
+});
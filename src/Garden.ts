@@ -1,14 +1,74 @@
 import type {
+  AutoPauseReason,
+  AvoidLayout,
+  CueCallback,
+  CueTarget,
+  FrameScheduler,
+  GardenDriver,
   GardenOptions,
+  GardenSnapshot,
   GardenController,
+  ImageSnapshotOptions,
+  GardenEventType,
+  GardenEventData,
+  GardenEventHandler,
+  ParallaxView,
+  PlaybackOutcome,
   PlaybackState,
   PlantData,
   ResolvedOptions,
+  SvgExportOptions,
+  WaitOutcome,
+  WaitTarget,
 } from './types';
-import { resolveOptions } from './defaults';
-import { generatePlants, didGenerationComplete } from './plants';
-import { Renderer } from './Renderer';
-import { prefersReducedMotion } from './utils';
+import { resolveColorScheme, resolveOptions } from './defaults';
+import { didGenerationComplete, didGenerationRevert, generatePlants } from './plants';
+import { Renderer, observeResize } from './Renderer';
+import { OffscreenRenderer } from './OffscreenRenderer';
+import { EventEmitter } from './EventEmitter';
+import { CueList } from './CueList';
+import { ScrollDriver } from './ScrollDriver';
+import { drawSVG } from './headless';
+import { drawScene, resolveRenderTime, validateSize } from './scene';
+import { GrowthProgressPool } from './GrowthProgressPool';
+import type { ClockChange } from './GardenClock';
+import { Environment } from './Environment';
+import { clamp, getPixelRatio, prefersDarkMode, prefersReducedMotion, seededRandom } from './utils';
+import { ANIMATION } from './constants';
+import {
+  SNAPSHOT_VERSION,
+  isGardenSnapshot,
+  serializeOptions,
+  deserializeOptions,
+  readPersistedSnapshot,
+  writePersistedSnapshot,
+} from './snapshot';
+import { toTerrainOptions } from './terrain';
+import { toDistributionOptions } from './distribution';
+import { hasParallax, toDepthOptions } from './depth';
+import { ParallaxTracker } from './ParallaxTracker';
+import { measureAvoidLayout } from './avoid';
+
+// Type declaration for process (Node.js environment detection for dev warnings)
+declare const process: { env?: { NODE_ENV?: string } } | undefined;
+
+/**
+ * Derive the seed for the next 'reseed' loop cycle
+ */
+function deriveLoopSeed(seed: number): number {
+  return Math.floor(seededRandom(seed + 1) * 100000);
+}
+
+/**
+ * Whether rendering needs main-thread callbacks: a background drawing callback,
+ * including per-scheme ones, a terrain function or a density function
+ */
+function hasMainThreadCallback(options: ResolvedOptions): boolean {
+  return [options.background, options.schemes.light?.background, options.schemes.dark?.background]
+    .some((background) => typeof background === 'function') ||
+    typeof options.terrain.shape === 'function' ||
+    typeof options.distribution.mode === 'function';
+}
 
 /**
  * Garten - A beautiful animated garden for your website
@@ -22,175 +82,1514 @@ import { prefersReducedMotion } from './utils';
  * });
  *
  * garden.play();
+ *
+ * // Subscribe to events from anywhere in your app
+ * garden.on('generationComplete', ({ generation, totalGenerations }) => {
+ *   console.log(`Generation ${generation}/${totalGenerations}`);
+ * });
  * ```
  */
 export class Garten implements GardenController {
   private options: ResolvedOptions;
-  private renderer!: Renderer;
+  private renderer!: Renderer | OffscreenRenderer;
   private plants: PlantData[] = [];
+  private emitter = new EventEmitter();
+  private cues = new CueList();
+
+  private state: PlaybackState = 'idle';
+  private animationId: number | null = null;
+  private frameCallback: ((timestamp: number) => void) | null = null;
+  private startTime: number = 0;
+  private pausedAt: number = 0;
+  private elapsedTime: number = 0;
+  private speed: number = 1;
+  private lastFrameTime: number = 0;
+  private frameInterval: number;
+  private lastReportedGeneration: number = -1;
+
+  // Automatic pausing (pauseWhenHidden)
+  private autoPauseReasons: Set<AutoPauseReason> = new Set();
+  private autoPaused: boolean = false;
+  private visibilityCleanup: (() => void) | null = null;
+  private intersectionObserver: IntersectionObserver | null = null;
+
+  // Reduced motion: where to return to when the preference is lifted
+  private reducedMotion: boolean = false;
+  private reducedMotionCleanup: (() => void) | null = null;
+  private reducedMotionResume: { state: PlaybackState; time: number } | null = null;
+
+  // Color scheme: the page's dark mode preference, followed while colorScheme is 'auto'
+  private prefersDark: boolean = false;
+  private colorSchemeCleanup: (() => void) | null = null;
+
+  // Avoided regions as last measured, re-measured when the container resizes
+  private avoidLayout: AvoidLayout | null = null;
+  private avoidCleanup: (() => void) | null = null;
+
+  // Depth rows: pointer and scroll position they shift with, while the garden has parallax
+  private parallaxTracker: ParallaxTracker | null = null;
+  private parallaxView: ParallaxView | null = null;
+
+  // Crossfade loop mode: whether the previous cycle is still fading out
+  private crossfading: boolean = false;
+
+  // Session persistence (persistKey)
+  private persistCleanup: (() => void) | null = null;
+
+  // Externally driven timeline (driver: 'scroll' or 'manual')
+  private activeDriver: GardenDriver = 'time';
+  private scrollDriver: ScrollDriver | null = null;
+  private progressTween: { from: number; to: number; startedAt: number } | null = null;
+  private manualCompleteFired: boolean = false;
+
+  // Shared clock: detach function and the loop cycle last seen
+  private clockCleanup: (() => void) | null = null;
+  private clockCycle: number | null = null;
+
+  // Promises from play() and waitFor() that have not settled yet
+  private playbackWaiters: Array<(outcome: PlaybackOutcome) => void> = [];
+  private timelineWaiters: Array<{ target: WaitTarget; resolve: (outcome: WaitOutcome) => void }> = [];
+
+  constructor(options: GardenOptions) {
+    // A persisted snapshot lets the garden resume where it left off
+    const persisted = options.persistKey ? readPersistedSnapshot(options.persistKey) : null;
+
+    // Resolve and validate options. Options passed now win over saved ones and
+    // bring back what snapshots cannot hold (clocks, callbacks, elements); the
+    // saved seed keeps the same plants, including after reseeding loops.
+    this.options = resolveOptions(
+      persisted
+        ? { ...deserializeOptions(persisted.options), ...options, seed: persisted.options.seed }
+        : options
+    );
+    this.speed = this.options.speed;
+    this.frameInterval = 1000 / this.options.targetFPS;
+
+    // Follow the dark mode preference if the color scheme is automatic
+    this.updateColorSchemeTracking();
+
+    // Initialize renderer (in a worker if requested and supported)
+    this.renderer = this.createRenderer();
+
+    // Generate plants, clear of any avoided regions
+    this.updateAvoidTracking();
+    this.plants = this.createPlants();
+
+    // Track page visibility and viewport intersection if requested
+    this.updateVisibilityTracking();
+
+    // Follow the reduced motion preference, including later changes
+    this.updateMotionPreferenceTracking();
+
+    // Shift depth rows with the pointer and scroll if they have parallax
+    this.updateParallaxTracking();
+
+    // Save playback state when the page goes away if requested
+    this.updatePersistence();
+
+    // Follow a shared clock instead of our own loop if given one
+    this.updateClock();
+
+    if (persisted) {
+      this.applySnapshotState(persisted);
+    } else if (this.options.respectReducedMotion && this.reducedMotion) {
+      // Remember what to do if the preference is lifted later
+      this.enterReducedMotion(this.options.autoplay ? 'playing' : 'idle');
+    } else if (this.options.autoplay) {
+      // Auto-play if enabled
+      this.play();
+    }
+
+    // Bind the timeline to scrolling if requested
+    this.updateDriver();
+  }
+
+  /**
+   * Create a garden that resumes from a snapshot
+   * @param container - CSS selector or HTMLElement to render into
+   * @param snapshot - Snapshot from getSnapshot()
+   * @param options - Extra options such as events, applied over the snapshot's options
+   * @throws {Error} If the snapshot is malformed or from another version
+   *
+   * @example
+   * ```typescript
+   * const saved = JSON.parse(localStorage.getItem('garden')!);
+   * const garden = Garten.fromSnapshot('#hero', saved);
+   * ```
+   */
+  static fromSnapshot(
+    container: HTMLElement | string,
+    snapshot: GardenSnapshot,
+    options: Omit<Partial<GardenOptions>, 'container'> = {}
+  ): Garten {
+    if (!isGardenSnapshot(snapshot)) {
+      throw new Error('Garten: Invalid or incompatible snapshot');
+    }
+
+    // Persistence starts after restoring so a stored snapshot cannot win over this one
+    const { persistKey, ...rest } = options;
+    const garden = new Garten({
+      ...deserializeOptions(snapshot.options),
+      ...rest,
+      container,
+      autoplay: false,
+    });
+    garden.applySnapshotState(snapshot);
+    garden.options.autoplay = options.autoplay ?? snapshot.options.autoplay;
+
+    if (persistKey) {
+      garden.options.persistKey = persistKey;
+      garden.updatePersistence();
+    }
+    return garden;
+  }
+
+  /**
+   * Subscribe to prefers-reduced-motion changes while respectReducedMotion is on
+   */
+  private updateMotionPreferenceTracking(): void {
+    if (!this.options.respectReducedMotion) {
+      if (this.reducedMotionCleanup) {
+        this.reducedMotionCleanup();
+        this.reducedMotionCleanup = null;
+      }
+      this.exitReducedMotion();
+      return;
+    }
+
+    this.reducedMotion = prefersReducedMotion();
+    if (!this.reducedMotionCleanup) {
+      this.reducedMotionCleanup = Environment.onReducedMotionChange((prefersReduced) => {
+        this.handleMotionPreferenceChange(prefersReduced);
+      });
+    }
+  }
+
+  /**
+   * Subscribe to prefers-color-scheme changes while colorScheme is 'auto'
+   */
+  private updateColorSchemeTracking(): void {
+    if (this.options.colorScheme !== 'auto') {
+      if (this.colorSchemeCleanup) {
+        this.colorSchemeCleanup();
+        this.colorSchemeCleanup = null;
+      }
+      return;
+    }
+
+    this.prefersDark = prefersDarkMode();
+    if (!this.colorSchemeCleanup) {
+      this.colorSchemeCleanup = Environment.onDarkModeChange((prefersDark) => {
+        this.handleColorSchemeChange(prefersDark);
+      });
+    }
+  }
+
+  /**
+   * Measure the avoided regions, and measure them again whenever the container
+   * resizes, regenerating if they changed
+   */
+  private updateAvoidTracking(): void {
+    if (this.avoidCleanup) {
+      this.avoidCleanup();
+      this.avoidCleanup = null;
+    }
+
+    const { container, avoid } = this.options;
+    this.avoidLayout = measureAvoidLayout(container, avoid);
+    if (avoid.length === 0) return;
+
+    this.avoidCleanup = observeResize(container, () => {
+      const layout = measureAvoidLayout(container, avoid);
+      if (JSON.stringify(layout) === JSON.stringify(this.avoidLayout)) return;
+      this.avoidLayout = layout;
+      this.regenerate();
+    });
+  }
+
+  /**
+   * Track the pointer and scroll while depth rows have parallax and motion is
+   * not reduced, redrawing a garden that is not playing as they move
+   */
+  private updateParallaxTracking(): void {
+    const track = hasParallax(this.options.depth) && !(this.options.respectReducedMotion && this.reducedMotion);
+    if (track === (this.parallaxTracker !== null)) return;
+
+    if (this.parallaxTracker) {
+      this.parallaxTracker.destroy();
+      this.parallaxTracker = null;
+      this.setParallaxView(null);
+      return;
+    }
+
+    this.parallaxTracker = new ParallaxTracker({
+      container: this.options.container,
+      onView: (view) => this.setParallaxView(view),
+      scheduler: this.options.scheduler,
+    });
+  }
+
+  /**
+   * Shift depth rows to a view, drawing it now unless the next frame will
+   */
+  private setParallaxView(view: ParallaxView | null): void {
+    this.parallaxView = view;
+    this.renderer.setView(view);
+    if (this.state !== 'playing') {
+      this.redraw();
+    }
+  }
+
+  /**
+   * Generate plants for the current options and avoided regions
+   */
+  private createPlants(options: ResolvedOptions = this.getRenderOptions()): PlantData[] {
+    return this.renderer.generatePlants(options, this.avoidLayout);
+  }
+
+  /**
+   * Switch palettes, background and ground color live
+   */
+  private handleColorSchemeChange(prefersDark: boolean): void {
+    if (prefersDark === this.prefersDark) return;
+    this.prefersDark = prefersDark;
+    this.applyColorScheme();
+    this.emitter.emit('colorSchemeChange', { colorScheme: prefersDark ? 'dark' : 'light' });
+  }
+
+  /**
+   * Recolor the plants and redraw for the active color scheme
+   * Plants are rebuilt from the same seed, so they keep their positions and timing.
+   */
+  private applyColorScheme(): void {
+    const renderOptions = this.getRenderOptions();
+    this.renderer.setOptions(renderOptions);
+    this.plants = this.createPlants(renderOptions);
+    if (this.state !== 'playing') {
+      this.redraw();
+    }
+  }
+
+  /**
+   * Options as drawn: the resolved options with the active color scheme applied
+   */
+  private getRenderOptions(): ResolvedOptions {
+    return resolveColorScheme(this.options, this.prefersDark);
+  }
+
+  /**
+   * Switch between the animated loop and a static frame
+   */
+  private handleMotionPreferenceChange(prefersReduced: boolean): void {
+    if (prefersReduced === this.reducedMotion) return;
+    this.reducedMotion = prefersReduced;
+
+    if (prefersReduced) {
+      this.enterReducedMotion(this.state);
+    } else {
+      this.exitReducedMotion();
+    }
+    this.updateParallaxTracking();
+
+    this.emitter.emit('motionPreferenceChange', { reducedMotion: prefersReduced });
+  }
+
+  /**
+   * Stop animating and show the fully grown garden as a static frame
+   * @param resumeState State to return to if motion is allowed again
+   */
+  private enterReducedMotion(resumeState: PlaybackState): void {
+    if (this.reducedMotionResume) return;
+
+    // Settle a pending progress tween at its target
+    if (this.progressTween) {
+      this.elapsedTime = this.progressTween.to;
+      this.progressTween = null;
+    }
+
+    this.reducedMotionResume = { state: resumeState, time: this.elapsedTime };
+    this.cancelFrame();
+
+    // Render a static frame at 100% progress
+    this.renderer.renderStatic(this.plants, 1);
+    this.state = 'complete';
+    this.emitStateChange();
+  }
+
+  /**
+   * Return from the static frame to where the timeline was before
+   */
+  private exitReducedMotion(): void {
+    const resume = this.reducedMotionResume;
+    this.reducedMotionResume = null;
+
+    // Nothing to restore, or the user has taken over playback since
+    if (!resume || this.state !== 'complete') return;
+
+    if (this.options.clock && this.options.driver === 'time') {
+      this.syncToClock('seek');
+      return;
+    }
+
+    this.elapsedTime = resume.time;
+    this.pausedAt = resume.time;
+    this.syncReportedGeneration(resume.time);
+    this.cues.rearm(resume.time, this.options.duration);
+
+    const wantsPlay = resume.state === 'playing' || (resume.state === 'paused' && this.autoPaused);
+    if (wantsPlay && this.autoPauseReasons.size === 0) {
+      this.state = 'paused';
+      this.autoPaused = false;
+      this.resumePlayback();
+      return;
+    }
+
+    this.autoPaused = wantsPlay;
+    this.state = wantsPlay ? 'paused' : resume.state;
+    this.renderer.render(this.plants, resume.time);
+    this.emitStateChange();
+  }
+
+  /**
+   * Mark generations before the given time as already reported
+   */
+  private syncReportedGeneration(time: number): void {
+    // Guard against division by zero
+    const currentGen = this.options.generations > 0
+      ? Math.floor(time / (this.options.duration / this.options.generations))
+      : 0;
+    this.lastReportedGeneration = currentGen - 1;
+  }
+
+  /**
+   * Animation loop
+   */
+  private tick = (timestamp: number): void => {
+    if (this.state !== 'playing') return;
+
+    // Throttle to target FPS
+    if (timestamp - this.lastFrameTime < this.frameInterval) {
+      this.scheduleFrame(this.tick);
+      return;
+    }
+    this.lastFrameTime = timestamp;
+
+    // Calculate elapsed time (negative speed runs backwards, stopping at zero)
+    const previousElapsed = this.elapsedTime;
+    this.elapsedTime = (timestamp - this.startTime) * this.speed / 1000;
+    if (this.speed < 0) {
+      this.elapsedTime = Math.max(0, this.elapsedTime);
+    }
+
+    if (this.advanceTimeline(previousElapsed, timestamp)) {
+      this.scheduleFrame(this.tick);
+    }
+  };
+
+  /**
+   * Report what happened between two playhead positions, render, and handle
+   * reaching either end of the timeline
+   * @param previousElapsed - Elapsed time before this frame
+   * @param timestamp - Frame time (ms) used to anchor the next loop cycle
+   * @returns False if playback finished (complete, or rewound to zero)
+   */
+  private advanceTimeline(previousElapsed: number, timestamp: number): boolean {
+    const reversing = this.speed < 0;
+    const { duration, generations } = this.options;
+    // Generation the playhead is now in; a long frame or step can cross several boundaries
+    const currentGen = Math.min(Math.floor(this.elapsedTime / (duration / generations)), generations);
+
+    if (reversing) {
+      // Report generations in reverse order as they wither away
+      let revertedGen = didGenerationRevert(previousElapsed, this.elapsedTime, duration, generations);
+      while (revertedGen !== null) {
+        this.lastReportedGeneration = revertedGen - 1;
+        this.emitGenerationComplete(revertedGen);
+        revertedGen = revertedGen - 1 > currentGen ? revertedGen - 1 : null;
+      }
+
+      // Cues fire on forward passes only; re-arm the ones we rewind past
+      this.cues.rearm(this.elapsedTime, duration);
+    } else {
+      // Check for generation completion
+      const firstGen = didGenerationComplete(previousElapsed, this.elapsedTime, duration, generations);
+      if (firstGen !== null) {
+        for (let gen = Math.max(firstGen, this.lastReportedGeneration + 1); gen <= currentGen; gen++) {
+          this.lastReportedGeneration = gen;
+          this.emitGenerationComplete(gen);
+        }
+      }
+
+      // Fire cues crossed since the last frame (all remaining ones at the end)
+      this.cues.advance(this.elapsedTime, duration);
+    }
+
+    // Emit progress
+    this.emitProgress();
+
+    // Render frame (clamp time to prevent overflow beyond duration)
+    this.renderFrame(Math.min(this.elapsedTime, duration));
+
+    // Check for completion (or reaching the start when rewinding)
+    if (reversing && this.elapsedTime <= 0) {
+      if (this.options.loop) {
+        this.startNextCycle(timestamp);
+      } else {
+        this.pausedAt = 0;
+        this.state = 'idle';
+        this.emitStateChange();
+        this.emitter.emit('rewindComplete', undefined);
+        this.settlePlayback('complete');
+        return false;
+      }
+    } else if (!reversing && this.elapsedTime >= this.options.duration) {
+      if (this.options.loop) {
+        this.startNextCycle(timestamp);
+      } else {
+        this.state = 'complete';
+        this.emitStateChange();
+        this.emitComplete();
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Put the timeline and playback state back to a snapshot's position
+   * Options must already match the snapshot.
+   */
+  private applySnapshotState(snapshot: GardenSnapshot): void {
+    this.cancelFrame();
+
+    const time = Math.max(0, Math.min(snapshot.elapsedTime, this.options.duration));
+    this.speed = snapshot.speed;
+    this.elapsedTime = time;
+    this.pausedAt = time;
+    this.lastReportedGeneration = snapshot.lastReportedGeneration;
+    this.cues.rearm(time, this.options.duration);
+    this.crossfading = false;
+    this.autoPaused = false;
+    this.reducedMotionResume = null;
+
+    if (this.options.respectReducedMotion && this.reducedMotion) {
+      this.enterReducedMotion(this.scrollDriver ? 'idle' : snapshot.state);
+      return;
+    }
+
+    if (this.scrollDriver) {
+      // The scroll position owns the timeline
+      this.state = 'idle';
+      this.scrubTo(this.scrollDriver.getProgress() * this.options.duration);
+      return;
+    }
+
+    if (snapshot.state === 'playing') {
+      this.state = 'paused';
+      if (this.autoPauseReasons.size === 0) {
+        this.resumePlayback();
+        return;
+      }
+      // Resume once the page or container becomes visible again
+      this.autoPaused = true;
+    } else {
+      this.state = snapshot.state;
+    }
+
+    this.renderer.render(this.plants, time);
+    this.emitStateChange();
+  }
+
+  /**
+   * Switch what moves the timeline based on the driver option
+   */
+  private updateDriver(): void {
+    const previous = this.activeDriver;
+    const next = this.options.driver;
+    this.activeDriver = next;
+
+    if (this.scrollDriver) {
+      this.scrollDriver.destroy();
+      this.scrollDriver = null;
+    }
+
+    // Stop the clock, or a pending progress tween, when handing the timeline over
+    if (previous !== next) {
+      this.cancelFrame();
+    }
+    if (previous === 'manual' && next !== 'manual') {
+      this.progressTween = null;
+    }
+
+    if (next === 'time') {
+      // play() continues from wherever scrolling or setProgress() left off
+      if (previous !== 'time' && this.state === 'idle' && this.elapsedTime > 0) {
+        this.pausedAt = this.elapsedTime;
+        this.state = 'paused';
+        this.emitStateChange();
+      }
+      return;
+    }
+
+    if (previous === 'time') {
+      this.autoPaused = false;
+      this.crossfading = false;
+      if (this.reducedMotionResume) {
+        this.reducedMotionResume.state = 'idle';
+      } else if (this.state !== 'idle') {
+        this.state = 'idle';
+        this.emitStateChange();
+      }
+    }
+
+    if (next !== 'scroll') return;
+
+    this.scrollDriver = new ScrollDriver({
+      target: this.options.scrollTarget,
+      range: this.options.scrollRange,
+      onProgress: (progress) => this.scrubTo(progress * this.options.duration),
+      scheduler: this.options.scheduler,
+    });
+  }
+
+  /**
+   * Render the timeline at an externally driven position
+   * Reports every generation crossed, in either direction, without
+   * touching playback state or firing complete.
+   */
+  private scrubTo(time: number): void {
+    if (this.reducedMotionResume) {
+      // Keep the static frame; remember where the driver has got to
+      this.reducedMotionResume.time = time;
+      return;
+    }
+
+    const previous = this.elapsedTime;
+    this.elapsedTime = time;
+    this.pausedAt = time;
+
+    const { duration, generations } = this.options;
+    const timePerGen = duration / generations;
+    const fromGen = Math.min(Math.floor(previous / timePerGen), generations);
+    const toGen = Math.min(Math.floor(time / timePerGen), generations);
+    for (let gen = fromGen + 1; gen <= toGen; gen++) {
+      this.emitGenerationComplete(gen);
+    }
+    for (let gen = fromGen; gen > toGen; gen--) {
+      this.emitGenerationComplete(gen);
+    }
+    this.lastReportedGeneration = toGen;
+
+    if (time >= previous) {
+      this.cues.advance(time, duration);
+    } else {
+      this.cues.rearm(time, duration);
+    }
+
+    this.emitProgress();
+    this.renderFrame(time);
+  }
+
+  /**
+   * Attach to or detach from the shared clock based on the clock option
+   */
+  private updateClock(): void {
+    const wasAttached = this.clockCleanup !== null;
+    if (this.clockCleanup) {
+      this.clockCleanup();
+      this.clockCleanup = null;
+    }
+    this.clockCycle = null;
+
+    const clock = this.options.clock;
+    if (!clock) {
+      // Carry on with our own loop from the same position
+      if (wasAttached && this.state === 'playing') {
+        this.haltPlayback();
+        this.resumePlayback();
+      }
+      return;
+    }
+
+    // The shared clock replaces our own loop
+    if (this.options.driver === 'time') {
+      this.cancelFrame();
+    }
+    this.clockCleanup = clock.subscribe(this.syncToClock);
+    this.syncToClock('seek');
+  }
+
+  /**
+   * Follow the shared clock: map its time (plus clockOffset) onto this
+   * garden's timeline and mirror its playback state
+   */
+  private syncToClock = (change: ClockChange): void => {
+    const clock = this.options.clock;
+    if (!clock || this.options.driver !== 'time') return;
+    // Automatic pauses and static frames take precedence until lifted
+    if (this.autoPaused || this.reducedMotionResume) return;
+
+    const { duration, loop, loopMode } = this.options;
+    const clockTime = clock.getTime() + this.options.clockOffset;
+    let time = Math.max(0, Math.min(clockTime, duration));
+
+    if (loop) {
+      const cycle = Math.floor(clockTime / duration);
+      const phase = clockTime - cycle * duration;
+      if (loopMode === 'ping-pong') {
+        time = Math.abs(cycle) % 2 === 0 ? phase : duration - phase;
+      } else {
+        time = phase;
+        // Finish the previous cycle before starting the next one
+        if (change === 'tick' && this.clockCycle !== null && cycle !== this.clockCycle) {
+          const forward = cycle > this.clockCycle;
+          this.scrubTo(forward ? duration : 0);
+          this.startNextCycle(this.options.scheduler.now(), forward);
+        }
+        this.clockCycle = cycle;
+      }
+    }
+
+    if (change === 'tick') {
+      this.scrubTo(time);
+    } else {
+      // Jumps skip events, like seek()
+      this.elapsedTime = time;
+      this.pausedAt = time;
+      this.syncReportedGeneration(time);
+      this.cues.rearm(time, duration);
+      this.crossfading = false;
+      this.renderer.render(this.plants, time);
+    }
+
+    const complete = !loop && clockTime >= duration;
+    // Playing backwards to the start ends a rewind
+    const rewound = !loop && clockTime <= 0 && clock.getSpeed() < 0;
+    const state: PlaybackState = complete ? 'complete' : rewound ? 'idle' : clock.getState();
+    if (state !== this.state) {
+      this.state = state;
+      this.emitStateChange();
+      if (complete) this.emitComplete();
+      if (rewound) {
+        this.pausedAt = 0;
+        this.emitter.emit('rewindComplete', undefined);
+        this.settlePlayback('complete');
+      }
+    }
+
+    // Hold the clock at the start rather than running into negative time
+    if (rewound && clock.getState() === 'playing') {
+      clock.pause();
+      clock.seek(0 - this.options.clockOffset);
+    }
+  };
+
+  /**
+   * Animate towards a progress value (driver: 'manual' only)
+   * Tweens from the current render time to the target over
+   * progressTweenDuration seconds with an ease-out curve. Reaching 1 fires
+   * complete once; setting a lower value afterwards re-arms it.
+   * @param progress - Target progress (0-1), clamped
+   * @throws {Error} If the driver is not 'manual' or progress is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const garden = new Garten({ container: '#upload', driver: 'manual' });
+   * upload.onprogress = (e) => garden.setProgress(e.loaded / e.total);
+   * ```
+   */
+  setProgress(progress: number): void {
+    if (this.options.driver !== 'manual') {
+      throw new Error("Garten: setProgress() requires driver: 'manual'");
+    }
+    if (!Number.isFinite(progress)) {
+      throw new Error('Garten: Progress must be a finite number');
+    }
+
+    const target = Math.max(0, Math.min(progress, 1)) * this.options.duration;
+
+    // Moving back from the end re-arms completion
+    if (target < this.options.duration) {
+      this.manualCompleteFired = false;
+      if (this.reducedMotionResume) {
+        this.reducedMotionResume.state = 'idle';
+      } else if (this.state === 'complete') {
+        this.state = 'idle';
+        this.emitStateChange();
+      }
+    }
+
+    const tweenMs = this.options.progressTweenDuration * 1000;
+    if (this.reducedMotionResume || tweenMs <= 0) {
+      this.progressTween = null;
+      this.scrubTo(target);
+      this.finishProgress();
+      return;
+    }
+
+    this.progressTween = { from: this.elapsedTime, to: target, startedAt: this.options.scheduler.now() };
+    if (this.animationId === null) {
+      this.scheduleFrame(this.tweenTick);
+    }
+  }
+
+  /**
+   * Progress tween frame (driver: 'manual')
+   */
+  private tweenTick = (timestamp: number): void => {
+    this.animationId = null;
+    const tween = this.progressTween;
+    if (!tween) return;
+
+    const t = Math.min(1, (timestamp - tween.startedAt) / (this.options.progressTweenDuration * 1000));
+    const eased = 1 - Math.pow(1 - t, 3);
+    this.scrubTo(tween.from + (tween.to - tween.from) * eased);
+
+    if (t < 1) {
+      this.scheduleFrame(this.tweenTick);
+      return;
+    }
+
+    this.progressTween = null;
+    this.finishProgress();
+  };
+
+  /**
+   * Fire complete the first time setProgress() reaches the end
+   */
+  private finishProgress(): void {
+    const time = this.reducedMotionResume ? this.reducedMotionResume.time : this.elapsedTime;
+    if (time < this.options.duration || this.manualCompleteFired) return;
+
+    this.manualCompleteFired = true;
+    if (this.reducedMotionResume) {
+      this.reducedMotionResume.state = 'complete';
+    } else {
+      this.state = 'complete';
+      this.emitStateChange();
+    }
+    this.emitComplete();
+  }
+
+  /**
+   * Start or stop saving snapshots to sessionStorage based on persistKey
+   */
+  private updatePersistence(): void {
+    if (this.persistCleanup) {
+      this.persistCleanup();
+      this.persistCleanup = null;
+    }
+    if (!this.options.persistKey) return;
+
+    const stopVisibility = Environment.onVisibilityChange((visible) => {
+      if (!visible) this.persist();
+    });
+    const stopPageHide = Environment.onPageHide(() => this.persist());
+    this.persistCleanup = () => {
+      stopVisibility();
+      stopPageHide();
+    };
+  }
+
+  /**
+   * Write the current snapshot to sessionStorage if persistKey is set
+   */
+  private persist(): void {
+    if (this.options.persistKey) {
+      writePersistedSnapshot(this.options.persistKey, this.getSnapshot());
+    }
+  }
+
+  /**
+   * Begin the next loop cycle once the timeline runs off either end
+   */
+  private startNextCycle(timestamp: number, atEnd: boolean = this.speed > 0): void {
+    const { loopMode, duration, generations } = this.options;
+
+    if (loopMode === 'ping-pong') {
+      // Turn around and play over the same garden in the other direction
+      this.elapsedTime = atEnd ? duration : 0;
+      this.speed = -this.speed;
+      this.startTime = timestamp - (this.elapsedTime * 1000 / this.speed);
+      if (!atEnd) {
+        this.lastReportedGeneration = -1;
+        this.cues.rearm(0, duration);
+      }
+      return;
+    }
+
+    if (loopMode === 'reseed') {
+      this.options.seed = deriveLoopSeed(this.options.seed);
+      // The renderer builds terrain from its own copy of the seed
+      const renderOptions = this.getRenderOptions();
+      this.renderer.setOptions(renderOptions);
+      this.plants = this.createPlants(renderOptions);
+    }
+
+    if (atEnd) {
+      // Reset for loop
+      this.startTime = timestamp;
+      this.elapsedTime = 0;
+      this.lastReportedGeneration = -1;
+      this.cues.rearm(0, duration);
+      this.crossfading = loopMode === 'crossfade';
+    } else {
+      // Wrap around to the end when playing backwards
+      this.startTime = timestamp - (duration * 1000 / this.speed);
+      this.elapsedTime = duration;
+      this.lastReportedGeneration = generations;
+      this.cues.rearm(duration, duration);
+    }
+  }
+
+  /**
+   * Create the renderer: a worker-backed OffscreenRenderer when offscreen
+   * rendering is requested and supported, otherwise the in-thread Renderer
+   */
+  private createRenderer(): Renderer | OffscreenRenderer {
+    const { offscreen, createWorker } = this.options;
+    const renderOptions = this.getRenderOptions();
+
+    // Background callbacks, terrain functions and density functions cannot be sent to a worker
+    if (offscreen && hasMainThreadCallback(this.options)) {
+      if (typeof process !== 'undefined' && process?.env?.NODE_ENV !== 'production') {
+        console.warn(
+          'Garten: Background callbacks, terrain functions and density functions cannot be used offscreen. ' +
+          'Rendering on the main thread.'
+        );
+      }
+      return new Renderer(renderOptions);
+    }
+
+    if (offscreen && !createWorker) {
+      if (typeof process !== 'undefined' && process?.env?.NODE_ENV !== 'production') {
+        console.warn('Garten: offscreen requires createWorker. Rendering on the main thread.');
+      }
+      return new Renderer(renderOptions);
+    }
+
+    if (offscreen && createWorker && OffscreenRenderer.isSupported()) {
+      let worker: Worker | null = null;
+      try {
+        worker = createWorker();
+        return new OffscreenRenderer(renderOptions, worker);
+      } catch (error) {
+        worker?.terminate();
+        if (typeof process !== 'undefined' && process?.env?.NODE_ENV !== 'production') {
+          console.warn('Garten: Could not start offscreen rendering. Rendering on the main thread.', error);
+        }
+      }
+    }
+
+    return new Renderer(renderOptions);
+  }
+
+  /**
+   * Swap in a new renderer after the offscreen options changed
+   * Plants are regenerated (the worker keeps its own) and the current frame redrawn.
+   */
+  private replaceRenderer(): void {
+    this.renderer.destroy();
+    this.renderer = this.createRenderer();
+    this.renderer.setView(this.parallaxView);
+    this.plants = this.createPlants();
+    this.redraw();
+  }
+
+  /**
+   * Draw the current frame again, e.g. after options that only change its look
+   */
+  private redraw(): void {
+    if (this.reducedMotionResume) {
+      this.renderer.renderStatic(this.plants, 1);
+    } else {
+      this.renderFrame(Math.min(this.elapsedTime, this.options.duration));
+    }
+  }
+
+  /**
+   * Schedule a frame callback with the configured scheduler
+   */
+  private scheduleFrame(callback: (timestamp: number) => void): void {
+    this.frameCallback = callback;
+    this.animationId = this.options.scheduler.requestFrame(callback);
+  }
+
+  /**
+   * Cancel the pending frame, if any
+   */
+  private cancelFrame(): void {
+    if (this.animationId !== null) {
+      this.options.scheduler.cancelFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * Move pending frames and timestamps over to a newly configured scheduler
+   */
+  private updateScheduler(previous: FrameScheduler): void {
+    const next = this.options.scheduler;
+    if (next === previous) return;
+
+    // Timestamps are relative to the scheduler's own time origin
+    const shift = next.now() - previous.now();
+    this.startTime += shift;
+    this.lastFrameTime += shift;
+    if (this.progressTween) {
+      this.progressTween.startedAt += shift;
+    }
+
+    if (this.animationId !== null && this.frameCallback) {
+      previous.cancelFrame(this.animationId);
+      this.scheduleFrame(this.frameCallback);
+    }
+    this.scrollDriver?.setScheduler(next);
+    this.parallaxTracker?.setScheduler(next);
+  }
+
+  /**
+   * Render a frame, crossfading from the previous loop cycle if needed
+   */
+  private renderFrame(time: number): void {
+    const outgoingAlpha = this.getCrossfadeAlpha();
+    if (outgoingAlpha > 0) {
+      this.renderer.renderCrossfade(this.plants, time, outgoingAlpha);
+    } else {
+      this.renderer.render(this.plants, time);
+    }
+  }
+
+  /**
+   * Opacity of the previous cycle while crossfading, 0 once it has faded out
+   */
+  private getCrossfadeAlpha(): number {
+    if (!this.crossfading) return 0;
+
+    const fadeDuration = this.options.duration * ANIMATION.CROSSFADE_FRACTION;
+    const alpha = 1 - this.elapsedTime / fadeDuration;
+    if (alpha <= 0 || this.speed < 0) {
+      this.crossfading = false;
+      return 0;
+    }
+    return alpha;
+  }
+
+  /**
+   * Emit state change event
+   */
+  private emitStateChange(): void {
+    this.options.events.onStateChange?.(this.state);
+    this.emitter.emit('stateChange', { state: this.state });
+  }
+
+  /**
+   * Emit progress event
+   */
+  private emitProgress(): void {
+    const progress = this.getProgress();
+    this.options.events.onProgress?.(progress, this.elapsedTime);
+    this.emitter.emit('progress', { progress, elapsedTime: this.elapsedTime });
+    this.checkTimelineWaiters();
+  }
 
-  private state: PlaybackState = 'idle';
-  private animationId: number | null = null;
-  private startTime: number = 0;
-  private pausedAt: number = 0;
-  private elapsedTime: number = 0;
-  private speed: number = 1;
-  private lastFrameTime: number = 0;
-  private frameInterval: number;
-  private lastReportedGeneration: number = -1;
+  /**
+   * Emit generation complete event
+   */
+  private emitGenerationComplete(generation: number): void {
+    const totalGenerations = this.options.generations;
+    this.options.events.onGenerationComplete?.(generation, totalGenerations);
+    this.emitter.emit('generationComplete', { generation, totalGenerations });
+  }
 
-  constructor(options: GardenOptions) {
-    // Resolve and validate options
-    this.options = resolveOptions(options);
-    this.speed = this.options.speed;
-    this.frameInterval = 1000 / this.options.targetFPS;
+  /**
+   * Emit completion event
+   */
+  private emitComplete(): void {
+    this.options.events.onComplete?.();
+    this.emitter.emit('complete', undefined);
+    this.checkTimelineWaiters();
+    this.settlePlayback('complete');
+  }
 
-    // Check for reduced motion preference
-    if (this.options.respectReducedMotion && prefersReducedMotion()) {
-      this.handleReducedMotion();
-      return;
+  /**
+   * Settle every pending play() promise
+   */
+  private settlePlayback(outcome: PlaybackOutcome): void {
+    const waiters = this.playbackWaiters;
+    this.playbackWaiters = [];
+    waiters.forEach((resolve) => resolve(outcome));
+  }
+
+  /**
+   * Resolve waitFor() promises whose target the playhead has reached
+   */
+  private checkTimelineWaiters(): void {
+    if (this.timelineWaiters.length === 0) return;
+
+    const pending = this.timelineWaiters;
+    this.timelineWaiters = [];
+    for (const waiter of pending) {
+      if (this.hasReached(waiter.target)) {
+        waiter.resolve('reached');
+      } else {
+        this.timelineWaiters.push(waiter);
+      }
+    }
+  }
+
+  /**
+   * Settle all pending promises because playback was stopped or torn down
+   */
+  private abandonWaiters(outcome: 'stopped' | 'destroyed'): void {
+    const pending = this.timelineWaiters;
+    this.timelineWaiters = [];
+    pending.forEach((waiter) => waiter.resolve(outcome));
+    this.settlePlayback(outcome);
+  }
+
+  /**
+   * Whether the playhead is at or past a waitFor() target
+   */
+  private hasReached(target: WaitTarget): boolean {
+    if ('generation' in target) {
+      // Same boundary the generationComplete event uses
+      const timePerGen = this.options.duration / this.options.generations;
+      return Math.floor(this.elapsedTime / timePerGen) >= target.generation;
     }
+    return this.getProgress() >= target.progress;
+  }
 
-    // Initialize renderer
-    this.renderer = new Renderer(this.options);
+  /**
+   * Subscribe to a garden event
+   * @param event Event type to listen for
+   * @param handler Handler receiving the typed event payload
+   * @returns Unsubscribe function
+   */
+  on<K extends GardenEventType>(
+    event: K,
+    handler: GardenEventHandler<GardenEventData[K]>
+  ): () => void {
+    return this.emitter.on(event, handler);
+  }
 
-    // Generate plants
-    this.plants = generatePlants(this.options);
+  /**
+   * Subscribe to a garden event for one occurrence only
+   * @param event Event type to listen for
+   * @param handler Handler receiving the typed event payload
+   * @returns Unsubscribe function
+   */
+  once<K extends GardenEventType>(
+    event: K,
+    handler: GardenEventHandler<GardenEventData[K]>
+  ): () => void {
+    return this.emitter.once(event, handler);
+  }
 
-    // Auto-play if enabled
-    if (this.options.autoplay) {
-      this.play();
+  /**
+   * Unsubscribe from a garden event
+   * @param event Event type
+   * @param handler Handler previously passed to on() or once()
+   */
+  off<K extends GardenEventType>(
+    event: K,
+    handler: GardenEventHandler<GardenEventData[K]>
+  ): void {
+    this.emitter.off(event, handler);
+  }
+
+  /**
+   * Register a callback at a point on the timeline
+   * Fires once per pass when playback reaches the cue, including when a fast
+   * frame skips over it. Seeking back re-arms cues; seeking forward skips them.
+   * @param at - Time in seconds, or `{ progress }` as a fraction of the duration
+   * @param callback - Called when the cue is reached
+   * @returns Cue id for removeCue()
+   * @throws {Error} If the position is negative or not a finite number
+   *
+   * @example
+   * ```typescript
+   * garden.addCue({ progress: 0.5 }, () => showCallToAction());
+   * ```
+   */
+  addCue(at: CueTarget, callback: CueCallback): number {
+    return this.cues.add(at, callback);
+  }
+
+  /**
+   * Remove a cue registered with addCue()
+   * @param id - Cue id returned by addCue()
+   * @returns True if the cue existed
+   */
+  removeCue(id: number): boolean {
+    return this.cues.remove(id);
+  }
+
+  /**
+   * Wait until playback reaches a generation or progress point
+   * Resolves immediately if the playhead is already there. Settles with
+   * 'stopped' or 'destroyed' if stop() or destroy() comes first.
+   * @param target - `{ generation }` (1-based) or `{ progress }` (0-1)
+   * @returns Promise resolving with 'reached', 'stopped' or 'destroyed'
+   * @throws {Error} If the generation or progress is out of range
+   *
+   * @example
+   * ```typescript
+   * garden.play();
+   * await garden.waitFor({ generation: 3 });
+   * revealHeadline();
+   * ```
+   */
+  waitFor(target: WaitTarget): Promise<WaitOutcome> {
+    if ('generation' in target) {
+      const { generation } = target;
+      const max = this.options.generations;
+      if (!Number.isInteger(generation) || generation < 1 || generation > max) {
+        throw new Error(`Garten: Generation must be an integer from 1 to ${max}`);
+      }
+    } else if (!Number.isFinite(target.progress) || target.progress < 0 || target.progress > 1) {
+      throw new Error('Garten: Progress must be a number from 0 to 1');
+    }
+
+    if (this.hasReached(target)) {
+      return Promise.resolve('reached');
     }
+    return new Promise((resolve) => {
+      this.timelineWaiters.push({ target, resolve });
+    });
   }
 
   /**
-   * Handle reduced motion preference
+   * Export a frame as an SVG document
+   * Plants, the ground strip and the vertical fade are vector shapes, so the
+   * result can be scaled to any size without losing detail.
+   * @param options - Frame to export (defaults to the one shown) and output size
+   * @returns SVG markup
+   * @throws {Error} If the size is not positive, e.g. the container is hidden and none is given
+   *
+   * @example
+   * ```typescript
+   * const svg = garden.toSVG({ progress: 0.5, width: 2400, height: 800 });
+   * ```
    */
-  private handleReducedMotion(): void {
-    this.renderer = new Renderer(this.options);
-    this.plants = generatePlants(this.options);
+  toSVG(options: SvgExportOptions = {}): string {
+    const dimensions = this.renderer.getDimensions();
+    const width = options.width ?? dimensions.width;
+    const height = options.height ?? dimensions.height;
+    validateSize(width, height);
 
-    // Render a static frame at 100% progress
-    this.renderer.renderStatic(this.plants, 1);
-    this.state = 'complete';
-    this.emitStateChange();
+    return drawSVG(this.getExportPlants(), width, height, this.getExportTime(options), this.getRenderOptions());
   }
 
   /**
-   * Animation loop
+   * Capture a frame as an image
+   * Draws into a separate canvas, so live playback and the visible canvas are untouched.
+   * @param options - Frame to capture (defaults to the one shown), scale and encoding
+   * @returns Promise for a Blob, or a data URL string with output: 'dataURL'.
+   * Rejects if the canvas has no size, the scale is not positive or encoding fails.
+   *
+   * @example
+   * ```typescript
+   * const blob = await garden.snapshot({ type: 'image/webp', quality: 0.9 });
+   * downloadLink.href = URL.createObjectURL(blob);
+   * ```
    */
-  private tick = (timestamp: number): void => {
-    if (this.state !== 'playing') return;
+  snapshot(options: ImageSnapshotOptions & { output: 'dataURL' }): Promise<string>;
+  snapshot(options?: ImageSnapshotOptions): Promise<Blob>;
+  async snapshot(options: ImageSnapshotOptions = {}): Promise<Blob | string> {
+    const { width, height } = this.renderer.getDimensions();
+    validateSize(width, height);
 
-    // Throttle to target FPS
-    if (timestamp - this.lastFrameTime < this.frameInterval) {
-      this.animationId = requestAnimationFrame(this.tick);
-      return;
+    const scale = options.scale ?? getPixelRatio(this.options.maxPixelRatio);
+    if (!(scale > 0) || !Number.isFinite(scale)) {
+      throw new Error('Garten: Snapshot scale must be a positive number');
     }
-    this.lastFrameTime = timestamp;
 
-    // Calculate elapsed time
-    const previousElapsed = this.elapsedTime;
-    this.elapsedTime = (timestamp - this.startTime) * this.speed / 1000;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Garten: Could not create 2D canvas context for snapshot');
+    }
 
-    // Check for generation completion
-    const completedGen = didGenerationComplete(
-      previousElapsed,
-      this.elapsedTime,
-      this.options.duration,
-      this.options.generations
-    );
-    if (completedGen !== null && completedGen > this.lastReportedGeneration) {
-      this.lastReportedGeneration = completedGen;
-      this.options.events.onGenerationComplete?.(completedGen, this.options.generations);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    const renderOptions = this.getRenderOptions();
+    const pool = new GrowthProgressPool();
+    pool.beginFrame();
+    try {
+      drawScene(
+        ctx,
+        this.getExportPlants(),
+        width,
+        height,
+        this.getExportTime(options),
+        options.transparent ? { ...renderOptions, background: 'transparent' } : renderOptions,
+        pool
+      );
+    } finally {
+      pool.endFrame();
     }
 
-    // Emit progress
-    const progress = Math.min(1, this.elapsedTime / this.options.duration);
-    this.options.events.onProgress?.(progress, this.elapsedTime);
+    const type = options.type ?? 'image/png';
+    if (options.output === 'dataURL') {
+      return canvas.toDataURL(type, options.quality);
+    }
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Garten: Could not encode snapshot image'));
+        }
+      }, type, options.quality);
+    });
+  }
 
-    // Render frame (clamp time to prevent overflow beyond duration)
-    const renderTime = Math.min(this.elapsedTime, this.options.duration);
-    this.renderer.render(this.plants, renderTime);
+  /**
+   * Time to export for toSVG() and snapshot()
+   * Explicit time or progress wins; otherwise the frame currently shown.
+   */
+  private getExportTime(options: { time?: number; progress?: number }): number {
+    const { duration } = this.options;
+    if (options.time !== undefined || options.progress !== undefined) {
+      return resolveRenderTime(options.time, options.progress, duration);
+    }
+    // Reduced motion shows the fully grown garden whatever the timeline says
+    return this.reducedMotionResume ? duration : clamp(this.elapsedTime, 0, duration);
+  }
 
-    // Check for completion
-    if (this.elapsedTime >= this.options.duration) {
-      if (this.options.loop) {
-        // Reset for loop
-        this.startTime = timestamp;
-        this.elapsedTime = 0;
-        this.lastReportedGeneration = -1;
-      } else {
-        this.state = 'complete';
-        this.emitStateChange();
-        this.options.events.onComplete?.();
-        return;
+  /**
+   * Plants to export for toSVG() and snapshot()
+   * Offscreen renderers keep their plants in the worker, so generate them here.
+   */
+  private getExportPlants(): PlantData[] {
+    return this.renderer instanceof OffscreenRenderer
+      ? generatePlants({ ...this.getRenderOptions(), avoidLayout: this.avoidLayout })
+      : this.plants;
+  }
+
+  /**
+   * Start or stop observing visibility based on the pauseWhenHidden option
+   */
+  private updateVisibilityTracking(): void {
+    if (!this.options.pauseWhenHidden) {
+      const wasAutoPaused = this.autoPaused && this.state === 'paused';
+      this.teardownVisibilityTracking();
+      if (wasAutoPaused) {
+        this.resumePlayback();
       }
+      return;
     }
+    if (this.visibilityCleanup || this.intersectionObserver) return;
 
-    // Continue animation
-    this.animationId = requestAnimationFrame(this.tick);
-  };
+    this.visibilityCleanup = Environment.onVisibilityChange((visible) => {
+      this.setAutoPauseReason('hidden', !visible);
+    });
+    if (!Environment.isPageVisible()) {
+      this.setAutoPauseReason('hidden', true);
+    }
+
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        const entry = entries[entries.length - 1];
+        if (entry) {
+          this.setAutoPauseReason('offscreen', !entry.isIntersecting);
+        }
+      });
+      this.intersectionObserver.observe(this.options.container);
+    }
+  }
 
   /**
-   * Emit state change event
+   * Stop observing visibility and forget any pending automatic pause
    */
-  private emitStateChange(): void {
-    this.options.events.onStateChange?.(this.state);
+  private teardownVisibilityTracking(): void {
+    if (this.visibilityCleanup) {
+      this.visibilityCleanup();
+      this.visibilityCleanup = null;
+    }
+    if (this.intersectionObserver) {
+      this.intersectionObserver.disconnect();
+      this.intersectionObserver = null;
+    }
+    this.autoPauseReasons.clear();
+    this.autoPaused = false;
   }
 
   /**
-   * Start or resume playback
+   * Record whether a reason for automatic pausing applies,
+   * pausing or resuming playback as the set of reasons changes
+   */
+  private setAutoPauseReason(reason: AutoPauseReason, active: boolean): void {
+    if (active) {
+      if (this.autoPauseReasons.has(reason)) return;
+      this.autoPauseReasons.add(reason);
+
+      if (this.state === 'playing') {
+        this.haltPlayback();
+        this.autoPaused = true;
+        this.emitter.emit('autoPause', { reason });
+      }
+      return;
+    }
+
+    if (!this.autoPauseReasons.delete(reason)) return;
+
+    if (this.autoPauseReasons.size === 0 && this.autoPaused && this.state === 'paused') {
+      this.autoPaused = false;
+      this.resumePlayback();
+      this.emitter.emit('autoResume', { reason });
+    }
+  }
+
+  /**
+   * Start the animation loop from the current position (or from the start)
    */
-  play(): void {
-    if (this.state === 'playing') return;
+  private resumePlayback(): void {
+    if (this.options.clock) {
+      // Catch up with the shared clock rather than starting our own loop
+      this.syncToClock('seek');
+      return;
+    }
 
     if (this.state === 'paused') {
       // Resume from paused position
-      this.startTime = performance.now() - (this.pausedAt * 1000 / this.speed);
+      this.startTime = this.options.scheduler.now() - (this.pausedAt * 1000 / this.speed);
+    } else if (this.speed < 0) {
+      // Play backwards from where the garden stands (the end, once complete)
+      this.elapsedTime = Math.min(this.elapsedTime, this.options.duration);
+      this.startTime = this.options.scheduler.now() - (this.elapsedTime * 1000 / this.speed);
+      this.lastReportedGeneration = this.options.generations;
     } else {
       // Start fresh
-      this.startTime = performance.now();
+      this.startTime = this.options.scheduler.now();
       this.elapsedTime = 0;
       this.lastReportedGeneration = -1;
+      this.cues.rearm(0, this.options.duration);
+      this.crossfading = false;
     }
 
     this.state = 'playing';
     this.emitStateChange();
-    this.lastFrameTime = performance.now();
-    this.animationId = requestAnimationFrame(this.tick);
+    this.lastFrameTime = this.options.scheduler.now();
+    this.scheduleFrame(this.tick);
+  }
+
+  /**
+   * Cancel the animation loop, keeping the timeline position
+   */
+  private haltPlayback(): void {
+    this.cancelFrame();
+
+    this.pausedAt = this.elapsedTime;
+    this.state = 'paused';
+    this.emitStateChange();
+  }
+
+  /**
+   * Start or resume playback
+   * @returns Promise resolving with 'complete' when playback reaches the end
+   * (or zero, when rewinding), 'stopped' on stop() or 'destroyed' on destroy().
+   * Pausing leaves it pending, and a looping garden only settles on stop or destroy.
+   *
+   * @example
+   * ```typescript
+   * if (await garden.play() === 'complete') {
+   *   showNextSection();
+   * }
+   * ```
+   */
+  play(): Promise<PlaybackOutcome> {
+    const outcome = new Promise<PlaybackOutcome>((resolve) => {
+      this.playbackWaiters.push(resolve);
+    });
+
+    // Scroll and manual gardens have no clock to start
+    if (this.state === 'playing' || this.options.driver !== 'time') return outcome;
+
+    // An explicit play overrides any automatic pause or static frame
+    this.autoPaused = false;
+    this.reducedMotionResume = null;
+    if (this.options.clock) {
+      this.options.clock.play();
+      this.syncToClock('seek');
+    } else {
+      this.resumePlayback();
+    }
+    this.emitter.emit('play', undefined);
+    return outcome;
   }
 
   /**
    * Pause playback
    */
   pause(): void {
-    if (this.state !== 'playing') return;
+    // An explicit pause must not be undone by an automatic resume
+    this.autoPaused = false;
+    if (this.state !== 'playing' || this.options.driver !== 'time') return;
 
-    if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
-      this.animationId = null;
+    if (this.options.clock) {
+      this.options.clock.pause();
+    } else {
+      this.haltPlayback();
     }
+    this.emitter.emit('pause', undefined);
+  }
 
-    this.pausedAt = this.elapsedTime;
-    this.state = 'paused';
-    this.emitStateChange();
+  /**
+   * Play backwards to the beginning, withering the garden away
+   * Reverses the current speed (keeping its magnitude) and plays. Emits
+   * generationComplete in reverse order and rewindComplete on reaching zero.
+   * Call setSpeed() with a positive value to grow forwards again.
+   */
+  rewind(): void {
+    if (this.options.clock) {
+      const clock = this.options.clock;
+      // A completed garden stands at its end while the clock may have run on
+      if (!this.options.loop && this.options.driver === 'time') {
+        clock.seek(this.elapsedTime - this.options.clockOffset);
+      }
+      this.setSpeed(-Math.abs(clock.getSpeed()));
+      this.play();
+      return;
+    }
+
+    if (this.speed > 0) {
+      this.setSpeed(-this.speed);
+    }
+    if (this.state === 'playing' || this.elapsedTime <= 0) return;
+
+    this.play();
   }
 
   /**
    * Stop and reset to beginning
    */
   stop(): void {
-    if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
-      this.animationId = null;
+    if (this.options.clock && this.options.driver === 'time') {
+      this.autoPaused = false;
+      this.options.clock.stop();
+      this.emitter.emit('stop', undefined);
+      this.abandonWaiters('stopped');
+      return;
     }
 
+    this.cancelFrame();
+
     this.elapsedTime = 0;
     this.pausedAt = 0;
     this.lastReportedGeneration = -1;
+    this.cues.rearm(0, this.options.duration);
+    this.crossfading = false;
+    this.progressTween = null;
+    this.manualCompleteFired = false;
+    this.autoPaused = false;
     this.state = 'idle';
     this.emitStateChange();
+    this.emitter.emit('stop', undefined);
+    this.abandonWaiters('stopped');
 
     // Render initial state
     this.renderer.render(this.plants, 0);
@@ -204,56 +1603,124 @@ export class Garten implements GardenController {
   seek(time: number): void {
     const clampedTime = Math.max(0, Math.min(time, this.options.duration));
 
+    if (this.options.clock && this.options.driver === 'time') {
+      // Move the shared clock so this garden lands on the requested time
+      this.options.clock.seek(clampedTime - this.options.clockOffset);
+      this.emitter.emit('seek', { time: clampedTime });
+      return;
+    }
+
     if (this.state === 'playing') {
-      this.startTime = performance.now() - (clampedTime * 1000 / this.speed);
+      this.startTime = this.options.scheduler.now() - (clampedTime * 1000 / this.speed);
     } else {
       this.pausedAt = clampedTime;
     }
 
     this.elapsedTime = clampedTime;
 
-    // Update generation tracking (guard against division by zero)
-    const currentGen = this.options.generations > 0
-      ? Math.floor(clampedTime / (this.options.duration / this.options.generations))
-      : 0;
-    this.lastReportedGeneration = currentGen - 1;
+    // Update generation tracking
+    this.syncReportedGeneration(clampedTime);
+    this.cues.rearm(clampedTime, this.options.duration);
+    this.crossfading = false;
+    this.progressTween = null;
 
     // Render at new position
     this.renderer.render(this.plants, clampedTime);
+    this.emitter.emit('seek', { time: clampedTime });
+    this.checkTimelineWaiters();
 
-    // If seeking to the end, transition to complete (unless looping)
-    if (clampedTime >= this.options.duration && !this.options.loop) {
-      if (this.animationId !== null) {
-        cancelAnimationFrame(this.animationId);
-        this.animationId = null;
-      }
+    // If seeking to the end, transition to complete (unless looping, rewinding or scroll-driven)
+    const rewinding = this.state === 'playing' && this.speed < 0;
+    const completes = !this.options.loop && !rewinding && this.options.driver === 'time';
+    if (clampedTime >= this.options.duration && completes) {
+      this.cancelFrame();
       this.state = 'complete';
       this.emitStateChange();
-      this.options.events.onComplete?.();
+      this.emitComplete();
     }
   }
 
   /**
    * Set playback speed multiplier
-   * @param speed - Speed multiplier (must be > 0)
-   * @throws {Error} If speed is not positive
+   * @param speed - Speed multiplier; negative values play backwards
+   * @throws {Error} If speed is zero or not a finite number
    */
   setSpeed(speed: number): void {
-    if (speed <= 0) {
-      throw new Error('Garten: Speed must be positive');
+    if (speed === 0 || !Number.isFinite(speed)) {
+      throw new Error('Garten: Speed must be a non-zero number');
     }
 
-    const wasPlaying = this.state === 'playing';
+    this.speed = speed;
 
-    if (wasPlaying) {
-      // Pause to recalculate timing
-      this.pause();
+    if (this.options.clock) {
+      this.options.clock.setSpeed(speed);
+    } else if (this.state === 'playing') {
+      // Re-anchor start time so elapsed time is continuous at the new speed
+      this.startTime = this.options.scheduler.now() - (this.elapsedTime * 1000 / this.speed);
     }
+  }
 
-    this.speed = speed;
+  /**
+   * Advance the timeline and render one frame immediately
+   * Runs the same frame logic as playback (generation events, cues, progress,
+   * looping and completion) without waiting for the scheduler, so tests and
+   * offline exporters can drive the garden deterministically. Time moves by
+   * deltaSeconds times the current speed. A garden that is not playing is
+   * left paused at the new position.
+   * @param deltaSeconds - Seconds to advance (before speed is applied)
+   * @throws {Error} If deltaSeconds is negative or not finite, or the garden
+   * is driven by scroll, setProgress() or a shared clock
+   *
+   * @example
+   * ```typescript
+   * const garden = new Garten({ container, autoplay: false, duration: 10 });
+   * for (let i = 0; i < 300; i++) {
+   *   garden.step(1 / 30);
+   *   frames.push(canvas.toDataURL());
+   * }
+   * ```
+   */
+  step(deltaSeconds: number): void {
+    if (!Number.isFinite(deltaSeconds) || deltaSeconds < 0) {
+      throw new Error('Garten: Step must be a non-negative number of seconds');
+    }
+    if (this.options.driver !== 'time' || this.options.clock) {
+      throw new Error("Garten: step() requires driver: 'time' without a shared clock");
+    }
 
-    if (wasPlaying) {
-      this.play();
+    const { duration, loop } = this.options;
+    const delta = deltaSeconds * this.speed;
+
+    if (this.reducedMotionResume) {
+      // Keep the static frame; move the position it will resume from
+      const resume = this.reducedMotionResume;
+      resume.time = clamp(resume.time + delta, 0, duration);
+      return;
+    }
+
+    // Nothing left to play in this direction
+    const atEnd = this.speed > 0 ? this.elapsedTime >= duration : this.elapsedTime <= 0;
+    if (atEnd && !loop) return;
+
+    const now = this.options.scheduler.now();
+    const previousElapsed = this.elapsedTime;
+    this.elapsedTime = Math.max(0, previousElapsed + delta);
+
+    if (!this.advanceTimeline(previousElapsed, now)) {
+      this.cancelFrame();
+      return;
+    }
+
+    if (this.state === 'playing') {
+      // Keep the running loop continuous from the new position
+      this.startTime = now - (this.elapsedTime * 1000 / this.speed);
+      return;
+    }
+
+    this.pausedAt = this.elapsedTime;
+    if (this.state !== 'paused') {
+      this.state = 'paused';
+      this.emitStateChange();
     }
   }
 
@@ -282,6 +1749,9 @@ export class Garten implements GardenController {
    * Update options
    */
   setOptions(newOptions: Partial<GardenOptions>): void {
+    const previousScheduler = this.options.scheduler;
+    const previousCallback = hasMainThreadCallback(this.options);
+    const previousScheme = this.getRenderOptions().colorScheme;
     const needsRegeneration =
       newOptions.generations !== undefined ||
       newOptions.density !== undefined ||
@@ -290,6 +1760,11 @@ export class Garten implements GardenController {
       newOptions.seed !== undefined ||
       newOptions.categories !== undefined ||
       newOptions.timingCurve !== undefined ||
+      newOptions.terrain !== undefined ||
+      newOptions.distribution !== undefined ||
+      newOptions.depth !== undefined ||
+      newOptions.anchor !== undefined ||
+      newOptions.avoid !== undefined ||
       newOptions.duration !== undefined;
 
     // Deep merge colors to preserve existing sub-properties
@@ -317,13 +1792,34 @@ export class Garten implements GardenController {
       opacity: this.options.opacity,
       zIndex: this.options.zIndex,
       loop: this.options.loop,
+      loopMode: this.options.loopMode,
+      driver: this.options.driver,
+      progressTweenDuration: this.options.progressTweenDuration,
+      clock: this.options.clock ?? undefined,
+      clockOffset: this.options.clockOffset,
+      scheduler: this.options.scheduler,
+      scrollTarget: this.options.scrollTarget ?? undefined,
+      scrollRange: this.options.scrollRange ?? undefined,
       speed: this.options.speed,
       autoplay: this.options.autoplay,
       respectReducedMotion: this.options.respectReducedMotion,
+      pauseWhenHidden: this.options.pauseWhenHidden,
+      persistKey: this.options.persistKey ?? undefined,
+      offscreen: this.options.offscreen,
+      createWorker: this.options.createWorker ?? undefined,
       maxPixelRatio: this.options.maxPixelRatio,
       targetFPS: this.options.targetFPS,
       fadeHeight: this.options.fadeHeight,
       fadeColor: this.options.fadeColor,
+      background: this.options.background,
+      groundColor: this.options.groundColor,
+      anchor: this.options.anchor,
+      avoid: this.options.avoid,
+      terrain: toTerrainOptions(this.options.terrain),
+      distribution: toDistributionOptions(this.options.distribution),
+      depth: toDepthOptions(this.options.depth),
+      colorScheme: this.options.colorScheme,
+      schemes: this.options.schemes,
       events: this.options.events,
       colors: {
         accent: this.options.colors.accent,
@@ -336,8 +1832,38 @@ export class Garten implements GardenController {
       ...(mergedColors ? { colors: mergedColors } : {}),
     });
 
-    // Update renderer
-    this.renderer.setOptions(this.options);
+    if (newOptions.colorScheme !== undefined) {
+      this.updateColorSchemeTracking();
+    }
+
+    // Update renderer, recreating it if offscreen rendering was toggled or
+    // a background callback, terrain function or density function now rules it in or out
+    const recolors = newOptions.colorScheme !== undefined || newOptions.schemes !== undefined;
+    const callbackMovesThread = (
+      newOptions.background !== undefined || newOptions.schemes !== undefined ||
+      newOptions.terrain !== undefined || newOptions.distribution !== undefined
+    ) &&
+      this.options.offscreen &&
+      previousCallback !== hasMainThreadCallback(this.options);
+    if (newOptions.offscreen !== undefined || newOptions.createWorker !== undefined || callbackMovesThread) {
+      this.replaceRenderer();
+    } else if (recolors && !needsRegeneration) {
+      this.applyColorScheme();
+    } else {
+      this.renderer.setOptions(this.getRenderOptions());
+      // A paused or finished garden would otherwise keep its old look until the next frame
+      if (
+        (
+          newOptions.background !== undefined ||
+          newOptions.groundColor !== undefined ||
+          newOptions.fadeHeight !== undefined
+        ) &&
+        !needsRegeneration &&
+        this.state !== 'playing'
+      ) {
+        this.redraw();
+      }
+    }
 
     // Clamp time-based state if duration was reduced
     if (newOptions.duration !== undefined) {
@@ -345,6 +1871,10 @@ export class Garten implements GardenController {
       this.elapsedTime = Math.min(this.elapsedTime, this.options.duration);
     }
 
+    if (newOptions.avoid !== undefined) {
+      this.updateAvoidTracking();
+    }
+
     // Regenerate if needed
     if (needsRegeneration) {
       this.regenerate();
@@ -354,30 +1884,113 @@ export class Garten implements GardenController {
     if (newOptions.speed !== undefined) {
       this.setSpeed(newOptions.speed);
     }
+
+    if (newOptions.pauseWhenHidden !== undefined) {
+      this.updateVisibilityTracking();
+    }
+
+    if (newOptions.persistKey !== undefined) {
+      this.updatePersistence();
+    }
+
+    if (newOptions.scheduler !== undefined) {
+      this.updateScheduler(previousScheduler);
+    }
+
+    if (newOptions.clock !== undefined || newOptions.clockOffset !== undefined) {
+      this.updateClock();
+    }
+
+    if (
+      newOptions.driver !== undefined ||
+      newOptions.scrollTarget !== undefined ||
+      newOptions.scrollRange !== undefined
+    ) {
+      this.updateDriver();
+    }
+
+    if (newOptions.respectReducedMotion !== undefined) {
+      this.updateMotionPreferenceTracking();
+      if (this.options.respectReducedMotion && this.reducedMotion) {
+        this.enterReducedMotion(this.state);
+      }
+    }
+
+    if (newOptions.depth !== undefined || newOptions.respectReducedMotion !== undefined) {
+      this.updateParallaxTracking();
+    }
+
+    const scheme = this.getRenderOptions().colorScheme;
+    if (scheme !== previousScheme) {
+      this.emitter.emit('colorSchemeChange', { colorScheme: scheme === 'dark' ? 'dark' : 'light' });
+    }
+
+    this.emitter.emit('optionsChange', { options: newOptions });
   }
 
   /**
-   * Force regenerate all plants
+   * Capture playback state as a JSON-safe snapshot
+   * Includes the resolved options (with the seed), so the same garden can be
+   * rebuilt elsewhere with fromSnapshot() or restore().
    */
-  regenerate(): void {
-    const wasPlaying = this.state === 'playing';
-    if (wasPlaying) {
-      this.pause();
+  getSnapshot(): GardenSnapshot {
+    // Record what the garden would be doing without an automatic pause or static frame
+    const resume = this.reducedMotionResume;
+    let state = resume ? resume.state : this.state;
+    if (this.autoPaused && state === 'paused') {
+      state = 'playing';
+    }
+
+    let elapsedTime = resume ? resume.time : this.elapsedTime;
+    if (this.state === 'playing' && !this.options.clock) {
+      // Read the live position rather than the last rendered frame
+      elapsedTime = (this.options.scheduler.now() - this.startTime) * this.speed / 1000;
+    }
+
+    return {
+      version: SNAPSHOT_VERSION,
+      options: serializeOptions(this.options),
+      elapsedTime: Math.max(0, Math.min(elapsedTime, this.options.duration)),
+      speed: this.speed,
+      state,
+      lastReportedGeneration: this.lastReportedGeneration,
+    };
+  }
+
+  /**
+   * Resume from a snapshot taken with getSnapshot()
+   * Applies the snapshot's options (regenerating the same garden) and
+   * continues from its position and playback state.
+   * @param snapshot - Snapshot to restore
+   * @throws {Error} If the snapshot is malformed or from another version
+   */
+  restore(snapshot: GardenSnapshot): void {
+    if (!isGardenSnapshot(snapshot)) {
+      throw new Error('Garten: Invalid or incompatible snapshot');
     }
 
-    this.plants = generatePlants(this.options);
+    this.setOptions(deserializeOptions(snapshot.options));
+    this.applySnapshotState(snapshot);
+  }
+
+  /**
+   * Force regenerate all plants
+   */
+  regenerate(): void {
+    this.plants = this.createPlants();
 
     // Recalculate lastReportedGeneration for new generation count
     const genDuration = this.options.duration / this.options.generations;
     const currentGen = genDuration > 0 ? Math.floor(this.elapsedTime / genDuration) : 0;
     this.lastReportedGeneration = Math.min(currentGen, this.options.generations) - 1;
 
-    // Re-render at current position
-    this.renderer.render(this.plants, this.elapsedTime);
-
-    if (wasPlaying) {
-      this.play();
+    // Re-render at current position; a running loop keeps its timing
+    if (this.reducedMotionResume) {
+      this.renderer.renderStatic(this.plants, 1);
+    } else {
+      this.renderer.render(this.plants, this.elapsedTime);
     }
+    this.emitter.emit('regenerate', undefined);
   }
 
   /**
@@ -385,9 +1998,41 @@ export class Garten implements GardenController {
    */
   destroy(): void {
     // Stop animation
-    if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
-      this.animationId = null;
+    this.cancelFrame();
+
+    // Save where we are for the next page, then stop persisting
+    this.persist();
+    if (this.persistCleanup) {
+      this.persistCleanup();
+      this.persistCleanup = null;
+    }
+
+    if (this.scrollDriver) {
+      this.scrollDriver.destroy();
+      this.scrollDriver = null;
+    }
+    if (this.clockCleanup) {
+      this.clockCleanup();
+      this.clockCleanup = null;
+    }
+
+    // Stop observing visibility and motion preference
+    this.teardownVisibilityTracking();
+    if (this.reducedMotionCleanup) {
+      this.reducedMotionCleanup();
+      this.reducedMotionCleanup = null;
+    }
+    if (this.colorSchemeCleanup) {
+      this.colorSchemeCleanup();
+      this.colorSchemeCleanup = null;
+    }
+    if (this.avoidCleanup) {
+      this.avoidCleanup();
+      this.avoidCleanup = null;
+    }
+    if (this.parallaxTracker) {
+      this.parallaxTracker.destroy();
+      this.parallaxTracker = null;
     }
 
     // Clean up renderer
@@ -396,5 +2041,8 @@ export class Garten implements GardenController {
     // Clear state
     this.plants = [];
     this.state = 'idle';
+    this.emitter.removeAllListeners();
+    this.cues.clear();
+    this.abandonWaiters('destroyed');
   }
 }
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GardenClock } from './GardenClock';
+
+describe('GardenClock', () => {
+  let now: number;
+  let callbacks: Map<number, FrameRequestCallback>;
+  let nextId: number;
+
+  function advance(ms: number, stepMs: number = 50): void {
+    const end = now + ms;
+    while (now < end) {
+      now = Math.min(end, now + stepMs);
+      const pending = Array.from(callbacks.values());
+      callbacks.clear();
+      pending.forEach((cb) => cb(now));
+    }
+  }
+
+  beforeEach(() => {
+    now = 0;
+    nextId = 1;
+    callbacks = new Map();
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      callbacks.set(nextId, cb);
+      return nextId++;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => callbacks.delete(id));
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should advance time while playing', () => {
+    const clock = new GardenClock();
+    clock.play();
+    advance(2000);
+
+    expect(clock.getState()).toBe('playing');
+    expect(clock.getTime()).toBeCloseTo(2, 1);
+    clock.destroy();
+  });
+
+  it('should run a single animation loop for all listeners', () => {
+    const clock = new GardenClock();
+    const a = vi.fn();
+    const b = vi.fn();
+    clock.subscribe(a);
+    clock.subscribe(b);
+    clock.play();
+
+    expect(callbacks.size).toBe(1);
+    advance(1000);
+    expect(callbacks.size).toBe(1);
+    expect(a.mock.calls.length).toBe(b.mock.calls.length);
+    clock.destroy();
+  });
+
+  it('should tell listeners whether time ticked, jumped or changed state', () => {
+    const clock = new GardenClock();
+    const changes: string[] = [];
+    clock.subscribe((change) => changes.push(change));
+
+    clock.play();
+    advance(100);
+    clock.pause();
+    clock.seek(5);
+    clock.stop();
+
+    expect(changes[0]).toBe('state');
+    expect(changes).toContain('tick');
+    expect(changes.slice(-3)).toEqual(['state', 'seek', 'seek']);
+    clock.destroy();
+  });
+
+  it('should keep its position across pause and resume', () => {
+    const clock = new GardenClock();
+    clock.play();
+    advance(1000);
+    clock.pause();
+    advance(5000);
+    expect(clock.getTime()).toBeCloseTo(1, 1);
+
+    clock.play();
+    advance(1000);
+    expect(clock.getTime()).toBeCloseTo(2, 1);
+    clock.destroy();
+  });
+
+  it('should apply speed changes without jumping', () => {
+    const clock = new GardenClock();
+    clock.play();
+    advance(1000);
+    clock.setSpeed(-2);
+    advance(250);
+
+    expect(clock.getTime()).toBeCloseTo(0.5, 1);
+    expect(() => clock.setSpeed(0)).toThrow('Garten:');
+    clock.destroy();
+  });
+
+  it('should run on a custom scheduler', () => {
+    let time = 1000;
+    let queued: ((timestamp: number) => void) | null = null;
+    const clock = new GardenClock({
+      scheduler: {
+        now: () => time,
+        requestFrame: (callback) => {
+          queued = callback;
+          return 1;
+        },
+        cancelFrame: () => {
+          queued = null;
+        },
+      },
+    });
+
+    clock.play();
+    for (let i = 0; i < 10; i++) {
+      time += 100;
+      const callback = queued as ((timestamp: number) => void) | null;
+      queued = null;
+      callback?.(time);
+    }
+
+    expect(clock.getTime()).toBeCloseTo(1, 5);
+    expect(callbacks.size).toBe(0);
+    clock.destroy();
+  });
+
+  it('should stop notifying after unsubscribe and destroy', () => {
+    const clock = new GardenClock();
+    const listener = vi.fn();
+    const unsubscribe = clock.subscribe(listener);
+    unsubscribe();
+    clock.play();
+    advance(200);
+    expect(listener).not.toHaveBeenCalled();
+
+    clock.destroy();
+    expect(callbacks.size).toBe(0);
+  });
+});
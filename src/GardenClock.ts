@@ -0,0 +1,235 @@
+/**
+ * GardenClock - Shared timeline for several Garden instances
+ * One animation loop drives every attached garden so they never drift apart
+ */
+
+import type { FrameScheduler, PlaybackState } from './types';
+import { ANIMATION, OPTION_BOUNDS } from './constants';
+import { browserScheduler } from './scheduler';
+
+/**
+ * Clock playback state (a clock has no end, so it never completes)
+ */
+export type ClockState = Exclude<PlaybackState, 'complete'>;
+
+/**
+ * What a clock listener is being told about
+ * - 'tick': time advanced continuously during playback
+ * - 'seek': time jumped (seek or stop)
+ * - 'state': play or pause, time unchanged
+ */
+export type ClockChange = 'tick' | 'seek' | 'state';
+
+/**
+ * Clock configuration
+ */
+export interface GardenClockOptions {
+  /**
+   * Initial speed multiplier
+   * @default 1
+   */
+  speed?: number;
+
+  /**
+   * Frames per second for the shared loop
+   * @default 30
+   */
+  targetFPS?: number;
+
+  /**
+   * Time source and frame scheduler for the shared loop
+   * @default browserScheduler
+   */
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * GardenClock class - Shared time source
+ *
+ * Attached gardens render at the clock's time plus their own clockOffset.
+ * play/pause/seek/setSpeed on the clock (or on any attached garden) apply to all of them.
+ *
+ * Usage:
+ * ```typescript
+ * const clock = new GardenClock();
+ *
+ * new Garten({ container: '#card-1', clock });
+ * new Garten({ container: '#card-2', clock, clockOffset: 30 });
+ *
+ * clock.play();
+ * ```
+ */
+export class GardenClock {
+  private listeners: Set<(change: ClockChange) => void> = new Set();
+  private state: ClockState = 'idle';
+  private animationId: number | null = null;
+  private startTime: number = 0;
+  private pausedAt: number = 0;
+  private time: number = 0;
+  private speed: number = 1;
+  private lastFrameTime: number = 0;
+  private frameInterval: number;
+  private scheduler: FrameScheduler;
+
+  constructor(options: GardenClockOptions = {}) {
+    this.scheduler = options.scheduler ?? browserScheduler;
+    if (options.speed !== undefined) {
+      this.setSpeed(options.speed);
+    }
+    const { min, max } = OPTION_BOUNDS.TARGET_FPS;
+    const fps = Math.min(max, Math.max(min, options.targetFPS ?? ANIMATION.DEFAULT_TARGET_FPS));
+    this.frameInterval = 1000 / fps;
+  }
+
+  /**
+   * Attach a listener called whenever the clock's time or state changes
+   * @returns Detach function
+   */
+  subscribe(listener: (change: ClockChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start or resume the shared timeline
+   */
+  play(): void {
+    if (this.state === 'playing') return;
+
+    this.startTime = this.scheduler.now() - (this.pausedAt * 1000 / this.speed);
+    this.state = 'playing';
+    this.lastFrameTime = this.scheduler.now();
+    this.animationId = this.scheduler.requestFrame(this.tick);
+    this.notify('state');
+  }
+
+  /**
+   * Pause the shared timeline
+   */
+  pause(): void {
+    if (this.state !== 'playing') return;
+
+    this.cancelFrame();
+    this.pausedAt = this.time;
+    this.state = 'paused';
+    this.notify('state');
+  }
+
+  /**
+   * Stop and reset to zero
+   */
+  stop(): void {
+    this.cancelFrame();
+    this.time = 0;
+    this.pausedAt = 0;
+    this.state = 'idle';
+    this.notify('seek');
+  }
+
+  /**
+   * Jump to a time in seconds
+   */
+  seek(time: number): void {
+    this.time = time;
+    if (this.state === 'playing') {
+      this.startTime = this.scheduler.now() - (time * 1000 / this.speed);
+    } else {
+      this.pausedAt = time;
+    }
+    this.notify('seek');
+  }
+
+  /**
+   * Set the speed multiplier; negative values play backwards
+   * @throws {Error} If speed is zero or not a finite number
+   */
+  setSpeed(speed: number): void {
+    if (speed === 0 || !Number.isFinite(speed)) {
+      throw new Error('Garten: Speed must be a non-zero number');
+    }
+
+    this.speed = speed;
+    if (this.state === 'playing') {
+      // Re-anchor so time stays continuous at the new speed
+      this.startTime = this.scheduler.now() - (this.time * 1000 / this.speed);
+    }
+  }
+
+  /**
+   * Current time in seconds
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Current speed multiplier
+   */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Current playback state
+   */
+  getState(): ClockState {
+    return this.state;
+  }
+
+  /**
+   * Stop the loop and detach all gardens' listeners
+   */
+  destroy(): void {
+    this.cancelFrame();
+    this.state = 'idle';
+    this.listeners.clear();
+  }
+
+  /**
+   * Shared animation loop
+   */
+  private tick = (timestamp: number): void => {
+    this.animationId = null;
+    if (this.state !== 'playing') return;
+
+    // Throttle to target FPS
+    if (timestamp - this.lastFrameTime < this.frameInterval) {
+      this.animationId = this.scheduler.requestFrame(this.tick);
+      return;
+    }
+    this.lastFrameTime = timestamp;
+
+    this.time = (timestamp - this.startTime) * this.speed / 1000;
+    this.notify('tick');
+
+    // A listener may have paused (or paused and restarted) the clock
+    if (this.state === 'playing' && this.animationId === null) {
+      this.animationId = this.scheduler.requestFrame(this.tick);
+    }
+  };
+
+  /**
+   * Cancel the pending frame, if any
+   */
+  private cancelFrame(): void {
+    if (this.animationId !== null) {
+      this.scheduler.cancelFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * Call every listener, isolating errors
+   */
+  private notify(change: ClockChange): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Error in clock listener:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * OffscreenRenderer - Main-thread proxy for rendering in a Web Worker
+ * Transfers the canvas to a worker that generates plants and draws every frame
+ */
+
+import type { AvoidLayout, ParallaxView, PlantData, ResolvedOptions } from './types';
+import type { RenderWorkerMessage } from './RenderWorker';
+import { serializeOptions } from './snapshot';
+import { getPixelRatio } from './utils';
+import { createCanvasElement, mountCanvas, observeResize } from './Renderer';
+
+/**
+ * OffscreenRenderer class - Same surface as Renderer, backed by a worker
+ *
+ * Garten keeps the timeline, events and cues on the main thread and sends
+ * only options and frame times; the worker (see worker.ts) does the drawing.
+ * Plants are generated in the worker, so generatePlants() returns an empty list.
+ *
+ * Usage:
+ * ```typescript
+ * if (OffscreenRenderer.isSupported()) {
+ *   const worker = new Worker(new URL('garten/worker', import.meta.url), { type: 'module' });
+ *   const renderer = new OffscreenRenderer(options, worker);
+ * }
+ * ```
+ */
+export class OffscreenRenderer {
+  private canvas: HTMLCanvasElement;
+  private container: HTMLElement;
+  private options: ResolvedOptions;
+  private worker: Worker;
+  private resizeCleanup: (() => void) | null = null;
+  private width: number = 0;
+  private height: number = 0;
+
+  /**
+   * Whether this environment can transfer a canvas to a worker
+   */
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof HTMLCanvasElement !== 'undefined' &&
+      typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function'
+    );
+  }
+
+  /**
+   * @param options - Resolved garden options
+   * @param worker - Worker running the garten worker entry point
+   * @throws {Error} If the canvas cannot be transferred
+   */
+  constructor(options: ResolvedOptions, worker: Worker) {
+    this.options = options;
+    this.container = options.container;
+    this.worker = worker;
+
+    // Transfer before mounting so a failure leaves the container untouched
+    this.canvas = createCanvasElement(options);
+    const offscreen = this.canvas.transferControlToOffscreen();
+    mountCanvas(this.container, this.canvas);
+
+    this.worker.addEventListener('error', (event) => {
+      console.error('Garten: Render worker error:', event.message);
+    });
+
+    this.measure();
+    const init: RenderWorkerMessage = { type: 'init', canvas: offscreen, ...this.getSize() };
+    this.worker.postMessage(init, [offscreen]);
+    this.post({ type: 'options', options: serializeOptions(options) });
+
+    this.resizeCleanup = observeResize(this.container, () => this.resize());
+  }
+
+  /**
+   * Handle resize
+   */
+  resize(): void {
+    this.measure();
+
+    // Guard against zero dimensions (container hidden or detached)
+    if (this.width <= 0 || this.height <= 0) return;
+    this.post({ type: 'resize', ...this.getSize() });
+  }
+
+  /**
+   * Generate plants in the worker
+   * @returns An empty list; the worker keeps the plants
+   */
+  generatePlants(options: ResolvedOptions, avoidLayout: AvoidLayout | null = null): PlantData[] {
+    this.post({ type: 'generate', options: serializeOptions(options), avoidLayout });
+    return [];
+  }
+
+  /**
+   * Render the worker's plants at the given time
+   */
+  render(_plants: PlantData[], time: number): void {
+    this.post({ type: 'render', time, outgoingAlpha: 0 });
+  }
+
+  /**
+   * Render a new garden growing in front of a fully grown one fading out
+   */
+  renderCrossfade(_plants: PlantData[], time: number, outgoingAlpha: number): void {
+    this.post({ type: 'render', time, outgoingAlpha });
+  }
+
+  /**
+   * Render a static frame (for reduced motion)
+   */
+  renderStatic(plants: PlantData[], progress: number): void {
+    this.render(plants, progress * this.options.duration);
+  }
+
+  /**
+   * Set the pointer and scroll position depth rows shift with, from the next frame
+   * @param view - The view, or null to center every row
+   */
+  setView(view: ParallaxView | null): void {
+    this.post({ type: 'view', view });
+  }
+
+  /**
+   * Get canvas dimensions
+   */
+  getDimensions(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  /**
+   * Get the placeholder canvas element
+   */
+  getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  /**
+   * Update options
+   */
+  setOptions(options: ResolvedOptions): void {
+    this.options = options;
+
+    // Update canvas style if z-index or opacity changed
+    this.canvas.style.zIndex = String(options.zIndex);
+    this.canvas.style.opacity = String(options.opacity);
+
+    this.post({ type: 'options', options: serializeOptions(options) });
+    this.resize();
+  }
+
+  /**
+   * Stop the worker and remove the canvas
+   */
+  destroy(): void {
+    if (this.resizeCleanup) {
+      this.resizeCleanup();
+      this.resizeCleanup = null;
+    }
+
+    this.worker.terminate();
+
+    if (this.canvas.parentNode) {
+      this.canvas.parentNode.removeChild(this.canvas);
+    }
+  }
+
+  /**
+   * Read the container size in CSS pixels
+   */
+  private measure(): void {
+    const rect = this.container.getBoundingClientRect();
+    this.width = rect.width;
+    this.height = rect.height;
+  }
+
+  /**
+   * Current size message payload
+   */
+  private getSize(): { width: number; height: number; dpr: number } {
+    return {
+      width: this.width,
+      height: this.height,
+      dpr: getPixelRatio(this.options.maxPixelRatio),
+    };
+  }
+
+  /**
+   * Send a message to the worker
+   */
+  private post(message: RenderWorkerMessage): void {
+    this.worker.postMessage(message);
+  }
+}
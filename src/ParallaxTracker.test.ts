@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ParallaxTracker } from './ParallaxTracker';
+import type { FrameScheduler } from './types';
+
+describe('ParallaxTracker', () => {
+  let frameCallbacks: FrameRequestCallback[];
+  let container: HTMLElement;
+
+  function flushFrames(): void {
+    const pending = frameCallbacks;
+    frameCallbacks = [];
+    pending.forEach((cb) => cb(0));
+  }
+
+  function placeContainer(top: number, height: number): void {
+    vi.spyOn(container, 'getBoundingClientRect').mockReturnValue({
+      x: 0, y: top, left: 0, top, width: 400, height, right: 400, bottom: top + height, toJSON: () => ({}),
+    });
+  }
+
+  function movePointer(clientX: number, clientY: number): void {
+    // jsdom has no PointerEvent; the tracker only reads coordinates
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX, clientY }));
+  }
+
+  beforeEach(() => {
+    frameCallbacks = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      frameCallbacks.push(cb);
+      return frameCallbacks.length;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frameCallbacks = [];
+    });
+    vi.stubGlobal('innerWidth', 1000);
+    vi.stubGlobal('innerHeight', 800);
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should report the centered view synchronously', () => {
+    placeContainer(300, 200);
+    const onView = vi.fn();
+    const tracker = new ParallaxTracker({ container, onView });
+
+    expect(onView).toHaveBeenCalledWith({ x: 0, y: 0 });
+    tracker.destroy();
+  });
+
+  it('should follow the pointer, at most once per frame', () => {
+    placeContainer(300, 200);
+    const onView = vi.fn();
+    const tracker = new ParallaxTracker({ container, onView });
+    onView.mockClear();
+
+    movePointer(100, 400);
+    movePointer(1000, 0);
+    expect(onView).not.toHaveBeenCalled();
+
+    flushFrames();
+    expect(onView).toHaveBeenCalledTimes(1);
+    expect(onView).toHaveBeenCalledWith({ x: 1, y: -0.5 });
+    tracker.destroy();
+  });
+
+  it('should follow the container as the page scrolls', () => {
+    placeContainer(300, 200);
+    const onView = vi.fn();
+    const tracker = new ParallaxTracker({ container, onView });
+    onView.mockClear();
+
+    // Container center scrolled to the top of the viewport
+    placeContainer(-100, 200);
+    window.dispatchEvent(new Event('scroll'));
+    flushFrames();
+
+    expect(onView).toHaveBeenCalledWith({ x: 0, y: -0.5 });
+
+    // Nothing moved: no update
+    window.dispatchEvent(new Event('scroll'));
+    flushFrames();
+    expect(onView).toHaveBeenCalledTimes(1);
+    tracker.destroy();
+  });
+
+  it('should stop listening when destroyed', () => {
+    placeContainer(300, 200);
+    const onView = vi.fn();
+    const tracker = new ParallaxTracker({ container, onView });
+    onView.mockClear();
+
+    movePointer(0, 0);
+    tracker.destroy();
+    flushFrames();
+    movePointer(1000, 800);
+    flushFrames();
+
+    expect(onView).not.toHaveBeenCalled();
+  });
+
+  it('should schedule updates with an injected scheduler, and move them when it changes', () => {
+    const createScheduler = () => {
+      const queued: Array<() => void> = [];
+      const scheduler: FrameScheduler = {
+        now: () => 0,
+        requestFrame: vi.fn((callback: () => void) => queued.push(callback)),
+        cancelFrame: vi.fn(() => queued.splice(0)),
+      };
+      return { scheduler, flush: () => queued.splice(0).forEach((callback) => callback()) };
+    };
+    placeContainer(300, 200);
+    const first = createScheduler();
+    const second = createScheduler();
+    const onView = vi.fn();
+    const tracker = new ParallaxTracker({ container, onView, scheduler: first.scheduler });
+    onView.mockClear();
+
+    movePointer(1000, 400);
+    expect(first.scheduler.requestFrame).toHaveBeenCalledTimes(1);
+    expect(frameCallbacks).toHaveLength(0);
+
+    tracker.setScheduler(second.scheduler);
+    expect(first.scheduler.cancelFrame).toHaveBeenCalled();
+    second.flush();
+    expect(onView).toHaveBeenCalledWith({ x: 1, y: 0 });
+    tracker.destroy();
+  });
+});
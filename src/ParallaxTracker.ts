@@ -0,0 +1,139 @@
+/**
+ * ParallaxTracker - Maps pointer and scroll position to a parallax view
+ * Used by Garden when depth rows have a parallax factor
+ */
+
+import type { FrameScheduler, ParallaxView } from './types';
+import { clamp } from './utils';
+import { browserScheduler } from './scheduler';
+
+/**
+ * Parallax tracker configuration
+ */
+export interface ParallaxTrackerOptions {
+  /** Element whose position in the viewport follows scrolling */
+  container: HTMLElement;
+  /** Called with the view on start and at most once per frame while it changes */
+  onView: (view: ParallaxView) => void;
+  /** Schedules the throttled updates (default: requestAnimationFrame) */
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * ParallaxTracker class - rAF-throttled pointer and scroll listener reporting a view
+ *
+ * The view runs from -1 to 1 on each axis, 0 when centered:
+ * - x: the pointer across the viewport
+ * - y: the average of the pointer down the viewport and the container's
+ *   center down the viewport, which moves as the page scrolls
+ *
+ * The pointer counts as centered until it first moves.
+ *
+ * Usage:
+ * ```typescript
+ * const tracker = new ParallaxTracker({
+ *   container,
+ *   onView: ({ x, y }) => console.log(x, y),
+ * });
+ *
+ * // Later
+ * tracker.destroy();
+ * ```
+ */
+export class ParallaxTracker {
+  private options: ParallaxTrackerOptions;
+  private scheduler: FrameScheduler;
+  private frameId: number | null = null;
+  private pointer: ParallaxView = { x: 0, y: 0 };
+  private lastView: ParallaxView | null = null;
+
+  constructor(options: ParallaxTrackerOptions) {
+    this.options = options;
+    this.scheduler = options.scheduler ?? browserScheduler;
+
+    window.addEventListener('pointermove', this.handlePointer, { passive: true });
+    // Capture catches scrolls of nested containers too; events do not bubble
+    window.addEventListener('scroll', this.handleChange, { passive: true, capture: true });
+    window.addEventListener('resize', this.handleChange);
+
+    this.update();
+  }
+
+  /**
+   * Measure the current view without notifying
+   */
+  getView(): ParallaxView {
+    const viewport = window.innerHeight;
+    const rect = this.options.container.getBoundingClientRect();
+    const scroll = viewport > 0 ? clamp(((rect.top + rect.height / 2) / viewport) * 2 - 1, -1, 1) : 0;
+
+    return { x: this.pointer.x, y: (this.pointer.y + scroll) / 2 };
+  }
+
+  /**
+   * Record the pointer position across the viewport
+   */
+  private handlePointer = (event: PointerEvent): void => {
+    const { innerWidth, innerHeight } = window;
+    this.pointer = {
+      x: innerWidth > 0 ? clamp((event.clientX / innerWidth) * 2 - 1, -1, 1) : 0,
+      y: innerHeight > 0 ? clamp((event.clientY / innerHeight) * 2 - 1, -1, 1) : 0,
+    };
+    this.handleChange();
+  };
+
+  /**
+   * Schedule a view update for the next frame
+   */
+  private handleChange = (): void => {
+    if (this.frameId !== null) return;
+
+    this.frameId = this.scheduler.requestFrame(() => {
+      this.frameId = null;
+      this.update();
+    });
+  };
+
+  /**
+   * Move a pending update over to another scheduler
+   */
+  setScheduler(scheduler: FrameScheduler): void {
+    if (scheduler === this.scheduler) return;
+
+    const pending = this.frameId !== null;
+    this.cancelFrame();
+    this.scheduler = scheduler;
+    if (pending) this.handleChange();
+  }
+
+  /**
+   * Cancel any pending update
+   */
+  private cancelFrame(): void {
+    if (this.frameId !== null) {
+      this.scheduler.cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  /**
+   * Notify if the view changed since the last update
+   */
+  private update(): void {
+    const view = this.getView();
+    if (this.lastView && view.x === this.lastView.x && view.y === this.lastView.y) return;
+
+    this.lastView = view;
+    this.options.onView(view);
+  }
+
+  /**
+   * Remove listeners and cancel any pending frame
+   */
+  destroy(): void {
+    window.removeEventListener('pointermove', this.handlePointer);
+    window.removeEventListener('scroll', this.handleChange, { capture: true });
+    window.removeEventListener('resize', this.handleChange);
+    this.cancelFrame();
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RenderWorker } from './RenderWorker';
+import { serializeOptions } from './snapshot';
+import { resolveOptions } from './defaults';
+
+/**
+ * Offscreen canvas stand-in whose context records method calls
+ */
+function createFakeOffscreenCanvas() {
+  const calls: string[] = [];
+  const gradient = { addColorStop: () => {} };
+  const ctx = new Proxy({} as Record<string | symbol, unknown>, {
+    get(target, prop) {
+      if (prop in target) return target[prop];
+      return (..._args: unknown[]) => {
+        calls.push(String(prop));
+        return prop === 'createLinearGradient' || prop === 'createRadialGradient' ? gradient : undefined;
+      };
+    },
+    set(target, prop, value) {
+      target[prop] = value;
+      return true;
+    },
+  });
+  const canvas = { width: 0, height: 0, getContext: vi.fn(() => ctx) };
+  return { canvas: canvas as unknown as OffscreenCanvas, calls };
+}
+
+function createOptions(overrides: { seed?: number } = {}) {
+  const container = document.createElement('div');
+  return serializeOptions(resolveOptions({ container, seed: 42, duration: 10, generations: 5, ...overrides }));
+}
+
+describe('RenderWorker', () => {
+  it('should size the canvas for the device pixel ratio', () => {
+    const { canvas } = createFakeOffscreenCanvas();
+    const worker = new RenderWorker();
+
+    worker.handleMessage({ type: 'init', canvas, width: 300, height: 150, dpr: 2 });
+
+    expect(canvas.width).toBe(600);
+    expect(canvas.height).toBe(300);
+  });
+
+  it('should generate plants and draw requested frames', () => {
+    const { canvas, calls } = createFakeOffscreenCanvas();
+    const worker = new RenderWorker();
+    const options = createOptions();
+
+    worker.handleMessage({ type: 'init', canvas, width: 300, height: 150, dpr: 1 });
+    worker.handleMessage({ type: 'options', options });
+    worker.handleMessage({ type: 'generate', options });
+    calls.length = 0;
+
+    worker.handleMessage({ type: 'render', time: 0, outgoingAlpha: 0 });
+    const emptyFrame = calls.length;
+    calls.length = 0;
+    worker.handleMessage({ type: 'render', time: 10, outgoingAlpha: 0 });
+
+    expect(emptyFrame).toBeGreaterThan(0);
+    expect(calls.length).toBeGreaterThan(emptyFrame);
+  });
+
+  it('should not draw before options and plants arrive', () => {
+    const { canvas, calls } = createFakeOffscreenCanvas();
+    const worker = new RenderWorker();
+    worker.handleMessage({ type: 'init', canvas, width: 300, height: 150, dpr: 1 });
+    calls.length = 0;
+
+    worker.handleMessage({ type: 'render', time: 5, outgoingAlpha: 0 });
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should redraw the last frame after a resize', () => {
+    const { canvas, calls } = createFakeOffscreenCanvas();
+    const worker = new RenderWorker();
+    const options = createOptions();
+    worker.handleMessage({ type: 'init', canvas, width: 300, height: 150, dpr: 1 });
+    worker.handleMessage({ type: 'generate', options });
+    worker.handleMessage({ type: 'render', time: 6, outgoingAlpha: 0 });
+    const frameCalls = calls.length;
+    calls.length = 0;
+
+    worker.handleMessage({ type: 'resize', width: 300, height: 150, dpr: 1 });
+
+    expect(canvas.width).toBe(300);
+    // setTransform and scale, then the same frame again
+    expect(calls.length).toBe(frameCalls);
+  });
+});
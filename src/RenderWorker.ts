@@ -0,0 +1,114 @@
+/**
+ * RenderWorker - Worker-side half of offscreen rendering
+ * Generates plants and draws frames onto a transferred OffscreenCanvas
+ */
+
+import type { AvoidLayout, DrawingContext, ParallaxView, PlantData, SnapshotOptions } from './types';
+import { generatePlants } from './plants';
+import { drawCrossfadeScene, drawScene } from './scene';
+import { GrowthProgressPool } from './GrowthProgressPool';
+
+/**
+ * Messages sent from OffscreenRenderer to the worker
+ * Sizes are in CSS pixels; dpr scales them to the canvas.
+ */
+export type RenderWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; width: number; height: number; dpr: number }
+  | { type: 'resize'; width: number; height: number; dpr: number }
+  | { type: 'options'; options: SnapshotOptions }
+  | { type: 'generate'; options: SnapshotOptions; avoidLayout?: AvoidLayout | null }
+  | { type: 'view'; view: ParallaxView | null }
+  | { type: 'render'; time: number; outgoingAlpha: number };
+
+/**
+ * RenderWorker class - Handles OffscreenRenderer messages inside the worker
+ *
+ * Usage (see worker.ts for the packaged entry point):
+ * ```typescript
+ * const renderWorker = new RenderWorker();
+ * addEventListener('message', (event) => renderWorker.handleMessage(event.data));
+ * ```
+ */
+export class RenderWorker {
+  private canvas: OffscreenCanvas | null = null;
+  private ctx: DrawingContext | null = null;
+  private options: SnapshotOptions | null = null;
+  private view: ParallaxView | null = null;
+  private plants: PlantData[] = [];
+  private pool = new GrowthProgressPool();
+  private width: number = 0;
+  private height: number = 0;
+  /** Last frame drawn, redrawn after a resize clears the canvas */
+  private lastFrame: { time: number; outgoingAlpha: number } | null = null;
+
+  /**
+   * Apply one message from the main thread
+   */
+  handleMessage(message: RenderWorkerMessage): void {
+    switch (message.type) {
+      case 'init': {
+        this.canvas = message.canvas;
+        this.ctx = message.canvas.getContext('2d');
+        if (!this.ctx) {
+          throw new Error('Garten: Could not create 2D context in render worker');
+        }
+        this.resize(message.width, message.height, message.dpr);
+        break;
+      }
+      case 'resize':
+        this.resize(message.width, message.height, message.dpr);
+        this.redraw();
+        break;
+      case 'options':
+        this.options = message.options;
+        break;
+      case 'generate':
+        this.options = message.options;
+        this.plants = generatePlants({ ...message.options, avoidLayout: message.avoidLayout });
+        break;
+      case 'view':
+        this.view = message.view;
+        break;
+      case 'render':
+        this.lastFrame = { time: message.time, outgoingAlpha: message.outgoingAlpha };
+        this.redraw();
+        break;
+    }
+  }
+
+  /**
+   * Size the canvas in device pixels and scale drawing to CSS pixels
+   */
+  private resize(width: number, height: number, dpr: number): void {
+    if (!this.canvas || !this.ctx || width <= 0 || height <= 0) return;
+
+    this.width = width;
+    this.height = height;
+    this.canvas.width = width * dpr;
+    this.canvas.height = height * dpr;
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.scale(dpr, dpr);
+  }
+
+  /**
+   * Draw the last requested frame
+   */
+  private redraw(): void {
+    const { ctx, lastFrame } = this;
+    if (!ctx || !this.options || !lastFrame || this.width <= 0 || this.height <= 0) return;
+    const options = this.view ? { ...this.options, view: this.view } : this.options;
+
+    this.pool.beginFrame();
+    try {
+      if (lastFrame.outgoingAlpha > 0) {
+        drawCrossfadeScene(
+          ctx, this.plants, this.width, this.height, lastFrame.time, lastFrame.outgoingAlpha, options, this.pool
+        );
+      } else {
+        drawScene(ctx, this.plants, this.width, this.height, lastFrame.time, options, this.pool);
+      }
+    } finally {
+      this.pool.endFrame();
+    }
+  }
+}
@@ -1,7 +1,72 @@
-import type { PlantData, ResolvedOptions } from './types';
-import { drawPlant } from './plants';
-import { getPixelRatio, debounce, hexToRgb, DebouncedFunction } from './utils';
+import type { AvoidLayout, ParallaxView, PlantData, ResolvedOptions } from './types';
+import { getPixelRatio, debounce } from './utils';
 import { GrowthProgressPool } from './GrowthProgressPool';
+import { generatePlants } from './plants';
+import {
+  clearScene,
+  drawBackground,
+  drawCrossfadeScene,
+  drawGround,
+  drawScene,
+  type SceneOptions,
+} from './scene';
+
+/**
+ * Create the garden's canvas element with configurable z-index and opacity
+ */
+export function createCanvasElement(options: ResolvedOptions): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.style.cssText = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    pointer-events: none;
+    z-index: ${options.zIndex};
+    opacity: ${options.opacity};
+  `;
+
+  // Set accessibility attributes
+  canvas.setAttribute('aria-hidden', 'true');
+  canvas.setAttribute('role', 'presentation');
+  return canvas;
+}
+
+/**
+ * Ensure container has proper positioning, then insert the canvas as its first child
+ */
+export function mountCanvas(container: HTMLElement, canvas: HTMLCanvasElement): void {
+  const style = window.getComputedStyle(container);
+  if (style.position === 'static') {
+    container.style.position = 'relative';
+  }
+  container.insertBefore(canvas, container.firstChild);
+}
+
+/**
+ * Call back (debounced) whenever the container is resized
+ * @returns Cleanup function
+ */
+export function observeResize(container: HTMLElement, onResize: () => void): () => void {
+  const debouncedResize = debounce(onResize, 100);
+
+  if (typeof ResizeObserver !== 'undefined') {
+    const resizeObserver = new ResizeObserver(debouncedResize);
+    resizeObserver.observe(container);
+    return () => {
+      debouncedResize.cancel();
+      resizeObserver.disconnect();
+    };
+  }
+
+  // Fallback for older browsers
+  window.addEventListener('resize', debouncedResize);
+  return () => {
+    debouncedResize.cancel();
+    window.removeEventListener('resize', debouncedResize);
+  };
+}
 
 /**
  * Handles canvas setup, resizing, and rendering
@@ -11,13 +76,12 @@ export class Renderer {
   private ctx: CanvasRenderingContext2D;
   private container: HTMLElement;
   private options: ResolvedOptions;
-  private resizeObserver: ResizeObserver | null = null;
-  private resizeHandler: (() => void) | null = null;
-  private debouncedResize: DebouncedFunction<() => void> | null = null;
+  private resizeCleanup: (() => void) | null = null;
   private dpr: number = 1;
   private width: number = 0;
   private height: number = 0;
   private pool: GrowthProgressPool;
+  private view: ParallaxView | null = null;
 
   constructor(options: ResolvedOptions) {
     this.options = options;
@@ -25,22 +89,7 @@ export class Renderer {
     // Each Renderer gets its own pool for isolated state
     this.pool = new GrowthProgressPool();
 
-    // Create canvas with configurable z-index and opacity
-    this.canvas = document.createElement('canvas');
-    this.canvas.style.cssText = `
-      position: absolute;
-      top: 0;
-      left: 0;
-      width: 100%;
-      height: 100%;
-      pointer-events: none;
-      z-index: ${options.zIndex};
-      opacity: ${options.opacity};
-    `;
-
-    // Set accessibility attributes
-    this.canvas.setAttribute('aria-hidden', 'true');
-    this.canvas.setAttribute('role', 'presentation');
+    this.canvas = createCanvasElement(options);
 
     // Get context
     const ctx = this.canvas.getContext('2d');
@@ -52,43 +101,14 @@ export class Renderer {
     }
     this.ctx = ctx;
 
-    // Setup container
-    this.setupContainer();
-
-    // Insert canvas
-    this.container.insertBefore(this.canvas, this.container.firstChild);
+    // Setup container and insert canvas
+    mountCanvas(this.container, this.canvas);
 
     // Initial sizing
     this.resize();
 
-    // Setup resize observer
-    this.setupResizeObserver();
-  }
-
-  /**
-   * Ensure container has proper positioning
-   */
-  private setupContainer(): void {
-    const style = window.getComputedStyle(this.container);
-    if (style.position === 'static') {
-      this.container.style.position = 'relative';
-    }
-  }
-
-  /**
-   * Setup resize observer for responsive sizing
-   */
-  private setupResizeObserver(): void {
-    this.debouncedResize = debounce(() => this.resize(), 100);
-
-    if (typeof ResizeObserver !== 'undefined') {
-      this.resizeObserver = new ResizeObserver(this.debouncedResize);
-      this.resizeObserver.observe(this.container);
-    } else {
-      // Fallback for older browsers - store handler for cleanup
-      this.resizeHandler = this.debouncedResize;
-      window.addEventListener('resize', this.resizeHandler);
-    }
+    // Setup resize observer for responsive sizing
+    this.resizeCleanup = observeResize(this.container, () => this.resize());
   }
 
   /**
@@ -115,49 +135,26 @@ export class Renderer {
   }
 
   /**
-   * Clear the canvas
+   * Generate the plants to draw for the given options
+   * @param avoidLayout - Regions to keep plants out of, if any
    */
-  clear(): void {
-    this.ctx.fillStyle = '#ffffff';
-    this.ctx.fillRect(0, 0, this.width, this.height);
+  generatePlants(options: ResolvedOptions, avoidLayout: AvoidLayout | null = null): PlantData[] {
+    return generatePlants({ ...options, avoidLayout });
   }
 
   /**
-   * Draw ground indicator
+   * Clear the canvas to the background
    */
-  drawGround(): void {
-    this.ctx.fillStyle = 'rgba(139, 119, 101, 0.08)';
-    this.ctx.fillRect(0, this.height - 8, this.width, 8);
+  clear(): void {
+    clearScene(this.ctx, this.width, this.height);
+    drawBackground(this.ctx, this.width, this.height, this.options.background);
   }
 
   /**
-   * Apply vertical gradient fade to make plants fade out at higher positions
-   * This improves content legibility when plants might obscure page content
+   * Draw ground indicator
    */
-  private applyVerticalFade(): void {
-    const { fadeHeight, fadeColor, maxHeight } = this.options;
-    if (fadeHeight <= 0) return;
-
-    // Parse fade color to RGB
-    const rgb = hexToRgb(fadeColor);
-    if (!rgb) return;
-
-    // Calculate fade zone positions
-    // Plants grow from bottom, so fade starts at (1 - maxHeight) from top
-    const plantTopY = this.height * (1 - maxHeight);
-    const fadeStartY = plantTopY;
-    const fadeEndY = Math.max(0, plantTopY - this.height * fadeHeight);
-
-    // Create gradient from fade color (opaque) to transparent
-    const gradient = this.ctx.createLinearGradient(0, fadeEndY, 0, fadeStartY);
-    gradient.addColorStop(0, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 1)`);
-    gradient.addColorStop(1, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0)`);
-
-    // Apply fade using destination-out composite
-    this.ctx.globalCompositeOperation = 'destination-out';
-    this.ctx.fillStyle = gradient;
-    this.ctx.fillRect(0, 0, this.width, fadeStartY);
-    this.ctx.globalCompositeOperation = 'source-over';
+  drawGround(): void {
+    drawGround(this.ctx, this.width, this.height, this.options);
   }
 
   /**
@@ -168,17 +165,24 @@ export class Renderer {
   render(plants: PlantData[], time: number): void {
     this.pool.beginFrame();
     try {
-      this.clear();
-      this.drawGround();
-
-      for (const plant of plants) {
-        // Skip plants that haven't started growing yet
-        if (time < plant.delay) continue;
-        drawPlant(this.ctx, plant, this.width, this.height, time, this.pool);
-      }
+      drawScene(this.ctx, plants, this.width, this.height, time, this.getSceneOptions(), this.pool);
+    } finally {
+      this.pool.endFrame();
+    }
+  }
 
-      // Apply vertical fade if configured
-      this.applyVerticalFade();
+  /**
+   * Render a new garden growing in front of a fully grown one fading out
+   * @param plants - Plants of the new cycle
+   * @param time - Current time of the new cycle
+   * @param outgoingAlpha - Opacity of the previous, fully grown garden (0-1)
+   */
+  renderCrossfade(plants: PlantData[], time: number, outgoingAlpha: number): void {
+    this.pool.beginFrame();
+    try {
+      drawCrossfadeScene(
+        this.ctx, plants, this.width, this.height, time, outgoingAlpha, this.getSceneOptions(), this.pool
+      );
     } finally {
       this.pool.endFrame();
     }
@@ -192,6 +196,21 @@ export class Renderer {
     this.render(plants, staticTime);
   }
 
+  /**
+   * Set the pointer and scroll position depth rows shift with, from the next frame
+   * @param view - The view, or null to center every row
+   */
+  setView(view: ParallaxView | null): void {
+    this.view = view;
+  }
+
+  /**
+   * Options to draw frames with, including the parallax view
+   */
+  private getSceneOptions(): SceneOptions {
+    return this.view ? { ...this.options, view: this.view } : this.options;
+  }
+
   /**
    * Get canvas dimensions
    */
@@ -223,22 +242,10 @@ export class Renderer {
    * Clean up resources
    */
   destroy(): void {
-    // Cancel any pending debounced resize
-    if (this.debouncedResize) {
-      this.debouncedResize.cancel();
-      this.debouncedResize = null;
-    }
-
-    // Clean up ResizeObserver
-    if (this.resizeObserver) {
-      this.resizeObserver.disconnect();
-      this.resizeObserver = null;
-    }
-
-    // Clean up window resize listener (fallback for older browsers)
-    if (this.resizeHandler) {
-      window.removeEventListener('resize', this.resizeHandler);
-      this.resizeHandler = null;
+    // Stop observing size changes and cancel any pending debounced resize
+    if (this.resizeCleanup) {
+      this.resizeCleanup();
+      this.resizeCleanup = null;
     }
 
     // Reset object pool to free memory
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScrollDriver } from './ScrollDriver';
+import type { FrameScheduler } from './types';
+
+describe('ScrollDriver', () => {
+  let frameCallbacks: FrameRequestCallback[];
+
+  function setScrollY(y: number): void {
+    Object.defineProperty(window, 'scrollY', { configurable: true, value: y });
+  }
+
+  function flushFrames(): void {
+    const pending = frameCallbacks;
+    frameCallbacks = [];
+    pending.forEach((cb) => cb(0));
+  }
+
+  beforeEach(() => {
+    frameCallbacks = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      frameCallbacks.push(cb);
+      return frameCallbacks.length;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frameCallbacks = [];
+    });
+    setScrollY(0);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setScrollY(0);
+  });
+
+  it('should report initial progress synchronously', () => {
+    setScrollY(250);
+    const onProgress = vi.fn();
+    const driver = new ScrollDriver({ target: null, range: { start: 0, end: 1000 }, onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith(0.25);
+    driver.destroy();
+  });
+
+  it('should throttle scroll events to one update per frame', () => {
+    const onProgress = vi.fn();
+    const driver = new ScrollDriver({ target: null, range: { start: 100, end: 300 }, onProgress });
+    onProgress.mockClear();
+
+    setScrollY(150);
+    window.dispatchEvent(new Event('scroll'));
+    setScrollY(200);
+    window.dispatchEvent(new Event('scroll'));
+    expect(onProgress).not.toHaveBeenCalled();
+
+    flushFrames();
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith(0.5);
+    driver.destroy();
+  });
+
+  it('should clamp progress outside the range', () => {
+    const driver = new ScrollDriver({ target: null, range: { start: 100, end: 300 }, onProgress: () => {} });
+
+    setScrollY(0);
+    expect(driver.getProgress()).toBe(0);
+    setScrollY(1000);
+    expect(driver.getProgress()).toBe(1);
+    driver.destroy();
+  });
+
+  it('should measure a target element passing through the viewport', () => {
+    const target = document.createElement('div');
+    const viewport = window.innerHeight;
+    const rect = { top: viewport, height: 200 };
+    vi.spyOn(target, 'getBoundingClientRect').mockImplementation(
+      () => ({ top: rect.top, height: rect.height }) as DOMRect
+    );
+    const driver = new ScrollDriver({ target, range: null, onProgress: () => {} });
+
+    expect(driver.getProgress()).toBe(0);
+    rect.top = -200;
+    expect(driver.getProgress()).toBe(1);
+    rect.top = (viewport - 200) / 2;
+    expect(driver.getProgress()).toBeCloseTo(0.5);
+    driver.destroy();
+  });
+
+  it('should stop listening after destroy', () => {
+    const onProgress = vi.fn();
+    const driver = new ScrollDriver({ target: null, range: { start: 0, end: 100 }, onProgress });
+    driver.destroy();
+    onProgress.mockClear();
+
+    setScrollY(50);
+    window.dispatchEvent(new Event('scroll'));
+    flushFrames();
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+
+  it('should schedule updates with an injected scheduler, and move them when it changes', () => {
+    const createScheduler = () => {
+      const queued: Array<() => void> = [];
+      const scheduler: FrameScheduler = {
+        now: () => 0,
+        requestFrame: vi.fn((callback: () => void) => queued.push(callback)),
+        cancelFrame: vi.fn(() => queued.splice(0)),
+      };
+      return { scheduler, flush: () => queued.splice(0).forEach((callback) => callback()) };
+    };
+    const first = createScheduler();
+    const second = createScheduler();
+    const onProgress = vi.fn();
+    const driver = new ScrollDriver({
+      target: null,
+      range: { start: 0, end: 100 },
+      onProgress,
+      scheduler: first.scheduler,
+    });
+    onProgress.mockClear();
+
+    setScrollY(50);
+    window.dispatchEvent(new Event('scroll'));
+    expect(first.scheduler.requestFrame).toHaveBeenCalledTimes(1);
+    expect(frameCallbacks).toHaveLength(0);
+
+    driver.setScheduler(second.scheduler);
+    expect(first.scheduler.cancelFrame).toHaveBeenCalled();
+    second.flush();
+    expect(onProgress).toHaveBeenCalledWith(0.5);
+    driver.destroy();
+  });
+});
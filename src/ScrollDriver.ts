@@ -0,0 +1,137 @@
+/**
+ * ScrollDriver - Maps page scroll position to timeline progress
+ * Used by Garden when the driver option is 'scroll'
+ */
+
+import type { FrameScheduler, ScrollRange } from './types';
+import { clamp } from './utils';
+import { browserScheduler } from './scheduler';
+
+/**
+ * Scroll driver configuration
+ */
+export interface ScrollDriverOptions {
+  /** Element whose passage through the viewport drives progress */
+  target: HTMLElement | null;
+  /** Window scroll offsets (px) mapped to progress 0 and 1; takes precedence over target */
+  range: ScrollRange | null;
+  /** Called with progress (0-1) on start and at most once per frame while scrolling */
+  onProgress: (progress: number) => void;
+  /** Schedules the throttled updates (default: requestAnimationFrame) */
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * ScrollDriver class - rAF-throttled scroll listener reporting progress
+ *
+ * Progress is measured, in order of precedence:
+ * - range: window.scrollY from range.start (0) to range.end (1)
+ * - target: 0 when the element's top enters the bottom of the viewport,
+ *   1 when its bottom leaves the top
+ * - neither: the whole document, from top (0) to fully scrolled (1)
+ *
+ * Usage:
+ * ```typescript
+ * const driver = new ScrollDriver({
+ *   target: document.querySelector('#story'),
+ *   range: null,
+ *   onProgress: (progress) => console.log(progress),
+ * });
+ *
+ * // Later
+ * driver.destroy();
+ * ```
+ */
+export class ScrollDriver {
+  private options: ScrollDriverOptions;
+  private scheduler: FrameScheduler;
+  private frameId: number | null = null;
+  private lastProgress: number = -1;
+
+  constructor(options: ScrollDriverOptions) {
+    this.options = options;
+    this.scheduler = options.scheduler ?? browserScheduler;
+
+    // Capture catches scrolls of nested containers too; events do not bubble
+    window.addEventListener('scroll', this.handleScroll, { passive: true, capture: true });
+    window.addEventListener('resize', this.handleScroll);
+
+    this.update();
+  }
+
+  /**
+   * Measure current progress (0-1) without notifying
+   */
+  getProgress(): number {
+    const { range, target } = this.options;
+
+    if (range) {
+      const span = range.end - range.start;
+      return clamp((window.scrollY - range.start) / span, 0, 1);
+    }
+
+    if (target) {
+      const rect = target.getBoundingClientRect();
+      const viewport = window.innerHeight;
+      const travel = rect.height + viewport;
+      return travel > 0 ? clamp((viewport - rect.top) / travel, 0, 1) : 0;
+    }
+
+    const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+    return scrollable > 0 ? clamp(window.scrollY / scrollable, 0, 1) : 0;
+  }
+
+  /**
+   * Schedule a progress update for the next frame
+   */
+  private handleScroll = (): void => {
+    if (this.frameId !== null) return;
+
+    this.frameId = this.scheduler.requestFrame(() => {
+      this.frameId = null;
+      this.update();
+    });
+  };
+
+  /**
+   * Move a pending update over to another scheduler
+   */
+  setScheduler(scheduler: FrameScheduler): void {
+    if (scheduler === this.scheduler) return;
+
+    const pending = this.frameId !== null;
+    this.cancelFrame();
+    this.scheduler = scheduler;
+    if (pending) this.handleScroll();
+  }
+
+  /**
+   * Cancel any pending update
+   */
+  private cancelFrame(): void {
+    if (this.frameId !== null) {
+      this.scheduler.cancelFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  /**
+   * Notify if progress changed since the last update
+   */
+  private update(): void {
+    const progress = this.getProgress();
+    if (progress === this.lastProgress) return;
+
+    this.lastProgress = progress;
+    this.options.onProgress(progress);
+  }
+
+  /**
+   * Remove listeners and cancel any pending frame
+   */
+  destroy(): void {
+    window.removeEventListener('scroll', this.handleScroll, { capture: true });
+    window.removeEventListener('resize', this.handleScroll);
+    this.cancelFrame();
+  }
+}
@@ -0,0 +1,205 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { SvgContext } from './SvgContext';
+
+/**
+ * Extract every number from a path's d attribute
+ */
+function pathNumbers(svg: string): number[] {
+  const match = svg.match(/<path d="([^"]+)"/);
+  return (match?.[1].match(/-?\d+(\.\d+)?/g) ?? []).map(Number);
+}
+
+describe('SvgContext', () => {
+  it('should produce a sized SVG document', () => {
+    const ctx = new SvgContext(200, 100);
+    const svg = ctx.toSVG();
+
+    expect(svg).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="100" viewBox="0 0 200 100"></svg>'
+    );
+    expect(ctx.canvas).toEqual({ width: 200, height: 100 });
+  });
+
+  it('should record filled and stroked paths with their style', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.beginPath();
+    ctx.moveTo(10, 10);
+    ctx.lineTo(90, 10);
+    ctx.quadraticCurveTo(90, 90, 10, 90);
+    ctx.closePath();
+    ctx.fillStyle = '#ff0000';
+    ctx.fill();
+
+    ctx.strokeStyle = 'rgba(0, 0, 255, 0.5)';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.stroke();
+
+    const svg = ctx.toSVG();
+    expect(svg).toContain('<path d="M10 10L90 10Q90 90 10 90Z" fill="#ff0000"/>');
+    expect(svg).toContain(
+      'fill="none" stroke="#0000ff" stroke-width="3" stroke-linecap="round" stroke-opacity="0.5"'
+    );
+  });
+
+  it('should apply transforms to coordinates and stroke widths', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.save();
+    ctx.translate(50, 50);
+    ctx.scale(2, 2);
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(10, 0);
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.restore();
+
+    // Restored state no longer translates
+    ctx.fillRect(0, 0, 10, 10);
+
+    const svg = ctx.toSVG();
+    expect(svg).toContain('d="M50 50L70 50"');
+    expect(svg).toContain('stroke-width="3"');
+    expect(svg).toContain('d="M0 0L10 0L10 10L0 10Z"');
+  });
+
+  it('should approximate arcs with cubic curves that stay on the circle', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.beginPath();
+    ctx.arc(50, 50, 20, 0, Math.PI * 2);
+    ctx.fill();
+
+    const svg = ctx.toSVG();
+    const numbers = pathNumbers(svg);
+    // moveTo plus four quarter-circle curves
+    expect(svg.match(/C/g)).toHaveLength(4);
+    expect(numbers.slice(0, 2)).toEqual([70, 50]);
+    expect(numbers.slice(-2)).toEqual([70, 50]);
+
+    // Every segment end point lies on the circle
+    for (let i = 2; i < numbers.length; i += 6) {
+      const [x, y] = [numbers[i + 4], numbers[i + 5]];
+      expect(Math.hypot(x - 50, y - 50)).toBeCloseTo(20, 1);
+    }
+  });
+
+  it('should honour rotation and direction for ellipses', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.beginPath();
+    ctx.ellipse(50, 50, 20, 10, Math.PI / 2, 0, Math.PI, true);
+    ctx.fill();
+
+    const numbers = pathNumbers(ctx.toSVG());
+    // Rotated a quarter turn, angle 0 points down and angle PI points up
+    expect(numbers.slice(0, 2)).toEqual([50, 70]);
+    expect(numbers.slice(-2)).toEqual([50, 30]);
+    // Counterclockwise from angle 0 passes through angle -PI/2, which is to the right
+    expect(numbers[6]).toBeCloseTo(60, 1);
+  });
+
+  it('should multiply color alpha by globalAlpha', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.globalAlpha = 0.5;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.fillRect(0, 0, 10, 10);
+
+    expect(ctx.toSVG()).toContain('fill="#ffffff" fill-opacity="0.25"');
+  });
+
+  it('should emit gradients as definitions in user space', () => {
+    const ctx = new SvgContext(100, 100);
+    const gradient = ctx.createLinearGradient(0, 0, 0, 100);
+    gradient.addColorStop(0, '#000000');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.translate(10, 0);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 50, 100);
+
+    const svg = ctx.toSVG();
+    expect(svg).toContain(
+      '<linearGradient id="g1" gradientUnits="userSpaceOnUse" gradientTransform="matrix(1 0 0 1 10 0)" ' +
+      'x1="0" y1="0" x2="0" y2="100">'
+    );
+    expect(svg).toContain('<stop offset="1" stop-color="#000000" stop-opacity="0"/>');
+    expect(svg).toContain('fill="url(#g1)"');
+  });
+
+  it('should erase with destination-out by masking what was drawn before', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.fillStyle = '#00ff00';
+    ctx.fillRect(0, 0, 100, 100);
+
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, 100, 20);
+    ctx.globalCompositeOperation = 'source-over';
+
+    ctx.fillStyle = '#0000ff';
+    ctx.fillRect(0, 0, 10, 10);
+
+    const svg = ctx.toSVG();
+    expect(svg).toContain('<mask id="m1"');
+    expect(svg).toContain('<path d="M0 0L100 0L100 20L0 20Z" fill="#000"/></mask>');
+    // The erased shape only masks what came before it
+    expect(svg).toMatch(/<g mask="url\(#m1\)"><path [^>]*fill="#00ff00"\/><\/g><path [^>]*fill="#0000ff"\/>/);
+  });
+
+  it('should place destination-over shapes behind what is already drawn', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(0, 0, 10, 10);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#00ff00';
+    ctx.fillRect(0, 0, 100, 100);
+
+    const svg = ctx.toSVG();
+    expect(svg.indexOf('#00ff00')).toBeLessThan(svg.indexOf('#ff0000'));
+  });
+
+  it('should start over when the whole surface is cleared', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(0, 0, 10, 10);
+    ctx.clearRect(0, 0, 100, 100);
+    ctx.fillStyle = '#0000ff';
+    ctx.fillRect(0, 0, 10, 10);
+    // Partial clears erase with a mask instead
+    ctx.clearRect(0, 0, 5, 5);
+
+    const svg = ctx.toSVG();
+    expect(svg).not.toContain('#ff0000');
+    expect(svg).toContain('<mask id="m1"');
+  });
+
+  it('should blur shapes drawn with a blur() filter, sharing one definition per radius', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.save();
+    ctx.scale(2, 2);
+    ctx.filter = 'blur(1.5px)';
+    ctx.fillRect(0, 0, 10, 10);
+    ctx.fillRect(20, 0, 10, 10);
+    ctx.restore();
+    ctx.fillRect(50, 50, 10, 10);
+
+    const svg = ctx.toSVG();
+    expect(ctx.filter).toBe('none');
+    expect(svg.match(/<filter /g)).toHaveLength(1);
+    // The radius ignores the transform, as on a canvas
+    expect(svg).toContain('<feGaussianBlur stdDeviation="1.5"/>');
+    expect(svg.match(/<g filter="url\(#f1\)"><path/g)).toHaveLength(2);
+    expect(svg).toMatch(/<\/g><path d="M50 50/);
+  });
+
+  it('should draw text with the current font and alignment', () => {
+    const ctx = new SvgContext(100, 100);
+    ctx.font = '12px serif';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#333333';
+    ctx.fillText('a < b', 50, 50);
+
+    const svg = ctx.toSVG();
+    expect(svg).toContain('style="font: 12px serif" text-anchor="middle"');
+    expect(svg).toContain('>a &lt; b</text>');
+  });
+});
@@ -0,0 +1,653 @@
+/**
+ * SvgContext - Canvas 2D drawing surface that records SVG
+ * Implements the subset of CanvasRenderingContext2D used by the plant
+ * renderers and scene drawing, so the same code produces vector output.
+ */
+
+import { Color } from './Color';
+
+/**
+ * Affine transform [a, b, c, d, e, f], as in CanvasRenderingContext2D.setTransform
+ */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const TEXT_ANCHORS: Record<CanvasTextAlign, string> = {
+  start: 'start',
+  left: 'start',
+  center: 'middle',
+  end: 'end',
+  right: 'end',
+};
+
+const TEXT_BASELINES: Record<CanvasTextBaseline, string> = {
+  alphabetic: 'alphabetic',
+  top: 'text-before-edge',
+  hanging: 'hanging',
+  middle: 'central',
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge',
+};
+
+/**
+ * Drawing state saved and restored by save()/restore()
+ */
+interface SvgState {
+  transform: Matrix;
+  fillStyle: string | SvgGradient;
+  strokeStyle: string | SvgGradient;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  filter: string;
+}
+
+/**
+ * Round coordinates to keep the output compact
+ */
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Escape a string for use in an attribute value
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Split a CSS color into an SVG-safe color and its alpha
+ * Colors Color.parse() does not understand are passed through as opaque.
+ */
+function splitColor(value: string): { color: string; alpha: number } {
+  const parsed = Color.parse(value);
+  if (!parsed) return { color: value, alpha: 1 };
+  return { color: parsed.toHex(), alpha: parsed.a };
+}
+
+/**
+ * Gradient returned by createLinearGradient()/createRadialGradient()
+ * Coordinates are in the user space of the fill or stroke that uses it.
+ */
+export class SvgGradient {
+  readonly stops: Array<{ offset: number; color: string }> = [];
+
+  constructor(
+    readonly kind: 'linear' | 'radial',
+    readonly coords: readonly number[]
+  ) {}
+
+  addColorStop(offset: number, color: string): void {
+    this.stops.push({ offset, color });
+  }
+}
+
+/**
+ * SvgContext class - Records canvas drawing calls as an SVG document
+ *
+ * Paths are flattened into the output coordinate space as they are built,
+ * arcs and ellipses become cubic Béziers, 'destination-out' compositing
+ * becomes a mask over everything drawn so far, 'destination-over' places
+ * shapes behind it, and a blur() filter becomes an feGaussianBlur.
+ *
+ * Usage:
+ * ```typescript
+ * const ctx = new SvgContext(800, 400);
+ * drawScene(ctx, plants, 800, 400, time, options);
+ * const svg = ctx.toSVG();
+ * ```
+ */
+export class SvgContext {
+  /** Output size, also exposed as ctx.canvas for code that reads it */
+  readonly canvas: { width: number; height: number };
+
+  private state: SvgState = {
+    transform: [...IDENTITY],
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    filter: 'none',
+  };
+  private stack: SvgState[] = [];
+  private path: string[] = [];
+  /** Current point in output space, null before the first moveTo */
+  private current: [number, number] | null = null;
+  private subpathStart: [number, number] | null = null;
+  private elements: string[] = [];
+  private defs: string[] = [];
+  /** Filter ids by blur radius, so each is defined once */
+  private blurFilters = new Map<number, string>();
+  private nextId = 1;
+
+  constructor(width: number, height: number) {
+    this.canvas = { width, height };
+  }
+
+  // ==================== STATE ====================
+
+  get fillStyle(): string | SvgGradient {
+    return this.state.fillStyle;
+  }
+
+  set fillStyle(value: string | SvgGradient) {
+    this.state.fillStyle = value;
+  }
+
+  get strokeStyle(): string | SvgGradient {
+    return this.state.strokeStyle;
+  }
+
+  set strokeStyle(value: string | SvgGradient) {
+    this.state.strokeStyle = value;
+  }
+
+  get lineWidth(): number {
+    return this.state.lineWidth;
+  }
+
+  set lineWidth(value: number) {
+    if (Number.isFinite(value) && value > 0) this.state.lineWidth = value;
+  }
+
+  get lineCap(): CanvasLineCap {
+    return this.state.lineCap;
+  }
+
+  set lineCap(value: CanvasLineCap) {
+    this.state.lineCap = value;
+  }
+
+  get lineJoin(): CanvasLineJoin {
+    return this.state.lineJoin;
+  }
+
+  set lineJoin(value: CanvasLineJoin) {
+    this.state.lineJoin = value;
+  }
+
+  get globalAlpha(): number {
+    return this.state.globalAlpha;
+  }
+
+  set globalAlpha(value: number) {
+    if (Number.isFinite(value) && value >= 0 && value <= 1) this.state.globalAlpha = value;
+  }
+
+  get globalCompositeOperation(): GlobalCompositeOperation {
+    return this.state.globalCompositeOperation;
+  }
+
+  set globalCompositeOperation(value: GlobalCompositeOperation) {
+    this.state.globalCompositeOperation = value;
+  }
+
+  get font(): string {
+    return this.state.font;
+  }
+
+  set font(value: string) {
+    this.state.font = value;
+  }
+
+  get textAlign(): CanvasTextAlign {
+    return this.state.textAlign;
+  }
+
+  set textAlign(value: CanvasTextAlign) {
+    this.state.textAlign = value;
+  }
+
+  get textBaseline(): CanvasTextBaseline {
+    return this.state.textBaseline;
+  }
+
+  set textBaseline(value: CanvasTextBaseline) {
+    this.state.textBaseline = value;
+  }
+
+  /** Only blur() is drawn; other filters are kept but have no effect */
+  get filter(): string {
+    return this.state.filter;
+  }
+
+  set filter(value: string) {
+    this.state.filter = value;
+  }
+
+  save(): void {
+    this.stack.push({ ...this.state, transform: [...this.state.transform] });
+  }
+
+  restore(): void {
+    const state = this.stack.pop();
+    if (state) this.state = state;
+  }
+
+  // ==================== TRANSFORMS ====================
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  resetTransform(): void {
+    this.state.transform = [...IDENTITY];
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    const [ma, mb, mc, md, me, mf] = this.state.transform;
+    this.state.transform = [
+      ma * a + mc * b,
+      mb * a + md * b,
+      ma * c + mc * d,
+      mb * c + md * d,
+      ma * e + mc * f + me,
+      mb * e + md * f + mf,
+    ];
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  // ==================== PATHS ====================
+
+  beginPath(): void {
+    this.path = [];
+    this.current = null;
+    this.subpathStart = null;
+  }
+
+  closePath(): void {
+    if (!this.current) return;
+    this.path.push('Z');
+    this.current = this.subpathStart;
+  }
+
+  moveTo(x: number, y: number): void {
+    const point = this.apply(x, y);
+    this.path.push(`M${fmt(point[0])} ${fmt(point[1])}`);
+    this.current = point;
+    this.subpathStart = point;
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this.current) {
+      this.moveTo(x, y);
+      return;
+    }
+    const point = this.apply(x, y);
+    this.path.push(`L${fmt(point[0])} ${fmt(point[1])}`);
+    this.current = point;
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    if (!this.current) this.moveTo(cpx, cpy);
+    const control = this.apply(cpx, cpy);
+    const point = this.apply(x, y);
+    this.path.push(`Q${fmt(control[0])} ${fmt(control[1])} ${fmt(point[0])} ${fmt(point[1])}`);
+    this.current = point;
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    if (!this.current) this.moveTo(cp1x, cp1y);
+    const c1 = this.apply(cp1x, cp1y);
+    const c2 = this.apply(cp2x, cp2y);
+    const point = this.apply(x, y);
+    this.path.push(
+      `C${fmt(c1[0])} ${fmt(c1[1])} ${fmt(c2[0])} ${fmt(c2[1])} ${fmt(point[0])} ${fmt(point[1])}`
+    );
+    this.current = point;
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+  }
+
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false
+  ): void {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  /**
+   * Add an elliptical arc as cubic Béziers of at most a quarter turn each
+   */
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false
+  ): void {
+    const TAU = Math.PI * 2;
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise) {
+      sweep = sweep >= TAU ? TAU : ((sweep % TAU) + TAU) % TAU;
+    } else {
+      sweep = sweep <= -TAU ? -TAU : -((((-sweep) % TAU) + TAU) % TAU);
+    }
+
+    const cosR = Math.cos(rotation);
+    const sinR = Math.sin(rotation);
+    const pointAt = (angle: number): [number, number] => {
+      const px = radiusX * Math.cos(angle);
+      const py = radiusY * Math.sin(angle);
+      return [x + px * cosR - py * sinR, y + px * sinR + py * cosR];
+    };
+    const tangentAt = (angle: number): [number, number] => {
+      const tx = -radiusX * Math.sin(angle);
+      const ty = radiusY * Math.cos(angle);
+      return [tx * cosR - ty * sinR, tx * sinR + ty * cosR];
+    };
+
+    const [startX, startY] = pointAt(startAngle);
+    if (this.current) {
+      this.lineTo(startX, startY);
+    } else {
+      this.moveTo(startX, startY);
+    }
+
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const delta = sweep / segments;
+    const k = (4 / 3) * Math.tan(delta / 4);
+    for (let i = 0; i < segments; i++) {
+      const a1 = startAngle + i * delta;
+      const a2 = a1 + delta;
+      const [x1, y1] = pointAt(a1);
+      const [x2, y2] = pointAt(a2);
+      const [t1x, t1y] = tangentAt(a1);
+      const [t2x, t2y] = tangentAt(a2);
+      this.bezierCurveTo(x1 + k * t1x, y1 + k * t1y, x2 - k * t2x, y2 - k * t2y, x2, y2);
+    }
+  }
+
+  // ==================== DRAWING ====================
+
+  fill(fillRule: CanvasFillRule = 'nonzero'): void {
+    this.paint(this.path.join(''), 'fill', fillRule);
+  }
+
+  stroke(): void {
+    this.paint(this.path.join(''), 'stroke');
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.paint(this.rectPath(x, y, width, height), 'fill');
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number): void {
+    this.paint(this.rectPath(x, y, width, height), 'stroke');
+  }
+
+  clearRect(x: number, y: number, width: number, height: number): void {
+    if (this.elements.length === 0) return;
+
+    // Clearing the whole surface simply starts over
+    const [a, b, c, d] = this.state.transform;
+    const [x0, y0] = this.apply(x, y);
+    const [x1, y1] = this.apply(x + width, y + height);
+    if (
+      b === 0 && c === 0 && a > 0 && d > 0 &&
+      x0 <= 0 && y0 <= 0 && x1 >= this.canvas.width && y1 >= this.canvas.height
+    ) {
+      this.elements = [];
+      this.defs = [];
+      this.blurFilters.clear();
+      return;
+    }
+
+    this.erase(this.rectPath(x, y, width, height), 'fill="#000"');
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    this.paintText(text, x, y, 'fill');
+  }
+
+  strokeText(text: string, x: number, y: number): void {
+    this.paintText(text, x, y, 'stroke');
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): SvgGradient {
+    return new SvgGradient('linear', [x0, y0, x1, y1]);
+  }
+
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ): SvgGradient {
+    return new SvgGradient('radial', [x0, y0, r0, x1, y1, r1]);
+  }
+
+  // ==================== OUTPUT ====================
+
+  /**
+   * Serialize everything drawn so far as a standalone SVG document
+   */
+  toSVG(): string {
+    const { width, height } = this.canvas;
+    const defs = this.defs.length > 0 ? `<defs>${this.defs.join('')}</defs>` : '';
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}" height="${fmt(height)}" ` +
+      `viewBox="0 0 ${fmt(width)} ${fmt(height)}">` +
+      defs +
+      this.elements.join('') +
+      '</svg>'
+    );
+  }
+
+  // ==================== INTERNALS ====================
+
+  /**
+   * Map a point from user space to output space
+   */
+  private apply(x: number, y: number): [number, number] {
+    const [a, b, c, d, e, f] = this.state.transform;
+    return [a * x + c * y + e, b * x + d * y + f];
+  }
+
+  /**
+   * Path data for a rectangle, without touching the current path
+   */
+  private rectPath(x: number, y: number, width: number, height: number): string {
+    const corners = [
+      this.apply(x, y),
+      this.apply(x + width, y),
+      this.apply(x + width, y + height),
+      this.apply(x, y + height),
+    ];
+    return corners.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${fmt(px)} ${fmt(py)}`).join('') + 'Z';
+  }
+
+  /**
+   * Emit a filled or stroked path with the current style
+   */
+  private paint(d: string, mode: 'fill' | 'stroke', fillRule: CanvasFillRule = 'nonzero'): void {
+    if (!d) return;
+    const style = mode === 'fill' ? this.state.fillStyle : this.state.strokeStyle;
+
+    if (this.state.globalCompositeOperation === 'destination-out') {
+      // Erasing: paint the shape black into a luminance mask
+      this.erase(d, this.paintAttributes(style, mode, fillRule, true));
+      return;
+    }
+
+    this.addElement(`<path d="${d}" ${this.paintAttributes(style, mode, fillRule, false)}/>`);
+  }
+
+  /**
+   * Add a painted element in front of, or with 'destination-over' behind, what is there
+   */
+  private addElement(element: string): void {
+    const blur = this.getBlurFilter();
+    if (blur) element = `<g filter="url(#${blur})">${element}</g>`;
+
+    if (this.state.globalCompositeOperation === 'destination-over') {
+      this.elements.unshift(element);
+    } else {
+      this.elements.push(element);
+    }
+  }
+
+  /**
+   * Id of an feGaussianBlur filter for the current filter, or null if it is not a blur
+   * Like canvas filters, the radius ignores the transform.
+   */
+  private getBlurFilter(): string | null {
+    const match = /^\s*blur\(\s*([\d.]+)px\s*\)\s*$/.exec(this.state.filter);
+    const radius = match ? parseFloat(match[1]) : 0;
+    if (!(radius > 0)) return null;
+
+    let id = this.blurFilters.get(radius);
+    if (!id) {
+      id = `f${this.nextId++}`;
+      this.blurFilters.set(radius, id);
+      const { width, height } = this.canvas;
+      this.defs.push(
+        `<filter id="${id}" filterUnits="userSpaceOnUse" x="0" y="0" width="${fmt(width)}" height="${fmt(height)}">` +
+          `<feGaussianBlur stdDeviation="${fmt(radius)}"/></filter>`
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Emit text with the current font, alignment and transform
+   */
+  private paintText(text: string, x: number, y: number, mode: 'fill' | 'stroke'): void {
+    const style = mode === 'fill' ? this.state.fillStyle : this.state.strokeStyle;
+    const anchor = TEXT_ANCHORS[this.state.textAlign];
+    const baseline = TEXT_BASELINES[this.state.textBaseline];
+    const content = text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    this.addElement(
+      `<text x="${fmt(x)}" y="${fmt(y)}" transform="matrix(${this.state.transform.map(fmt).join(' ')})" ` +
+      `style="font: ${escapeAttribute(this.state.font)}" text-anchor="${anchor}" ` +
+      `dominant-baseline="${baseline}" ${this.paintAttributes(style, mode, 'nonzero', false, false)}>` +
+      `${content}</text>`
+    );
+  }
+
+  /**
+   * Attributes for painting with a color or gradient
+   * @param asMask - Paint in black with the style's alpha, for erasing
+   * @param inOutputSpace - Geometry is already transformed, so scale the stroke width to match
+   */
+  private paintAttributes(
+    style: string | SvgGradient,
+    mode: 'fill' | 'stroke',
+    fillRule: CanvasFillRule,
+    asMask: boolean,
+    inOutputSpace: boolean = true
+  ): string {
+    let paint: string;
+    let alpha = this.state.globalAlpha;
+
+    if (style instanceof SvgGradient) {
+      paint = `url(#${this.addGradient(style, asMask)})`;
+    } else {
+      const split = splitColor(style);
+      paint = asMask ? '#000' : escapeAttribute(split.color);
+      alpha *= split.alpha;
+    }
+
+    const attributes: string[] = [];
+    if (mode === 'fill') {
+      attributes.push(`fill="${paint}"`);
+      if (fillRule === 'evenodd') attributes.push('fill-rule="evenodd"');
+      if (alpha < 1) attributes.push(`fill-opacity="${fmt(alpha)}"`);
+    } else {
+      const [a, b, c, d] = this.state.transform;
+      const scale = inOutputSpace ? Math.sqrt(Math.abs(a * d - b * c)) : 1;
+      attributes.push('fill="none"', `stroke="${paint}"`, `stroke-width="${fmt(this.state.lineWidth * scale)}"`);
+      if (this.state.lineCap !== 'butt') attributes.push(`stroke-linecap="${this.state.lineCap}"`);
+      if (this.state.lineJoin !== 'miter') attributes.push(`stroke-linejoin="${this.state.lineJoin}"`);
+      if (alpha < 1) attributes.push(`stroke-opacity="${fmt(alpha)}"`);
+    }
+    return attributes.join(' ');
+  }
+
+  /**
+   * Add a gradient definition in the current transform
+   * @returns Its id
+   */
+  private addGradient(gradient: SvgGradient, asMask: boolean): string {
+    const id = `g${this.nextId++}`;
+    const transform = `gradientTransform="matrix(${this.state.transform.map(fmt).join(' ')})"`;
+    const stops = gradient.stops
+      .map(({ offset, color }) => {
+        const split = splitColor(color);
+        const stopColor = asMask ? '#000' : escapeAttribute(split.color);
+        const opacity = split.alpha < 1 ? ` stop-opacity="${fmt(split.alpha)}"` : '';
+        return `<stop offset="${fmt(offset)}" stop-color="${stopColor}"${opacity}/>`;
+      })
+      .join('');
+
+    const c = gradient.coords.map(fmt);
+    if (gradient.kind === 'linear') {
+      this.defs.push(
+        `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ${transform} ` +
+        `x1="${c[0]}" y1="${c[1]}" x2="${c[2]}" y2="${c[3]}">${stops}</linearGradient>`
+      );
+    } else {
+      this.defs.push(
+        `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" ${transform} ` +
+        `fx="${c[0]}" fy="${c[1]}" fr="${c[2]}" cx="${c[3]}" cy="${c[4]}" r="${c[5]}">${stops}</radialGradient>`
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Erase a shape from everything drawn so far by masking it out
+   * @param paintAttributes - Black paint whose opacity is how much to erase
+   */
+  private erase(d: string, paintAttributes: string): void {
+    const { width, height } = this.canvas;
+    const id = `m${this.nextId++}`;
+    this.defs.push(
+      `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${fmt(width)}" height="${fmt(height)}">` +
+      `<rect width="${fmt(width)}" height="${fmt(height)}" fill="#fff"/>` +
+      `<path d="${d}" ${paintAttributes}/></mask>`
+    );
+    this.elements = [`<g mask="url(#${id})">`, ...this.elements, '</g>'];
+  }
+}
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  anchorEdges,
+  getEdgeFrame,
+  getRadialFrame,
+  placeOnAnchor,
+  resolveAnchor,
+  transformToCircle,
+  transformToEdge,
+} from './anchor';
+import { SvgContext } from './SvgContext';
+import { generatePlants } from './plants';
+import { resolveDetachedOptions } from './defaults';
+import type { PlantEdge } from './types';
+
+const WIDTH = 200;
+const HEIGHT = 100;
+
+/**
+ * Map edge frame points into the container through transformToEdge
+ */
+function mapPoints(edge: PlantEdge, anchor: 'frame' | PlantEdge, points: Array<[number, number]>): number[][] {
+  const ctx = new SvgContext(WIDTH, HEIGHT);
+  const frame = getEdgeFrame(edge, anchor, WIDTH, HEIGHT);
+  transformToEdge(ctx, frame, WIDTH, HEIGHT);
+  ctx.beginPath();
+  for (const [i, [x, y]] of points.entries()) {
+    if (i === 0) ctx.moveTo(x * frame.length, y * frame.depth);
+    else ctx.lineTo(x * frame.length, y * frame.depth);
+  }
+  ctx.stroke();
+
+  const d = ctx.toSVG().match(/d="([^"]+)"/)?.[1] ?? '';
+  return d.split(/[ML]/).filter(Boolean).map((point) => point.split(' ').map((n) => Math.round(Number(n))));
+}
+
+describe('anchor', () => {
+  it('should place positions on one edge, or around the perimeter for a frame', () => {
+    expect(placeOnAnchor('left', 0.3)).toEqual({ edge: 'left', x: 0.3 });
+    expect(placeOnAnchor('frame', 0.1)).toEqual({ edge: 'bottom', x: expect.closeTo(0.4) });
+    expect(placeOnAnchor('frame', 0.6)).toEqual({ edge: 'top', x: expect.closeTo(0.4) });
+    expect(placeOnAnchor('frame', 1).edge).toBe('left');
+    expect(anchorEdges('frame')).toHaveLength(4);
+  });
+
+  it('should size edge frames by the side they grow across', () => {
+    expect(getEdgeFrame('left', 'left', WIDTH, HEIGHT)).toMatchObject({ length: HEIGHT, depth: WIDTH });
+    expect(getEdgeFrame('top', 'top', WIDTH, HEIGHT)).toMatchObject({ length: WIDTH, depth: HEIGHT });
+    // Frame edges share the shorter side
+    expect(getEdgeFrame('left', 'frame', WIDTH, HEIGHT)).toMatchObject({ length: HEIGHT, depth: HEIGHT });
+  });
+
+  it('should root each frame on its edge and grow toward the middle', () => {
+    // Root line from start to end of the edge, then the middle of the frame's far side
+    const path: Array<[number, number]> = [[0, 1], [1, 1], [0.5, 0]];
+
+    expect(mapPoints('bottom', 'bottom', path)).toEqual([[0, 100], [200, 100], [100, 0]]);
+    expect(mapPoints('top', 'top', path)).toEqual([[200, 0], [0, 0], [100, 100]]);
+    expect(mapPoints('left', 'left', path)).toEqual([[0, 0], [0, 100], [200, 50]]);
+    expect(mapPoints('right', 'right', path)).toEqual([[200, 100], [200, 0], [0, 50]]);
+    expect(mapPoints('right', 'frame', path)).toEqual([[200, 100], [200, 0], [100, 50]]);
+  });
+
+  it('should spread frame plants over every edge without changing bottom gardens', () => {
+    const options = { seed: 42, generations: 8 };
+    const bottom = generatePlants(resolveDetachedOptions(options));
+    const frame = generatePlants(resolveDetachedOptions({ ...options, anchor: 'frame' }));
+
+    expect(bottom.every((p) => p.edge === 'bottom')).toBe(true);
+    expect(new Set(frame.map((p) => p.edge))).toEqual(new Set(['bottom', 'right', 'top', 'left']));
+    expect(frame.map((p) => p.maxHeight)).toEqual(bottom.map((p) => p.maxHeight));
+  });
+
+  describe('radial', () => {
+    it('should fill in and clamp the circle', () => {
+      expect(resolveAnchor({ type: 'radial' })).toEqual({ type: 'radial', x: 0.5, y: 0.5, radius: 0.25 });
+      expect(resolveAnchor({ type: 'radial', x: 0.2, radius: 0.9 })).toMatchObject({ x: 0.2, radius: 0.4 });
+      expect(resolveAnchor(undefined)).toBe('bottom');
+    });
+
+    it('should size the circle by the shorter side and grow out to its middle', () => {
+      const circle = getRadialFrame({ type: 'radial', x: 0.5, y: 0.5, radius: 0.2 }, WIDTH, HEIGHT);
+
+      expect(circle).toMatchObject({ x: 100, y: 50, radius: 20, depth: 30 });
+      expect(circle.length).toBeCloseTo(Math.PI * 40);
+    });
+
+    it('should root plants on the circle at their angle, growing away from the center', () => {
+      const circle = getRadialFrame({ type: 'radial', x: 0.5, y: 0.5, radius: 0.2 }, WIDTH, HEIGHT);
+      const tips = [0, 0.25, 0.5].map((position) => {
+        const ctx = new SvgContext(WIDTH, HEIGHT);
+        transformToCircle(ctx, circle, position);
+        // Root of a plant at this position, then the top of the frame above it
+        const rootX = position * circle.length;
+        ctx.beginPath();
+        ctx.moveTo(rootX, circle.depth);
+        ctx.lineTo(rootX, 0);
+        ctx.stroke();
+        const d = ctx.toSVG().match(/d="([^"]+)"/)?.[1] ?? '';
+        return d.split(/[ML]/).filter(Boolean).map((point) => point.split(' ').map((n) => Math.round(Number(n))));
+      });
+
+      // Clockwise from the top
+      expect(tips[0]).toEqual([[100, 30], [100, 0]]);
+      expect(tips[1]).toEqual([[120, 50], [150, 50]]);
+      expect(tips[2]).toEqual([[100, 70], [100, 100]]);
+    });
+
+    it('should give radial plants no edge', () => {
+      const plants = generatePlants(resolveDetachedOptions({ seed: 42, generations: 2, anchor: { type: 'radial' } }));
+
+      expect(plants.every((p) => p.edge === undefined)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Anchor - Container edges, or a circle, the garden grows from
+ * Plants are always drawn growing up from the bottom of an edge frame; the
+ * frame is then rotated into place along its container edge, or for radial
+ * gardens around the circle one plant at a time.
+ */
+
+import type { DrawingContext, GardenAnchor, GardenOptions, PlantEdge, ResolvedOptions, ResolvedRadialAnchor } from './types';
+import { clamp } from './utils';
+import { LAYOUT, OPTION_BOUNDS } from './constants';
+
+/**
+ * Edges in order around the perimeter, so positions along them join up
+ */
+export const FRAME_EDGES: readonly PlantEdge[] = ['bottom', 'right', 'top', 'left'];
+
+/**
+ * Area plants on one edge grow in
+ * length runs along the edge, depth away from it (the "height" plants see).
+ */
+export interface EdgeFrame {
+  edge: PlantEdge;
+  length: number;
+  depth: number;
+}
+
+/**
+ * Circle a radial garden grows from, in container pixels
+ * length is the circumference, and depth the space plants grow into: from the
+ * circle to half the shorter side.
+ */
+export interface RadialFrame {
+  x: number;
+  y: number;
+  radius: number;
+  length: number;
+  depth: number;
+}
+
+/**
+ * Resolve the anchor option, filling in radial defaults
+ */
+export function resolveAnchor(anchor: GardenOptions['anchor']): ResolvedOptions['anchor'] {
+  if (typeof anchor !== 'object' || anchor === null) return anchor ?? 'bottom';
+
+  const { min, max } = OPTION_BOUNDS.RADIAL_RADIUS;
+  return {
+    type: 'radial',
+    x: anchor.x ?? 0.5,
+    y: anchor.y ?? 0.5,
+    radius: clamp(anchor.radius ?? LAYOUT.DEFAULT_RADIAL_RADIUS, min, max),
+  };
+}
+
+/**
+ * Whether plants grow outward from a circle rather than from edges
+ */
+export function isRadialAnchor(anchor: ResolvedOptions['anchor']): anchor is ResolvedRadialAnchor {
+  return typeof anchor === 'object';
+}
+
+/**
+ * Edges a garden with this anchor grows from
+ */
+export function anchorEdges(anchor: GardenAnchor): readonly PlantEdge[] {
+  return anchor === 'frame' ? FRAME_EDGES : [anchor];
+}
+
+/**
+ * Place a 0-1 position on the anchor's edges
+ * A frame spreads positions around the whole perimeter, a quarter per edge.
+ */
+export function placeOnAnchor(
+  anchor: ResolvedOptions['anchor'],
+  position: number
+): { edge: PlantEdge | undefined; x: number } {
+  // Radial plants have no edge; the position is a fraction of a turn
+  if (isRadialAnchor(anchor)) return { edge: undefined, x: position };
+  if (anchor !== 'frame') return { edge: anchor, x: position };
+
+  const side = Math.min(FRAME_EDGES.length - 1, Math.floor(position * FRAME_EDGES.length));
+  return { edge: FRAME_EDGES[side], x: position * FRAME_EDGES.length - side };
+}
+
+/**
+ * Size the frame for an edge of a width x height container
+ * All four frame edges share the shorter side as their depth, so they match.
+ */
+export function getEdgeFrame(edge: PlantEdge, anchor: GardenAnchor, width: number, height: number): EdgeFrame {
+  const horizontal = edge === 'top' || edge === 'bottom';
+  return {
+    edge,
+    length: horizontal ? width : height,
+    depth: anchor === 'frame' ? Math.min(width, height) : horizontal ? height : width,
+  };
+}
+
+/**
+ * Transform the context so the frame's bottom lies along its container edge,
+ * with positions running around the perimeter in FRAME_EDGES order
+ */
+export function transformToEdge(
+  ctx: DrawingContext,
+  frame: EdgeFrame,
+  width: number,
+  height: number
+): void {
+  switch (frame.edge) {
+    case 'bottom':
+      ctx.translate(0, height - frame.depth);
+      break;
+    case 'right':
+      ctx.translate(width - frame.depth, height);
+      ctx.rotate(-Math.PI / 2);
+      break;
+    case 'top':
+      ctx.translate(width, frame.depth);
+      ctx.rotate(Math.PI);
+      break;
+    case 'left':
+      ctx.translate(frame.depth, 0);
+      ctx.rotate(Math.PI / 2);
+      break;
+  }
+}
+
+/**
+ * Size and place the circle of a radial garden in a width x height container
+ */
+export function getRadialFrame(anchor: ResolvedRadialAnchor, width: number, height: number): RadialFrame {
+  const shorter = Math.min(width, height);
+  return {
+    x: anchor.x * width,
+    y: anchor.y * height,
+    radius: anchor.radius * shorter,
+    length: Math.PI * 2 * anchor.radius * shorter,
+    depth: shorter / 2 - anchor.radius * shorter,
+  };
+}
+
+/**
+ * Transform the context so a plant drawn in the radial frame is rooted on the
+ * circle at its position (a fraction of a turn, clockwise from the top) and
+ * grows away from the center
+ */
+export function transformToCircle(ctx: DrawingContext, frame: RadialFrame, position: number): void {
+  ctx.translate(frame.x, frame.y);
+  ctx.rotate(position * Math.PI * 2);
+  ctx.translate(-position * frame.length, -frame.radius - frame.depth);
+}
+
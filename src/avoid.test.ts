@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAvoidLayout, createPlantFitter, measureAvoidLayout } from './avoid';
+import { generatePlants } from './plants';
+import { resolveDetachedOptions } from './defaults';
+import type { AvoidLayout } from './types';
+
+const WIDTH = 400;
+const HEIGHT = 200;
+const flat = () => 0;
+const shape = { heightMultiplier: 1, scale: 1 };
+
+/** A headline across the middle of the top half */
+const headline: AvoidLayout = { width: WIDTH, height: HEIGHT, rects: [{ x: 150, y: 20, width: 100, height: 40 }] };
+
+function mockRect(element: Element, x: number, y: number, width: number, height: number): void {
+  vi.spyOn(element, 'getBoundingClientRect').mockReturnValue({
+    x, y, left: x, top: y, width, height, right: x + width, bottom: y + height, toJSON: () => ({}),
+  });
+}
+
+describe('createPlantFitter', () => {
+  const fit = createPlantFitter(headline, 'bottom');
+
+  it('should leave plants that stay clear untouched', () => {
+    const placement = { x: 0.5, maxHeight: 0.5, elevation: 0 };
+
+    expect(fit('bottom', placement, shape, flat)).toBe(placement);
+    expect(fit('bottom', { x: 0.05, maxHeight: 0.9, elevation: 0 }, shape, flat)?.maxHeight).toBe(0.9);
+  });
+
+  it('should cap a plant that keeps most of its height below the region', () => {
+    const fitted = fit('bottom', { x: 0.5, maxHeight: 0.8, elevation: 0 }, shape, flat);
+
+    expect(fitted?.x).toBe(0.5);
+    // Its top, canopy included, stays under the headline's bottom edge (60px)
+    expect(fitted!.maxHeight).toBeLessThanOrEqual((HEIGHT - 60) / HEIGHT);
+    expect(fitted!.maxHeight).toBeGreaterThanOrEqual(0.8 * 0.6);
+  });
+
+  it('should move a plant aside rather than cut it down to a stump', () => {
+    const blocked: AvoidLayout = { ...headline, rects: [{ x: 180, y: 120, width: 40, height: 80 }] };
+    const fitted = createPlantFitter(blocked, 'bottom')('bottom', { x: 0.5, maxHeight: 0.5, elevation: 0 }, shape, flat);
+
+    expect(fitted?.maxHeight).toBe(0.5);
+    expect(Math.abs(fitted!.x - 0.5)).toBeGreaterThan(0.05);
+  });
+
+  it('should leave out plants that can neither move nor keep any height', () => {
+    const wall: AvoidLayout = { ...headline, rects: [{ x: 0, y: 190, width: WIDTH, height: 10 }] };
+
+    expect(createPlantFitter(wall, 'bottom')('bottom', { x: 0.5, maxHeight: 0.5, elevation: 0 }, shape, flat)).toBeNull();
+  });
+
+  it('should fit plants on other edges in their own direction', () => {
+    // A region hugging the top edge blocks plants hanging from it, not those growing up
+    const banner: AvoidLayout = { ...headline, rects: [{ x: 0, y: 0, width: WIDTH, height: 10 }] };
+    const placement = { x: 0.5, maxHeight: 0.3, elevation: 0 };
+
+    expect(createPlantFitter(banner, 'top')('top', placement, shape, flat)).toBeNull();
+    expect(createPlantFitter(banner, 'bottom')('bottom', placement, shape, flat)).toBe(placement);
+  });
+});
+
+describe('avoid in plant generation', () => {
+  const options = resolveDetachedOptions({ seed: 42, generations: 10, maxHeight: 0.9 });
+
+  it('should keep every plant stem out of the regions', () => {
+    const plants = generatePlants({ ...options, avoidLayout: headline });
+    const [rect] = headline.rects;
+
+    for (const plant of plants) {
+      const x = plant.x * WIDTH;
+      const top = HEIGHT * (1 - plant.maxHeight * (plant.variation?.heightMultiplier ?? 1));
+      if (x > rect.x && x < rect.x + rect.width) {
+        expect(top).toBeGreaterThan(rect.y + rect.height);
+      }
+    }
+  });
+
+  it('should be deterministic for a seed and layout, and only change plants that needed it', () => {
+    const plain = generatePlants(options);
+    const first = generatePlants({ ...options, avoidLayout: headline });
+    const second = generatePlants({ ...options, avoidLayout: headline });
+
+    expect(second).toEqual(first);
+    expect(first).not.toEqual(plain);
+    // Colors come from the same draws whether or not a plant was fitted
+    const colorsById = new Map(plain.map((p) => [p.id, p.flowerColor]));
+    expect(first.every((p) => colorsById.get(p.id) === p.flowerColor)).toBe(true);
+  });
+});
+
+describe('measuring avoid targets', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should measure elements and selector matches relative to the container', () => {
+    const container = document.createElement('div');
+    const button = document.createElement('button');
+    const heading = document.createElement('h1');
+    heading.className = 'title';
+    document.body.append(container, button, heading);
+    mockRect(container, 100, 50, WIDTH, HEIGHT);
+    mockRect(button, 120, 200, 80, 30);
+    mockRect(heading, 150, 60, 200, 40);
+
+    const layout = measureAvoidLayout(container, [button, '.title', { x: 0, y: 0, width: 10, height: 10 }]);
+
+    expect(layout).toEqual({
+      width: WIDTH,
+      height: HEIGHT,
+      rects: [
+        { x: 20, y: 150, width: 80, height: 30 },
+        { x: 50, y: 10, width: 200, height: 40 },
+        { x: 0, y: 0, width: 10, height: 10 },
+      ],
+    });
+  });
+
+  it('should skip invalid selectors and unmeasurable containers', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const container = document.createElement('div');
+    mockRect(container, 0, 0, WIDTH, HEIGHT);
+
+    expect(measureAvoidLayout(container, ['[['])?.rects).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid avoid selector'));
+    expect(measureAvoidLayout(document.createElement('div'), ['h1'])).toBeNull();
+    expect(measureAvoidLayout(container, [])).toBeNull();
+  });
+
+  it('should only use rectangles without a DOM', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rect = { x: 1, y: 2, width: 3, height: 4 };
+
+    expect(createAvoidLayout([rect, 'h1'], WIDTH, HEIGHT)).toEqual({ width: WIDTH, height: HEIGHT, rects: [rect] });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(createAvoidLayout([], WIDTH, HEIGHT)).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Avoid - Keep plants out of regions of page content
+ * Regions are measured in container pixels, so fitting depends on the layout:
+ * the same seed and layout always give the same garden.
+ */
+
+import type { AvoidLayout, AvoidRect, AvoidTarget, PlantEdge, ResolvedOptions } from './types';
+import { AVOID } from './constants';
+import { getEdgeFrame, getRadialFrame, isRadialAnchor } from './anchor';
+
+// Type declaration for process (Node.js environment detection for dev warnings)
+declare const process: { env?: { NODE_ENV?: string } } | undefined;
+
+/**
+ * Where a plant grows: position along its edge, height and ground elevation,
+ * both as fractions of the garden depth
+ */
+export interface PlantPlacement {
+  x: number;
+  maxHeight: number;
+  elevation: number;
+}
+
+/**
+ * Adjusts a plant's placement to stay clear of avoided regions
+ * @returns The placement, capped or moved, or null to leave the plant out
+ */
+export type PlantFitter = (
+  edge: PlantEdge | undefined,
+  placement: PlantPlacement,
+  shape: { heightMultiplier: number; scale: number; lift?: number },
+  elevationAt: (x: number) => number
+) => PlantPlacement | null;
+
+/**
+ * Maps a position and a distance out from the ground to layout pixels
+ */
+interface FrameMapper {
+  depth: number;
+  /** Whether positions wrap around, as they do on a circle */
+  wraps: boolean;
+  pointAt(position: number, distance: number): [number, number];
+}
+
+/**
+ * Whether an avoid target is a plain rectangle rather than an element or selector
+ */
+export function isAvoidRect(target: AvoidTarget): target is AvoidRect {
+  return typeof target === 'object' && !(typeof Element !== 'undefined' && target instanceof Element);
+}
+
+/**
+ * Build a layout from the rectangles among the targets, for rendering without a DOM
+ * Elements and selectors cannot be measured there and are skipped.
+ * @returns The layout, or null if there is nothing to avoid
+ */
+export function createAvoidLayout(targets: readonly AvoidTarget[], width: number, height: number): AvoidLayout | null {
+  const rects = targets.filter(isAvoidRect);
+  if (rects.length < targets.length && typeof process !== 'undefined' && process?.env?.NODE_ENV !== 'production') {
+    console.warn('Garten: Only rectangles can be avoided without a DOM. Elements and selectors are ignored.');
+  }
+  return rects.length > 0 ? { width, height, rects: rects.map((rect) => ({ ...rect })) } : null;
+}
+
+/**
+ * Measure avoid targets relative to a container
+ * Selectors match anywhere in the container's document.
+ * @returns The layout, or null if there is nothing to avoid or the container has no size
+ */
+export function measureAvoidLayout(container: HTMLElement, targets: readonly AvoidTarget[]): AvoidLayout | null {
+  if (targets.length === 0) return null;
+
+  const bounds = container.getBoundingClientRect();
+  if (!(bounds.width > 0) || !(bounds.height > 0)) return null;
+
+  const relativeTo = (element: Element): AvoidRect => {
+    const rect = element.getBoundingClientRect();
+    return { x: rect.left - bounds.left, y: rect.top - bounds.top, width: rect.width, height: rect.height };
+  };
+
+  const rects: AvoidRect[] = [];
+  for (const target of targets) {
+    if (typeof target === 'string') {
+      try {
+        container.ownerDocument.querySelectorAll(target).forEach((element) => rects.push(relativeTo(element)));
+      } catch {
+        if (typeof process !== 'undefined' && process?.env?.NODE_ENV !== 'production') {
+          console.warn(`Garten: Invalid avoid selector "${target}"`);
+        }
+      }
+    } else if (isAvoidRect(target)) {
+      rects.push({ ...target });
+    } else {
+      rects.push(relativeTo(target));
+    }
+  }
+
+  return { width: bounds.width, height: bounds.height, rects };
+}
+
+/**
+ * Map positions on one edge (or the circle) of the layout to pixels
+ */
+function createFrameMapper(
+  layout: AvoidLayout,
+  anchor: ResolvedOptions['anchor'],
+  edge: PlantEdge | undefined
+): FrameMapper {
+  const { width, height } = layout;
+
+  if (isRadialAnchor(anchor)) {
+    const circle = getRadialFrame(anchor, width, height);
+    return {
+      depth: circle.depth,
+      wraps: true,
+      pointAt: (position, distance) => {
+        const angle = position * Math.PI * 2;
+        const r = circle.radius + distance;
+        return [circle.x + Math.sin(angle) * r, circle.y - Math.cos(angle) * r];
+      },
+    };
+  }
+
+  // Inverse of transformToEdge(): the ground is at distance 0 on every edge
+  const frame = getEdgeFrame(edge ?? 'bottom', anchor, width, height);
+  const pointAt = ((): FrameMapper['pointAt'] => {
+    switch (frame.edge) {
+      case 'top':
+        return (position, distance) => [width - position * frame.length, distance];
+      case 'left':
+        return (position, distance) => [distance, position * frame.length];
+      case 'right':
+        return (position, distance) => [width - distance, height - position * frame.length];
+      default:
+        return (position, distance) => [position * frame.length, height - distance];
+    }
+  })();
+  return { depth: frame.depth, wraps: false, pointAt };
+}
+
+/**
+ * Create a fitter that keeps plants out of a layout's regions
+ * Each plant is treated as a cone widening from its base to a canopy at the
+ * top. A plant that would grow into a region is capped just below it if it
+ * keeps most of its height, otherwise moved to the nearest clear position,
+ * otherwise capped anyway, or left out if almost nothing would remain.
+ */
+export function createPlantFitter(layout: AvoidLayout, anchor: ResolvedOptions['anchor']): PlantFitter {
+  const rects = layout.rects.filter((rect) => rect.width > 0 && rect.height > 0);
+  const mappers = new Map<PlantEdge | undefined, FrameMapper>();
+
+  return (edge, placement, shape, elevationAt) => {
+    if (rects.length === 0) return placement;
+
+    let mapper = mappers.get(edge);
+    if (!mapper) {
+      mapper = createFrameMapper(layout, anchor, edge);
+      mappers.set(edge, mapper);
+    }
+    const { depth, wraps, pointAt } = mapper;
+    const length = placement.maxHeight * shape.heightMultiplier * depth;
+    const canopy = length * AVOID.CANOPY_RATIO * shape.scale;
+
+    // Index of the first sample along the plant that falls in a region, or -1
+    const firstHit = (x: number, elevation: number): number => {
+      const base = (elevation + (shape.lift ?? 0)) * depth;
+      for (let i = 0; i <= AVOID.SAMPLES; i++) {
+        const t = i / AVOID.SAMPLES;
+        const [px, py] = pointAt(x, base + length * t);
+        const spread = canopy * t + AVOID.MARGIN;
+        for (const rect of rects) {
+          if (
+            px > rect.x - spread && px < rect.x + rect.width + spread &&
+            py > rect.y - spread && py < rect.y + rect.height + spread
+          ) {
+            return i;
+          }
+        }
+      }
+      return -1;
+    };
+
+    const hit = firstHit(placement.x, placement.elevation);
+    if (hit < 0) return placement;
+
+    const capped = { ...placement, maxHeight: (placement.maxHeight * Math.max(0, hit - 1)) / AVOID.SAMPLES };
+    if (capped.maxHeight >= placement.maxHeight * AVOID.MIN_CAP_RATIO) return capped;
+
+    // Nearest clear position, alternating sides
+    for (let step = 1; step <= AVOID.MAX_MOVE_STEPS; step++) {
+      for (const direction of [1, -1]) {
+        let x = placement.x + direction * step * AVOID.MOVE_STEP;
+        if (wraps) x -= Math.floor(x);
+        else if (x < 0 || x > 1) continue;
+
+        const elevation = elevationAt(x);
+        if (firstHit(x, elevation) < 0) return { ...placement, x, elevation };
+      }
+    }
+
+    return capped.maxHeight >= AVOID.MIN_HEIGHT ? capped : null;
+  };
+}
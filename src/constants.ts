@@ -120,8 +120,12 @@ export const COLORS = {
   TULIP_STRIPE: '#FFFFFF',
   /** Ground indicator */
   GROUND_COLOR: 'rgba(139, 119, 101, 0.08)',
-  /** Canvas background */
+  /** Canvas background (default for the background option) */
   CANVAS_BACKGROUND: '#ffffff',
+  /** Ground indicator in the dark color scheme */
+  DARK_GROUND_COLOR: 'rgba(222, 206, 190, 0.08)',
+  /** Canvas background in the dark color scheme */
+  DARK_CANVAS_BACKGROUND: '#121417',
   /** Default accent color (Cloudflare orange) */
   DEFAULT_ACCENT: '#F6821F',
   /** Default fade color */
@@ -146,6 +150,8 @@ export const ANIMATION = {
   RESIZE_DEBOUNCE_MS: 100,
   /** Ground indicator height in pixels */
   GROUND_HEIGHT: 8,
+  /** Fraction of the duration the previous garden takes to fade out in 'crossfade' loop mode */
+  CROSSFADE_FRACTION: 0.1,
 } as const;
 
 // ==================== PLANT LAYOUT CONSTANTS ====================
@@ -170,6 +176,68 @@ export const LAYOUT = {
   TROPICAL_TRUNK_RATIO: 0.5,
   /** Tall flower stem ratio */
   TALL_FLOWER_STEM_RATIO: 1.0,
+  /** Default terrain height as fraction of container */
+  DEFAULT_TERRAIN_HEIGHT: 0.12,
+  /** Default radial garden circle radius as fraction of the shorter side */
+  DEFAULT_RADIAL_RADIUS: 0.25,
+} as const;
+
+// ==================== AVOID REGION CONSTANTS ====================
+
+/**
+ * How plants are kept out of avoided regions
+ */
+export const AVOID = {
+  /** Canopy half-width at the top of a plant, as a fraction of its height */
+  CANOPY_RATIO: 0.3,
+  /** Clearance kept around each region, in pixels */
+  MARGIN: 4,
+  /** Points checked along each plant */
+  SAMPLES: 24,
+  /** Cap a plant rather than move it if it keeps at least this much of its height */
+  MIN_CAP_RATIO: 0.6,
+  /** Leave a plant out if capping leaves less than this (fraction of the garden depth) */
+  MIN_HEIGHT: 0.02,
+  /** Distance between positions tried when moving a plant (fraction of its edge) */
+  MOVE_STEP: 0.01,
+  /** Positions tried on each side before giving up on moving */
+  MAX_MOVE_STEPS: 25,
+} as const;
+
+// ==================== DISTRIBUTION CONSTANTS ====================
+
+/**
+ * How plants are spread along their edge
+ */
+export const DISTRIBUTION = {
+  /** Default number of groups for 'clusters' */
+  DEFAULT_CLUSTERS: 3,
+  /** Default width of each group (standard deviation) as a fraction of the edge */
+  DEFAULT_CLUSTER_SPREAD: 0.06,
+  /** How far cluster centers stray from even spacing, as a fraction of their share */
+  CLUSTER_JITTER: 0.6,
+  /** Density in the middle with 'edges', relative to the sides */
+  EDGES_CENTER_DENSITY: 0.1,
+  /** Default 'poisson' gap as a fraction of the average spacing between plants */
+  POISSON_GAP_RATIO: 0.7,
+  /** Positions tried per plant with 'poisson' before taking the most spaced one */
+  POISSON_CANDIDATES: 12,
+  /** Points a density map is sampled at */
+  DENSITY_SAMPLES: 512,
+} as const;
+
+// ==================== DEPTH CONSTANTS ====================
+
+/**
+ * Defaults for the back row of a garden with depth
+ */
+export const DEPTH = {
+  /** Size relative to the front row */
+  DEFAULT_SCALE: 0.6,
+  /** Height above the ground as a fraction of the garden depth */
+  DEFAULT_LIFT: 0.08,
+  /** Desaturation and tint toward the haze color */
+  DEFAULT_HAZE: 0.5,
 } as const;
 
 // ==================== PETAL COUNT DEFAULTS ====================
@@ -304,6 +372,18 @@ export const OPTION_BOUNDS = {
   FADE_HEIGHT: { min: 0, max: 1 },
   Z_INDEX: { min: -9999, max: 9999 },
   SEED: { min: 0, max: 1e9 },
+  PROGRESS_TWEEN_DURATION: { min: 0, max: 60 },
+  TERRAIN_HEIGHT: { min: 0, max: 0.5 },
+  RADIAL_RADIUS: { min: 0, max: 0.4 },
+  DISTRIBUTION_GAP: { min: 0, max: 0.25 },
+  DISTRIBUTION_CLUSTERS: { min: 1, max: 20 },
+  DISTRIBUTION_SPREAD: { min: 0.01, max: 0.5 },
+  DEPTH_LAYERS: { min: 1, max: 8 },
+  DEPTH_SCALE: { min: 0.1, max: 1 },
+  DEPTH_LIFT: { min: 0, max: 0.5 },
+  DEPTH_HAZE: { min: 0, max: 1 },
+  DEPTH_BLUR: { min: 0, max: 20 },
+  PARALLAX: { min: 0, max: 0.2 },
 } as const;
 
 // ==================== DENSITY CONFIGURATION ====================
@@ -1,5 +1,17 @@
-import type { GardenOptions, ResolvedOptions, ColorOptions, GardenEvents, Density } from './types';
+import type {
+  GardenOptions,
+  ResolvedOptions,
+  ColorOptions,
+  ColorSchemeVariant,
+  GardenEvents,
+  Density,
+} from './types';
+import { browserScheduler } from './scheduler';
 import { OPTION_BOUNDS, PLANTS_PER_GENERATION, COLORS, ANIMATION, LAYOUT } from './constants';
+import { resolveTerrain } from './terrain';
+import { resolveDistribution } from './distribution';
+import { resolveDepth } from './depth';
+import { resolveAnchor } from './anchor';
 
 // Type declaration for process (Node.js environment detection for dev warnings)
 declare const process: { env?: { NODE_ENV?: string } } | undefined;
@@ -31,9 +43,21 @@ export const defaultOptions: Omit<ResolvedOptions, 'container'> = {
   density: 'normal',
   categories: null,
   loop: false,
+  loopMode: 'restart',
+  driver: 'time',
+  progressTweenDuration: 0.5,
+  clock: null,
+  clockOffset: 0,
+  scheduler: browserScheduler,
+  scrollTarget: null,
+  scrollRange: null,
   speed: 1,
   autoplay: true,
   respectReducedMotion: true,
+  pauseWhenHidden: false,
+  persistKey: null,
+  offscreen: false,
+  createWorker: null,
   seed: Math.random() * 100000,
   maxPixelRatio: ANIMATION.DEFAULT_MAX_PIXEL_RATIO,
   targetFPS: ANIMATION.DEFAULT_TARGET_FPS,
@@ -42,6 +66,15 @@ export const defaultOptions: Omit<ResolvedOptions, 'container'> = {
   opacity: 1,
   fadeHeight: 0,
   fadeColor: COLORS.DEFAULT_FADE_COLOR,
+  background: COLORS.CANVAS_BACKGROUND,
+  groundColor: COLORS.GROUND_COLOR,
+  anchor: 'bottom',
+  avoid: [],
+  terrain: resolveTerrain('flat'),
+  distribution: resolveDistribution('uniform'),
+  depth: resolveDepth(1),
+  colorScheme: 'light',
+  schemes: {},
   events: defaultEvents,
 };
 
@@ -61,6 +94,7 @@ const optionToBoundsKey: Record<string, BoundsKey> = {
   fadeHeight: 'FADE_HEIGHT',
   zIndex: 'Z_INDEX',
   seed: 'SEED',
+  progressTweenDuration: 'PROGRESS_TWEEN_DURATION',
 };
 
 /**
@@ -117,6 +151,34 @@ export function resolveOptions(options: GardenOptions): ResolvedOptions {
     }
   }
 
+  return { container, ...resolveDetachedOptions(options) };
+}
+
+/**
+ * Resolve everything except the container
+ * Touches the DOM only to look up a scrollTarget selector, so headless
+ * rendering can use it without a document.
+ */
+export function resolveDetachedOptions(
+  options: Omit<GardenOptions, 'container'>
+): Omit<ResolvedOptions, 'container'> {
+  // Resolve scroll target the same way as the container
+  let scrollTarget: HTMLElement | null = null;
+  if (typeof options.scrollTarget === 'string') {
+    const el = document.querySelector(options.scrollTarget);
+    if (!el || !(el instanceof HTMLElement)) {
+      throw new Error(`Garten: Scroll target "${options.scrollTarget}" not found`);
+    }
+    scrollTarget = el;
+  } else if (options.scrollTarget) {
+    scrollTarget = options.scrollTarget;
+  }
+
+  const scrollRange = options.scrollRange ?? defaultOptions.scrollRange;
+  if (scrollRange && !(scrollRange.end > scrollRange.start)) {
+    throw new Error('Garten: scrollRange.end must be greater than scrollRange.start');
+  }
+
   // Merge color options
   const colors: Required<ColorOptions> = {
     ...defaultColorOptions,
@@ -131,7 +193,6 @@ export function resolveOptions(options: GardenOptions): ResolvedOptions {
 
   // Resolve and clamp numeric options
   return {
-    container,
     duration: clampOption(options.duration ?? defaultOptions.duration, 'duration'),
     generations: clampOption(options.generations ?? defaultOptions.generations, 'generations'),
     maxHeight: clampOption(options.maxHeight ?? defaultOptions.maxHeight, 'maxHeight'),
@@ -139,9 +200,26 @@ export function resolveOptions(options: GardenOptions): ResolvedOptions {
     density: options.density ?? defaultOptions.density,
     categories: options.categories ?? defaultOptions.categories,
     loop: options.loop ?? defaultOptions.loop,
+    loopMode: options.loopMode ?? defaultOptions.loopMode,
+    driver: options.driver ?? defaultOptions.driver,
+    progressTweenDuration: clampOption(
+      options.progressTweenDuration ?? defaultOptions.progressTweenDuration,
+      'progressTweenDuration'
+    ),
+    clock: options.clock ?? defaultOptions.clock,
+    clockOffset: (typeof options.clockOffset === 'number' && Number.isFinite(options.clockOffset))
+      ? options.clockOffset
+      : defaultOptions.clockOffset,
+    scheduler: options.scheduler ?? defaultOptions.scheduler,
+    scrollTarget,
+    scrollRange,
     speed: clampOption(options.speed ?? defaultOptions.speed, 'speed'),
     autoplay: options.autoplay ?? defaultOptions.autoplay,
     respectReducedMotion: options.respectReducedMotion ?? defaultOptions.respectReducedMotion,
+    pauseWhenHidden: options.pauseWhenHidden ?? defaultOptions.pauseWhenHidden,
+    persistKey: options.persistKey ?? defaultOptions.persistKey,
+    offscreen: options.offscreen ?? defaultOptions.offscreen,
+    createWorker: options.createWorker ?? defaultOptions.createWorker,
     seed: clampOption(
       // Use provided seed if valid, otherwise generate random seed
       (typeof options.seed === 'number' && Number.isFinite(options.seed))
@@ -156,7 +234,47 @@ export function resolveOptions(options: GardenOptions): ResolvedOptions {
     opacity: clampOption(options.opacity ?? defaultOptions.opacity, 'opacity'),
     fadeHeight: clampOption(options.fadeHeight ?? defaultOptions.fadeHeight, 'fadeHeight'),
     fadeColor: options.fadeColor ?? defaultOptions.fadeColor,
+    background: options.background ?? defaultOptions.background,
+    groundColor: options.groundColor ?? defaultOptions.groundColor,
+    anchor: resolveAnchor(options.anchor),
+    avoid: options.avoid ?? defaultOptions.avoid,
+    terrain: resolveTerrain(options.terrain),
+    distribution: resolveDistribution(options.distribution),
+    depth: resolveDepth(options.depth),
+    colorScheme: options.colorScheme ?? defaultOptions.colorScheme,
+    schemes: options.schemes ?? defaultOptions.schemes,
     events,
   };
 }
 
+/**
+ * Apply the active color scheme's overrides to resolved options
+ * The dark scheme swaps a default background and ground color for dark ones
+ * (custom ones are kept), then applies schemes.dark. The result's colorScheme
+ * is 'light' or 'dark', never 'auto'.
+ * @param prefersDark Whether the page prefers dark, used for 'auto'
+ */
+export function resolveColorScheme<T extends Omit<ResolvedOptions, 'container'>>(
+  options: T,
+  prefersDark: boolean
+): T {
+  const scheme = options.colorScheme === 'auto'
+    ? (prefersDark ? 'dark' : 'light')
+    : options.colorScheme;
+  const variant: ColorSchemeVariant = options.schemes[scheme] ?? {};
+
+  let { background, groundColor } = options;
+  if (scheme === 'dark') {
+    if (background === COLORS.CANVAS_BACKGROUND) background = COLORS.DARK_CANVAS_BACKGROUND;
+    if (groundColor === COLORS.GROUND_COLOR) groundColor = COLORS.DARK_GROUND_COLOR;
+  }
+
+  return {
+    ...options,
+    colorScheme: scheme,
+    colors: { ...options.colors, ...variant.colors },
+    background: variant.background ?? background,
+    groundColor: variant.groundColor ?? groundColor,
+  };
+}
+
@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createDepthSampler, hazePlant, resolveDepth, resolveHazeColor } from './depth';
+import { Color } from './Color';
+import { generatePlants } from './plants';
+import { resolveDetachedOptions } from './defaults';
+
+describe('resolveDepth', () => {
+  it('should default to a single row and accept a number of rows', () => {
+    expect(resolveDepth(undefined)).toEqual({
+      layers: 1, scale: 0.6, lift: 0.08, haze: 0.5, hazeColor: null, blur: 0, parallax: 0,
+    });
+    expect(resolveDepth(3).layers).toBe(3);
+  });
+
+  it('should clamp settings', () => {
+    expect(resolveDepth({ layers: 20.4, scale: 0, lift: 1, haze: 2, blur: -1, parallax: 1 })).toMatchObject({
+      layers: 8, scale: 0.1, lift: 0.5, haze: 1, blur: 0, parallax: 0.2,
+    });
+    expect(resolveDepth(NaN).layers).toBe(1);
+  });
+});
+
+describe('createDepthSampler', () => {
+  it('should spread plants over evenly spaced rows, deterministically per seed', () => {
+    const rows = (seed: number) => {
+      const sample = createDepthSampler(3, seed);
+      return Array.from({ length: 60 }, () => sample());
+    };
+
+    expect(rows(42)).toEqual(rows(42));
+    expect(rows(42)).not.toEqual(rows(7));
+    expect(new Set(rows(42))).toEqual(new Set([0, 0.5, 1]));
+    expect(createDepthSampler(1, 42)()).toBe(0);
+  });
+});
+
+describe('haze', () => {
+  it('should tint toward the haze color, the background or a gradient average', () => {
+    const depth = resolveDepth(3);
+
+    expect(resolveHazeColor({ ...depth, hazeColor: '#336699' }, '#ffffff')?.toHex()).toBe('#336699');
+    expect(resolveHazeColor(depth, '#ffffff')?.toHex()).toBe('#ffffff');
+    expect(resolveHazeColor(depth, 'transparent')).toBeNull();
+    expect(resolveHazeColor(depth, () => {})).toBeNull();
+    const gradient = resolveHazeColor(depth, {
+      type: 'linear',
+      stops: [{ offset: 0, color: '#000000' }, { offset: 0.5, color: '#000000' }, { offset: 1, color: '#ffffff' }],
+    });
+    expect(gradient?.toHex()).toBe('#555555');
+  });
+
+  it('should desaturate and tint plant colors, reusing copies for the same haze', () => {
+    const [plant] = generatePlants(resolveDetachedOptions({ seed: 42, generations: 1 }));
+    const white = Color.parse('#ffffff');
+    const hazed = hazePlant(plant, 0.5, white);
+
+    expect(hazePlant(plant, 0, white)).toBe(plant);
+    expect(hazePlant(plant, 0.5, white)).toBe(hazed);
+    expect(hazed.flowerColor).not.toBe(plant.flowerColor);
+    const hsl = (color: string) => Color.parse(color)!.toHSL();
+    expect(hsl(hazed.leafColor).l).toBeGreaterThan(hsl(plant.leafColor).l);
+    expect(hazed.x).toBe(plant.x);
+  });
+});
+
+describe('depth and plant generation', () => {
+  it('should give each plant a row without changing the plants', () => {
+    const flat = generatePlants(resolveDetachedOptions({ seed: 42, generations: 4 }));
+    const deep = generatePlants(resolveDetachedOptions({ seed: 42, generations: 4, depth: 3 }));
+
+    expect(flat.every((p) => p.depth === 0)).toBe(true);
+    expect(new Set(deep.map((p) => p.depth))).toEqual(new Set([0, 0.5, 1]));
+    const byId = new Map(flat.map((p) => [p.id, p]));
+    for (const plant of deep) {
+      expect({ ...plant, depth: 0 }).toEqual(byId.get(plant.id));
+    }
+  });
+
+  it('should sort back rows first, then by height', () => {
+    const plants = generatePlants(resolveDetachedOptions({ seed: 42, generations: 4, depth: 4 }));
+
+    for (let i = 1; i < plants.length; i++) {
+      const [a, b] = [plants[i - 1], plants[i]];
+      expect(a.depth!).toBeGreaterThanOrEqual(b.depth!);
+      if (a.depth === b.depth) expect(a.maxHeight).toBeLessThanOrEqual(b.maxHeight);
+    }
+  });
+});
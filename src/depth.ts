@@ -0,0 +1,133 @@
+/**
+ * Depth - Rows of plants receding from the viewer
+ * Plants are assigned a row on their own random stream, so adding depth never
+ * changes which plants grow or where. Rows are drawn back to front: smaller,
+ * higher on the ground and hazier toward the back.
+ */
+
+import type { DepthOptions, GardenBackground, GardenOptions, PlantData, ResolvedDepth } from './types';
+import { createRandom, clamp } from './utils';
+import { Color } from './Color';
+import { DEPTH, OPTION_BOUNDS } from './constants';
+
+/** Offset of the depth random stream from the plant, terrain and distribution streams */
+const DEPTH_SEED_OFFSET = -15485863;
+
+/**
+ * Clamp a depth setting to its bounds, falling back to a default when missing or invalid
+ */
+function clampSetting(value: number | undefined, fallback: number, bounds: { min: number; max: number }): number {
+  return clamp(typeof value === 'number' && Number.isFinite(value) ? value : fallback, bounds.min, bounds.max);
+}
+
+/**
+ * Resolve the depth option, filling in defaults
+ */
+export function resolveDepth(depth: GardenOptions['depth']): ResolvedDepth {
+  const spec: DepthOptions = typeof depth === 'object' && depth !== null ? depth : { layers: depth ?? 1 };
+
+  return {
+    layers: Math.round(clampSetting(spec.layers, 1, OPTION_BOUNDS.DEPTH_LAYERS)),
+    scale: clampSetting(spec.scale, DEPTH.DEFAULT_SCALE, OPTION_BOUNDS.DEPTH_SCALE),
+    lift: clampSetting(spec.lift, DEPTH.DEFAULT_LIFT, OPTION_BOUNDS.DEPTH_LIFT),
+    haze: clampSetting(spec.haze, DEPTH.DEFAULT_HAZE, OPTION_BOUNDS.DEPTH_HAZE),
+    hazeColor: spec.hazeColor ?? null,
+    blur: clampSetting(spec.blur, 0, OPTION_BOUNDS.DEPTH_BLUR),
+    parallax: clampSetting(spec.parallax, 0, OPTION_BOUNDS.PARALLAX),
+  };
+}
+
+/**
+ * Turn a resolved depth back into options
+ */
+export function toDepthOptions<T extends Pick<ResolvedDepth, 'hazeColor'>>(
+  depth: T
+): Omit<T, 'hazeColor'> & Pick<DepthOptions, 'hazeColor'> {
+  return { ...depth, hazeColor: depth.hazeColor ?? undefined };
+}
+
+/**
+ * Whether a garden has more than one row, and so parallax to track
+ */
+export function hasParallax(depth: ResolvedDepth): boolean {
+  return depth.layers > 1 && depth.parallax > 0;
+}
+
+/**
+ * Create the source of plants' rows for a number of layers and a seed
+ * @returns A function giving the next plant's depth: 0 at the front to 1 at the back
+ */
+export function createDepthSampler(layers: number, seed: number): () => number {
+  if (layers <= 1) return () => 0;
+
+  const rand = createRandom(seed + DEPTH_SEED_OFFSET);
+  return () => Math.min(layers - 1, Math.floor(rand() * layers)) / (layers - 1);
+}
+
+/**
+ * Size of a row relative to the front one
+ */
+export function getRowScale(depth: ResolvedDepth, row: number): number {
+  return 1 - (1 - depth.scale) * row;
+}
+
+/**
+ * Height of a row above the ground, as a fraction of the garden depth
+ */
+export function getRowLift(depth: ResolvedDepth, row: number): number {
+  return depth.lift * row;
+}
+
+/**
+ * Color back rows are tinted toward: the hazeColor setting, otherwise a
+ * background color or the average of a gradient's stops
+ * @returns The color, or null to only desaturate (transparent or callback backgrounds)
+ */
+export function resolveHazeColor(depth: ResolvedDepth, background: GardenBackground | null): Color | null {
+  if (depth.hazeColor) return Color.parse(depth.hazeColor);
+  if (typeof background === 'string') {
+    return background === 'transparent' ? null : Color.parse(background);
+  }
+  if (!background || typeof background === 'function' || background.stops.length === 0) return null;
+
+  const stops = background.stops.map((stop) => Color.parse(stop.color)).filter((color): color is Color => !!color);
+  if (stops.length === 0) return null;
+  // Running mean: each stop moves the mix by its share
+  return stops.reduce((mean, color, i) => mean.mix(color, 1 / (i + 1)));
+}
+
+/** Hazed copies of plants, keyed by the haze they were made for */
+const hazedPlants = new WeakMap<PlantData, { key: string; plant: PlantData }>();
+
+/**
+ * Desaturate a color and tint it toward the haze color
+ * Unparseable colors are returned unchanged.
+ */
+function hazeColor(color: string, amount: number, haze: Color | null): string {
+  const parsed = Color.parse(color);
+  if (!parsed) return color;
+  const faded = parsed.desaturate(amount);
+  return (haze ? faded.mix(haze, amount) : faded).toHex();
+}
+
+/**
+ * The plant with its colors hazed for its row
+ * Copies are cached per plant, so each is only hazed once per haze color.
+ * @param amount - Desaturation and tint (0-1)
+ */
+export function hazePlant(plant: PlantData, amount: number, haze: Color | null): PlantData {
+  if (amount <= 0) return plant;
+
+  const key = `${amount}|${haze ? haze.toHex() : ''}`;
+  const cached = hazedPlants.get(plant);
+  if (cached?.key === key) return cached.plant;
+
+  const hazed = {
+    ...plant,
+    flowerColor: hazeColor(plant.flowerColor, amount, haze),
+    stemColor: hazeColor(plant.stemColor, amount, haze),
+    leafColor: hazeColor(plant.leafColor, amount, haze),
+  };
+  hazedPlants.set(plant, { key, plant: hazed });
+  return hazed;
+}
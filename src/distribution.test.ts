@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createPositionSampler, resolveDistribution } from './distribution';
+import { generatePlants } from './plants';
+import { resolveDetachedOptions } from './defaults';
+import type { GardenOptions } from './types';
+
+const BASE = { seed: 42, generations: 8 };
+
+function plantsWith(distribution: GardenOptions['distribution'], options: Partial<GardenOptions> = {}) {
+  return generatePlants(resolveDetachedOptions({ ...BASE, ...options, distribution }));
+}
+
+/** Share of positions within 0.2 of the middle */
+function middleShare(positions: number[]): number {
+  return positions.filter((x) => Math.abs(x - 0.5) < 0.2).length / positions.length;
+}
+
+describe('resolveDistribution', () => {
+  it('should default to uniform with a gap based on the plant count', () => {
+    expect(resolveDistribution(undefined)).toEqual({ mode: 'uniform', minGap: null, clusters: 3, spread: 0.06 });
+    expect(resolveDistribution('poisson').mode).toBe('poisson');
+  });
+
+  it('should clamp settings', () => {
+    expect(resolveDistribution({ mode: 'clusters', clusters: 99.4, spread: 0 })).toMatchObject({
+      clusters: 20, spread: 0.01,
+    });
+    expect(resolveDistribution({ mode: 'poisson', minGap: 2 }).minGap).toBe(0.25);
+    expect(resolveDistribution({ mode: 'poisson', minGap: NaN }).minGap).toBeNull();
+  });
+});
+
+describe('createPositionSampler', () => {
+  const space = { segments: 1, wraps: false, count: 40 };
+
+  it('should keep every mode within 0-1 and deterministic per seed', () => {
+    const draws = Array.from({ length: 40 }, (_, i) => (i * 0.618) % 1);
+    for (const mode of ['uniform', 'poisson', 'edges', 'clusters'] as const) {
+      const a = draws.map(createPositionSampler(resolveDistribution(mode), 42, space));
+      const b = draws.map(createPositionSampler(resolveDistribution(mode), 42, space));
+
+      expect(a).toEqual(b);
+      expect(Math.min(...a)).toBeGreaterThanOrEqual(0);
+      expect(Math.max(...a)).toBeLessThan(1);
+    }
+  });
+
+  it('should follow a density function and fall back to uniform when it is empty', () => {
+    const sample = createPositionSampler(resolveDistribution((x) => (x < 0.75 ? 0 : 1)), 42, space);
+    expect([0, 0.3, 0.99].every((u) => sample(u) >= 0.75)).toBe(true);
+
+    const empty = createPositionSampler(resolveDistribution(() => NaN), 42, space);
+    expect(empty(0.3)).toBe(0.3);
+  });
+
+  it('should repeat density maps on every edge of a frame', () => {
+    const sample = createPositionSampler(resolveDistribution((x) => (x < 0.5 ? 1 : 0)), 42, { ...space, segments: 4 });
+    const local = [0.1, 0.35, 0.6, 0.9].map((u) => (sample(u) * 4) % 1);
+
+    expect(local.every((x) => x < 0.5)).toBe(true);
+  });
+});
+
+describe('distribution and plant generation', () => {
+  it('should only move plants, keeping every other property', () => {
+    const uniform = plantsWith(undefined);
+    const strip = ({ x, ...rest }: (typeof uniform)[number]) => rest;
+
+    expect(plantsWith('uniform')).toEqual(uniform);
+    for (const mode of ['poisson', 'edges', 'clusters'] as const) {
+      const plants = plantsWith(mode);
+      expect(plants).toEqual(plantsWith(mode));
+      expect(plants.map((p) => p.x)).not.toEqual(uniform.map((p) => p.x));
+      const byId = new Map(plants.map((p) => [p.id, strip(p)]));
+      for (const plant of uniform) expect(byId.get(plant.id)).toEqual(strip(plant));
+    }
+  });
+
+  it('should keep poisson plants at least the minimum gap apart', () => {
+    const positions = plantsWith({ mode: 'poisson', minGap: 0.01 }, { density: 'sparse' })
+      .map((p) => p.x)
+      .sort((a, b) => a - b);
+    const gaps = positions.slice(1).map((x, i) => x - positions[i]);
+
+    expect(Math.min(...gaps)).toBeGreaterThanOrEqual(0.01);
+  });
+
+  it('should spread poisson plants more evenly than uniform ones', () => {
+    const smallestGap = (distribution: GardenOptions['distribution']) => {
+      const positions = plantsWith(distribution).map((p) => p.x).sort((a, b) => a - b);
+      return Math.min(...positions.slice(1).map((x, i) => x - positions[i]));
+    };
+
+    expect(smallestGap('poisson')).toBeGreaterThan(smallestGap('uniform') * 5);
+  });
+
+  it('should keep the middle clear with edges', () => {
+    const uniform = plantsWith('uniform').map((p) => p.x);
+    const edges = plantsWith('edges').map((p) => p.x);
+
+    expect(middleShare(edges)).toBeLessThan(middleShare(uniform) / 2);
+  });
+
+  it('should favour the left and right of a radial garden with edges', () => {
+    const positions = plantsWith('edges', { anchor: { type: 'radial' } }).map((p) => p.x);
+    // Within an eighth of a turn of the top or bottom
+    const poles = positions.filter((x) => Math.abs(Math.sin(x * Math.PI * 2)) < Math.SQRT1_2).length;
+
+    expect(poles / positions.length).toBeLessThan(0.3);
+  });
+
+  it('should group plants into the requested number of clusters', () => {
+    const occupied = (distribution: GardenOptions['distribution']) =>
+      new Set(plantsWith(distribution).map((p) => Math.floor(p.x * 20))).size;
+
+    expect(occupied({ mode: 'clusters', clusters: 2, spread: 0.03 })).toBeLessThanOrEqual(8);
+    expect(occupied('uniform')).toBeGreaterThan(15);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Distribution - Where plants fall along their edge
+ * Each plant's own position draw (0-1) is mapped through the distribution, so
+ * plants keep their type, height, colors and timing whatever the mode. Cluster
+ * centers and poisson candidates come from their own random stream.
+ */
+
+import type {
+  DistributionFunction,
+  DistributionOptions,
+  GardenOptions,
+  ResolvedDistribution,
+} from './types';
+import { createRandom, clamp } from './utils';
+import { DISTRIBUTION, OPTION_BOUNDS } from './constants';
+
+/**
+ * Maps a plant's 0-1 position draw to its position along the anchor
+ */
+export type PositionSampler = (u: number) => number;
+
+/**
+ * Shape of the positions a sampler maps onto
+ * segments is the number of edges sharing the range (4 for a frame), each
+ * getting its own copy of a density map; wraps is true when the range is a
+ * closed loop, as around a frame or a circle.
+ */
+export interface PositionSpace {
+  segments: number;
+  wraps: boolean;
+  /** Plants expected in the garden, used to space 'poisson' plants */
+  count: number;
+}
+
+/** Offset of the distribution's random stream from the plant and terrain streams */
+const DISTRIBUTION_SEED_OFFSET = -104729;
+
+/**
+ * Resolve the distribution option, filling in defaults
+ */
+export function resolveDistribution(distribution: GardenOptions['distribution']): ResolvedDistribution {
+  const spec = typeof distribution === 'object' && distribution !== null
+    ? distribution
+    : { mode: distribution ?? 'uniform' };
+  const gap = OPTION_BOUNDS.DISTRIBUTION_GAP;
+  const clusters = OPTION_BOUNDS.DISTRIBUTION_CLUSTERS;
+  const spread = OPTION_BOUNDS.DISTRIBUTION_SPREAD;
+
+  return {
+    mode: spec.mode,
+    minGap: typeof spec.minGap === 'number' && Number.isFinite(spec.minGap)
+      ? clamp(spec.minGap, gap.min, gap.max)
+      : null,
+    clusters: Math.round(clamp(spec.clusters ?? DISTRIBUTION.DEFAULT_CLUSTERS, clusters.min, clusters.max)),
+    spread: clamp(spec.spread ?? DISTRIBUTION.DEFAULT_CLUSTER_SPREAD, spread.min, spread.max),
+  };
+}
+
+/**
+ * Turn a resolved distribution back into options
+ */
+export function toDistributionOptions<T extends Pick<ResolvedDistribution, 'minGap'>>(
+  distribution: T
+): Omit<T, 'minGap'> & Pick<DistributionOptions, 'minGap'> {
+  return { ...distribution, minGap: distribution.minGap ?? undefined };
+}
+
+/**
+ * Distance between two positions, the short way round when they wrap
+ */
+function distance(a: number, b: number, wraps: boolean): number {
+  const d = Math.abs(a - b);
+  return wraps ? Math.min(d, 1 - d) : d;
+}
+
+/**
+ * Sample positions in proportion to a density over 0-1 (inverse transform)
+ * Falls back to uniform if the density is zero everywhere.
+ */
+function createDensitySampler(density: (x: number) => number): PositionSampler {
+  const samples = DISTRIBUTION.DENSITY_SAMPLES;
+  // cumulative[i] is the share of the density before sample i
+  const cumulative = new Float64Array(samples + 1);
+  for (let i = 0; i < samples; i++) {
+    const value = density((i + 0.5) / samples);
+    cumulative[i + 1] = cumulative[i] + (Number.isFinite(value) && value > 0 ? value : 0);
+  }
+  const total = cumulative[samples];
+  if (!(total > 0)) return (u) => u;
+
+  return (u) => {
+    const target = clamp(u, 0, 1) * total;
+    // First sample whose cumulative share passes the target, skipping empty ones
+    let low = 0;
+    let high = samples - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid + 1] <= target) low = mid + 1;
+      else high = mid;
+    }
+    const width = cumulative[low + 1] - cumulative[low];
+    const within = width > 0 ? (target - cumulative[low]) / width : 0;
+    // Stay below 1 so the last edge of a frame keeps its plants
+    return Math.min((low + within) / samples, 1 - Number.EPSILON);
+  };
+}
+
+/**
+ * Repeat a density for each segment, so every edge of a frame gets a copy
+ */
+function perSegment(density: DistributionFunction, segments: number): (x: number) => number {
+  if (segments <= 1) return density;
+  return (x) => {
+    const t = x * segments;
+    return density(t - Math.min(segments - 1, Math.floor(t)));
+  };
+}
+
+/**
+ * Density rising from the middle (side 0) to the sides (side 1)
+ */
+function sideDensity(side: number): number {
+  return DISTRIBUTION.EDGES_CENTER_DENSITY + (1 - DISTRIBUTION.EDGES_CENTER_DENSITY) * side * side;
+}
+
+/**
+ * Density rising from the middle of an edge to its ends
+ */
+function edgesDensity(x: number): number {
+  return sideDensity(Math.abs(x * 2 - 1));
+}
+
+/**
+ * Density rising toward the left and right of a circle, a quarter turn from the top
+ */
+function circleSidesDensity(x: number): number {
+  return sideDensity(Math.abs(Math.sin(x * Math.PI * 2)));
+}
+
+/**
+ * Density of a few groups around seeded centers
+ * Centers are spread out first, then jittered, so groups rarely merge.
+ */
+function createClustersDensity(
+  distribution: ResolvedDistribution,
+  rand: () => number,
+  wraps: boolean
+): (x: number) => number {
+  const { clusters, spread } = distribution;
+  const centers = Array.from({ length: clusters }, (_, i) =>
+    (i + 0.5 + (rand() - 0.5) * DISTRIBUTION.CLUSTER_JITTER) / clusters
+  );
+
+  return (x) => {
+    let sum = 0;
+    for (const center of centers) {
+      const d = distance(x, center, wraps) / spread;
+      sum += Math.exp(-0.5 * d * d);
+    }
+    return sum;
+  };
+}
+
+/**
+ * Space plants at least a minimum gap apart, in the order they are placed
+ * Each plant tries its own draw first, then candidates from the stream,
+ * keeping the first that is clear, or the most spaced one if none is.
+ * Placed positions are bucketed by the gap, so only neighbors are checked.
+ */
+function createPoissonSampler(gap: number, rand: () => number, wraps: boolean): PositionSampler {
+  if (!(gap > 0)) return (u) => u;
+
+  const bucketCount = Math.max(1, Math.floor(1 / gap));
+  const buckets: number[][] = Array.from({ length: bucketCount }, () => []);
+  const bucketOf = (x: number): number => Math.min(bucketCount - 1, Math.floor(x * bucketCount));
+
+  // Distance to the nearest placed position, up to the gap
+  const clearance = (x: number): number => {
+    let nearest = gap;
+    const bucket = bucketOf(x);
+    for (let offset = -1; offset <= 1; offset++) {
+      let index = bucket + offset;
+      if (wraps) index = (index + bucketCount) % bucketCount;
+      else if (index < 0 || index >= bucketCount) continue;
+      for (const placed of buckets[index]) {
+        nearest = Math.min(nearest, distance(x, placed, wraps));
+      }
+    }
+    return nearest;
+  };
+
+  return (u) => {
+    let best = u;
+    let bestClearance = clearance(u);
+    for (let i = 1; i < DISTRIBUTION.POISSON_CANDIDATES && bestClearance < gap; i++) {
+      const candidate = rand();
+      const candidateClearance = clearance(candidate);
+      if (candidateClearance > bestClearance) {
+        best = candidate;
+        bestClearance = candidateClearance;
+      }
+    }
+    buckets[bucketOf(best)].push(best);
+    return best;
+  };
+}
+
+/**
+ * Create the sampler mapping plants' position draws for a distribution and seed
+ * Poisson samplers remember the positions they have given out, so create one
+ * per generation run and call it for plants in order.
+ */
+export function createPositionSampler(
+  distribution: ResolvedDistribution,
+  seed: number,
+  space: PositionSpace
+): PositionSampler {
+  const { mode } = distribution;
+  if (typeof mode === 'function') {
+    return createDensitySampler(perSegment(mode, space.segments));
+  }
+
+  const rand = createRandom(seed + DISTRIBUTION_SEED_OFFSET);
+  switch (mode) {
+    case 'poisson': {
+      const gap = distribution.minGap ?? DISTRIBUTION.POISSON_GAP_RATIO / Math.max(1, space.count);
+      return createPoissonSampler(gap, rand, space.wraps);
+    }
+    case 'edges':
+      // A lone wrapping segment is a circle, whose sides are left and right
+      return createDensitySampler(
+        space.wraps && space.segments === 1 ? circleSidesDensity : perSegment(edgesDensity, space.segments)
+      );
+    case 'clusters':
+      return createDensitySampler(createClustersDensity(distribution, rand, space.wraps));
+    default:
+      return (u) => u;
+  }
+}
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { exportFrames, exportPNGSequence, exportAnimation } from './exporter';
+import { renderGarden } from './headless';
+import { createRecordingCanvas } from './test-utils';
+
+const baseOptions = {
+  createCanvas: createRecordingCanvas,
+  width: 60,
+  height: 30,
+  seed: 42,
+  duration: 1,
+  generations: 2,
+};
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('exportFrames', () => {
+  it('should render frames at a fixed rate, including the end', async () => {
+    const frames = await collect(exportFrames({ ...baseOptions, fps: 4 }));
+
+    expect(frames.map((f) => f.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(frames.map((f) => f.time)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(frames[0].imageData.width).toBe(60);
+    expect(frames[0].imageData.height).toBe(30);
+  });
+
+  it('should limit frames to the requested range', async () => {
+    const frames = await collect(exportFrames({ ...baseOptions, fps: 10, from: 0.5, to: 0.7 }));
+
+    expect(frames.map((f) => f.time)).toEqual([0.5, 0.6, 0.7]);
+  });
+
+  it('should draw each frame exactly as renderGarden does at that time', async () => {
+    let canvas: ReturnType<typeof createRecordingCanvas> | undefined;
+    const createCanvas = (w: number, h: number) => (canvas = createRecordingCanvas(w, h));
+
+    await collect(exportFrames({ ...baseOptions, createCanvas, fps: 2, pixelRatio: 2 }));
+    const single = renderGarden({ ...baseOptions, time: 0.5, pixelRatio: 2 });
+
+    expect(canvas?.width).toBe(120);
+    expect(canvas?.frames[1]).toEqual(single.calls);
+  });
+
+  it('should reject invalid rates, ranges and canvases without pixel readback', async () => {
+    await expect(collect(exportFrames({ ...baseOptions, fps: 0 }))).rejects.toThrow('Garten:');
+    await expect(collect(exportFrames({ ...baseOptions, from: 0.8, to: 0.2 }))).rejects.toThrow('Garten:');
+    await expect(collect(exportFrames({ ...baseOptions, width: 0 }))).rejects.toThrow('Garten:');
+
+    const noReadback = (width: number, height: number) => ({
+      width,
+      height,
+      getContext: () => ({ setTransform: () => {} }) as unknown as CanvasRenderingContext2D,
+    });
+    await expect(collect(exportFrames({ ...baseOptions, createCanvas: noReadback }))).rejects.toThrow(
+      'Garten:'
+    );
+  });
+});
+
+describe('exportPNGSequence', () => {
+  it('should yield one PNG blob per frame', async () => {
+    const frames = await collect(exportPNGSequence({ ...baseOptions, fps: 2 }));
+
+    expect(frames.map((f) => f.time)).toEqual([0, 0.5, 1]);
+    for (const frame of frames) {
+      expect(frame.blob.type).toBe('image/png');
+      const signature = new Uint8Array(await frame.blob.arrayBuffer()).subarray(1, 4);
+      expect(String.fromCharCode(...signature)).toBe('PNG');
+    }
+  });
+});
+
+describe('exportAnimation', () => {
+  it('should encode every frame into one animated PNG', async () => {
+    const blob = await exportAnimation({ ...baseOptions, fps: 4, plays: 1 });
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    expect(blob.type).toBe('image/apng');
+    // acTL follows the 8-byte signature and 25-byte IHDR chunk
+    expect(String.fromCharCode(...bytes.subarray(37, 41))).toBe('acTL');
+    expect(view.getUint32(41)).toBe(5);
+    expect(view.getUint32(45)).toBe(1);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Exporter - Render a garden as a sequence of frames at a fixed frame rate
+ * Builds on headless rendering, so frame sequences, PNG sequences and animated
+ * PNGs can be produced in CI as well as in the browser.
+ */
+
+import type { PlantData } from './types';
+import { resolveColorScheme, resolveDetachedOptions } from './defaults';
+import { generatePlants } from './plants';
+import { createAvoidLayout } from './avoid';
+import { drawScene, validateSize } from './scene';
+import { GrowthProgressPool } from './GrowthProgressPool';
+import type { HeadlessCanvas, HeadlessRenderOptions } from './headless';
+import { encodeAPNG, encodePNG, type RGBAImage } from './png';
+import { clamp, prefersDarkMode } from './utils';
+
+/**
+ * Options for exportFrames() and the encoders built on it
+ * Accepts the same garden options as renderGarden(), except a single time or progress.
+ */
+export interface FrameExportOptions<T extends HeadlessCanvas = HeadlessCanvas>
+  extends Omit<HeadlessRenderOptions<T>, 'time' | 'progress'> {
+  /**
+   * Frames per second
+   * @default 30
+   */
+  fps?: number;
+
+  /**
+   * First time to render, in seconds
+   * @default 0
+   */
+  from?: number;
+
+  /**
+   * Last time to render, in seconds (included when it falls on a frame)
+   * @default duration
+   */
+  to?: number;
+}
+
+/**
+ * One rendered frame
+ */
+export interface ExportedFrame {
+  /** Frame number, from 0 */
+  index: number;
+
+  /** Timeline time of the frame, in seconds */
+  time: number;
+
+  /** Pixels of the frame, width x height times the pixel ratio */
+  imageData: ImageData;
+}
+
+/**
+ * One frame of a PNG sequence
+ */
+export interface ExportedPNGFrame {
+  /** Frame number, from 0 */
+  index: number;
+
+  /** Timeline time of the frame, in seconds */
+  time: number;
+
+  /** PNG image of the frame */
+  blob: Blob;
+}
+
+/**
+ * Options for exportAnimation()
+ */
+export interface AnimationExportOptions<T extends HeadlessCanvas = HeadlessCanvas>
+  extends FrameExportOptions<T> {
+  /**
+   * Number of times to play, 0 for forever
+   * @default 0
+   */
+  plays?: number;
+}
+
+/**
+ * Render frames at a fixed rate over a time range
+ * Frame i is drawn at exactly from + i / fps, with the same plants and drawing
+ * as Garten, so a given seed always produces the same frames.
+ * @throws {Error} If the size, fps or range is invalid, or the canvas cannot read back pixels
+ *
+ * @example
+ * ```typescript
+ * import { createCanvas } from 'canvas';
+ * import { exportFrames } from 'garten/headless';
+ *
+ * for await (const frame of exportFrames({ createCanvas, width: 640, height: 360, seed: 42 })) {
+ *   videoEncoder.addFrame(frame.imageData);
+ * }
+ * ```
+ */
+export async function* exportFrames<T extends HeadlessCanvas>(
+  options: FrameExportOptions<T>
+): AsyncGenerator<ExportedFrame, void, undefined> {
+  const { createCanvas, width, height, pixelRatio = 1, fps = 30, from, to, ...gardenOptions } = options;
+
+  validateSize(width, height);
+  if (!(pixelRatio > 0) || !Number.isFinite(pixelRatio)) {
+    throw new Error('Garten: pixelRatio must be a positive number');
+  }
+  if (!(fps > 0) || !Number.isFinite(fps)) {
+    throw new Error('Garten: fps must be a positive number');
+  }
+
+  const resolved = resolveColorScheme(resolveDetachedOptions(gardenOptions), prefersDarkMode());
+  const start = clamp(from ?? 0, 0, resolved.duration);
+  const end = clamp(to ?? resolved.duration, 0, resolved.duration);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start > end) {
+    throw new Error('Garten: Export range must satisfy 0 <= from <= to');
+  }
+
+  const canvas = createCanvas(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Garten: Could not get a 2D context from the headless canvas');
+  }
+  if (typeof ctx.getImageData !== 'function') {
+    throw new Error('Garten: The headless canvas cannot read back pixels (getImageData)');
+  }
+
+  const plants: PlantData[] = generatePlants({
+    ...resolved,
+    avoidLayout: createAvoidLayout(resolved.avoid, width, height),
+  });
+  const pool = new GrowthProgressPool();
+  // Tolerance so a range that is a whole number of frames includes its end
+  const frameCount = Math.floor((end - start) * fps + 1e-9) + 1;
+
+  for (let index = 0; index < frameCount; index++) {
+    const time = start + index / fps;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.scale(pixelRatio, pixelRatio);
+    pool.beginFrame();
+    try {
+      drawScene(ctx, plants, width, height, time, resolved, pool);
+    } finally {
+      pool.endFrame();
+    }
+
+    yield { index, time, imageData: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+  }
+}
+
+/**
+ * Render frames as a sequence of PNG blobs
+ * Encoding is built in, so no canvas toBlob() support is needed.
+ *
+ * @example
+ * ```typescript
+ * for await (const { index, blob } of exportPNGSequence({ createCanvas, width: 640, height: 360 })) {
+ *   fs.writeFileSync(`frame-${String(index).padStart(4, '0')}.png`, Buffer.from(await blob.arrayBuffer()));
+ * }
+ * ```
+ */
+export async function* exportPNGSequence<T extends HeadlessCanvas>(
+  options: FrameExportOptions<T>
+): AsyncGenerator<ExportedPNGFrame, void, undefined> {
+  for await (const { index, time, imageData } of exportFrames(options)) {
+    yield { index, time, blob: await encodePNG(imageData) };
+  }
+}
+
+/**
+ * Render frames into one animated PNG (APNG)
+ * @returns Blob of type 'image/apng'; browsers without APNG support show the first frame
+ *
+ * @example
+ * ```typescript
+ * const apng = await exportAnimation({ createCanvas, width: 480, height: 270, fps: 15, seed: 42 });
+ * previewImage.src = URL.createObjectURL(apng);
+ * ```
+ */
+export async function exportAnimation<T extends HeadlessCanvas>(
+  options: AnimationExportOptions<T>
+): Promise<Blob> {
+  const { plays, ...frameOptions } = options;
+  const fps = frameOptions.fps ?? 30;
+
+  async function* images(): AsyncGenerator<RGBAImage, void, undefined> {
+    for await (const frame of exportFrames(frameOptions)) {
+      yield frame.imageData;
+    }
+  }
+
+  return encodeAPNG(images(), { fps, plays });
+}
@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { renderGarden, renderToSVG, type HeadlessCanvas } from './headless';
+import { PLANT_CATEGORIES } from './plants';
+import { createRecordingCanvas } from './test-utils';
+
+const baseOptions = {
+  createCanvas: createRecordingCanvas,
+  width: 600,
+  height: 300,
+  seed: 42,
+  duration: 10,
+  generations: 5,
+};
+
+describe('renderGarden', () => {
+  it('should render without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+    expect(typeof requestAnimationFrame).toBe('undefined');
+
+    const canvas = renderGarden(baseOptions);
+
+    expect(canvas.calls.length).toBeGreaterThan(0);
+    expect(canvas.calls[0]).toEqual({ method: 'setTransform', args: [1, 0, 0, 1, 0, 0] });
+  });
+
+  it('should size the canvas by the pixel ratio and scale the context', () => {
+    const canvas = renderGarden({ ...baseOptions, pixelRatio: 2 });
+
+    expect(canvas.width).toBe(1200);
+    expect(canvas.height).toBe(600);
+    expect(canvas.calls).toContainEqual({ method: 'scale', args: [2, 2] });
+  });
+
+  it('should draw the same frame for the same seed and time', () => {
+    const a = renderGarden({ ...baseOptions, time: 6 });
+    const b = renderGarden({ ...baseOptions, time: 6 });
+    const other = renderGarden({ ...baseOptions, time: 6, seed: 7 });
+
+    expect(a.calls).toEqual(b.calls);
+    expect(a.calls).not.toEqual(other.calls);
+  });
+
+  it('should treat progress as a fraction of the duration', () => {
+    const byTime = renderGarden({ ...baseOptions, time: 5 });
+    const byProgress = renderGarden({ ...baseOptions, progress: 0.5 });
+
+    expect(byProgress.calls).toEqual(byTime.calls);
+  });
+
+  it('should draw more as the garden grows, fully grown by default', () => {
+    const empty = renderGarden({ ...baseOptions, progress: 0 });
+    const half = renderGarden({ ...baseOptions, progress: 0.5 });
+    const grown = renderGarden(baseOptions);
+    const end = renderGarden({ ...baseOptions, time: 10 });
+
+    expect(empty.calls.length).toBeLessThan(half.calls.length);
+    expect(half.calls.length).toBeLessThan(grown.calls.length);
+    expect(grown.calls).toEqual(end.calls);
+  });
+
+  it('should reject invalid sizes and canvases without a 2D context', () => {
+    expect(() => renderGarden({ ...baseOptions, width: 0 })).toThrow('Garten:');
+    expect(() => renderGarden({ ...baseOptions, height: NaN })).toThrow('Garten:');
+    expect(() => renderGarden({ ...baseOptions, pixelRatio: -1 })).toThrow('Garten:');
+
+    const noContext = (): HeadlessCanvas => ({ width: 0, height: 0, getContext: () => null });
+    expect(() => renderGarden({ ...baseOptions, createCanvas: noContext })).toThrow('Garten:');
+  });
+});
+
+describe('renderToSVG', () => {
+  const svgOptions = { width: 600, height: 300, seed: 42, duration: 10, generations: 5 };
+
+  it('should render a vector document without a DOM', () => {
+    const svg = renderToSVG(svgOptions);
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="600" height="300"')).toBe(true);
+    expect(svg.endsWith('</svg>')).toBe(true);
+    expect(svg).not.toContain('NaN');
+    expect(svg).not.toContain('<image');
+  });
+
+  it('should include the ground strip and the vertical fade', () => {
+    const svg = renderToSVG({ ...svgOptions, maxHeight: 0.5, fadeHeight: 0.2 });
+
+    // Ground strip along the bottom edge
+    expect(svg).toContain('d="M0 292L600 292L600 300L0 300Z" fill="#8b7765" fill-opacity="0.08"');
+    // Fade masks out everything above the plant area with a gradient
+    expect(svg).toMatch(/<mask id="m\d+"[^>]*>.*fill="url\(#g\d+\)"/);
+    expect(svg).toContain('y1="90" x2="0" y2="150"');
+  });
+
+  it('should draw every plant category as vector paths', () => {
+    // Full height so tall categories are not filtered out
+    const options = { ...svgOptions, maxHeight: 1 };
+    for (const category of PLANT_CATEGORIES) {
+      const empty = renderToSVG({ ...options, categories: [category], progress: 0 });
+      const grown = renderToSVG({ ...options, categories: [category] });
+
+      expect(grown.length, category).toBeGreaterThan(empty.length);
+      expect(grown, category).not.toContain('NaN');
+    }
+  });
+
+  it('should produce the same document for the same seed and time', () => {
+    expect(renderToSVG({ ...svgOptions, time: 6 })).toBe(renderToSVG({ ...svgOptions, progress: 0.6 }));
+    expect(renderToSVG({ ...svgOptions, time: 6 })).not.toBe(renderToSVG({ ...svgOptions, time: 6, seed: 7 }));
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(() => renderToSVG({ ...svgOptions, width: -1 })).toThrow('Garten:');
+    expect(() => renderToSVG({ ...svgOptions, height: Infinity })).toThrow('Garten:');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Headless - Render a garden frame without a DOM
+ * For server-side share images, tests and offline tools. Nothing here touches
+ * document, window, ResizeObserver or requestAnimationFrame.
+ */
+
+import type { GardenOptions, PlantData } from './types';
+import { resolveColorScheme, resolveDetachedOptions } from './defaults';
+import { prefersDarkMode } from './utils';
+import { generatePlants } from './plants';
+import { createAvoidLayout } from './avoid';
+import { drawScene, resolveRenderTime, validateSize, type SceneOptions } from './scene';
+import { GrowthProgressPool } from './GrowthProgressPool';
+import { SvgContext } from './SvgContext';
+
+/**
+ * Minimal canvas surface: node-canvas, skia-canvas, OffscreenCanvas or a recording stand-in
+ */
+export interface HeadlessCanvas {
+  width: number;
+  height: number;
+  getContext(contextId: '2d'): CanvasRenderingContext2D | null;
+}
+
+/**
+ * Creates a canvas of the given size in device pixels, e.g. node-canvas's createCanvas
+ */
+export type CanvasFactory<T extends HeadlessCanvas = HeadlessCanvas> = (width: number, height: number) => T;
+
+/**
+ * Options for renderToSVG()
+ * Accepts the same garden options as the Garten constructor, minus the container.
+ */
+export interface SvgRenderOptions extends Omit<GardenOptions, 'container'> {
+  /** Output width in CSS pixels */
+  width: number;
+
+  /** Output height in CSS pixels */
+  height: number;
+
+  /**
+   * Time to render, in seconds (clamped to the duration)
+   * @default duration (fully grown)
+   */
+  time?: number;
+
+  /**
+   * Progress to render (0-1), used when time is not given
+   * @default 1
+   */
+  progress?: number;
+}
+
+/**
+ * Options for renderGarden()
+ */
+export interface HeadlessRenderOptions<T extends HeadlessCanvas = HeadlessCanvas>
+  extends SvgRenderOptions {
+  /** Creates the canvas to draw on */
+  createCanvas: CanvasFactory<T>;
+
+  /**
+   * Device pixels per CSS pixel; the canvas is width x height times this
+   * @default 1
+   */
+  pixelRatio?: number;
+}
+
+/**
+ * Render one frame of a garden onto a canvas from the given factory
+ * Uses the same plant generation and drawing as Garten, so a given seed and
+ * time produce the same frame.
+ * @returns The canvas returned by createCanvas, drawn on
+ * @throws {Error} If the size is not positive or the canvas has no 2D context
+ *
+ * @example
+ * ```typescript
+ * import { createCanvas } from 'canvas';
+ * import { renderGarden } from 'garten/headless';
+ *
+ * const canvas = renderGarden({
+ *   createCanvas,
+ *   width: 1200,
+ *   height: 630,
+ *   seed: 42,
+ *   progress: 0.8,
+ * });
+ * fs.writeFileSync('share.png', canvas.toBuffer('image/png'));
+ * ```
+ */
+export function renderGarden<T extends HeadlessCanvas>(options: HeadlessRenderOptions<T>): T {
+  const { createCanvas, width, height, time, progress, pixelRatio = 1, ...gardenOptions } = options;
+
+  validateSize(width, height);
+  if (!(pixelRatio > 0) || !Number.isFinite(pixelRatio)) {
+    throw new Error('Garten: pixelRatio must be a positive number');
+  }
+
+  const resolved = resolveColorScheme(resolveDetachedOptions(gardenOptions), prefersDarkMode());
+  const renderTime = resolveRenderTime(time, progress, resolved.duration);
+
+  const canvas = createCanvas(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Garten: Could not get a 2D context from the headless canvas');
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.scale(pixelRatio, pixelRatio);
+
+  const pool = new GrowthProgressPool();
+  pool.beginFrame();
+  try {
+    const plants = generatePlants({ ...resolved, avoidLayout: createAvoidLayout(resolved.avoid, width, height) });
+    drawScene(ctx, plants, width, height, renderTime, resolved, pool);
+  } finally {
+    pool.endFrame();
+  }
+
+  return canvas;
+}
+
+/**
+ * Render one frame of a garden as an SVG document
+ * Plants, the ground strip and the vertical fade are all vector shapes, so the
+ * result scales to any print or design size.
+ * @returns SVG markup
+ * @throws {Error} If the size is not positive
+ *
+ * @example
+ * ```typescript
+ * import { renderToSVG } from 'garten/headless';
+ *
+ * const svg = renderToSVG({ width: 1200, height: 630, seed: 42, progress: 0.8 });
+ * fs.writeFileSync('garden.svg', svg);
+ * ```
+ */
+export function renderToSVG(options: SvgRenderOptions): string {
+  const { width, height, time, progress, ...gardenOptions } = options;
+  validateSize(width, height);
+
+  const resolved = resolveColorScheme(resolveDetachedOptions(gardenOptions), prefersDarkMode());
+  const renderTime = resolveRenderTime(time, progress, resolved.duration);
+  const plants = generatePlants({ ...resolved, avoidLayout: createAvoidLayout(resolved.avoid, width, height) });
+  return drawSVG(plants, width, height, renderTime, resolved);
+}
+
+/**
+ * Draw plants at the given time into a fresh SvgContext
+ * @returns SVG markup
+ */
+export function drawSVG(
+  plants: PlantData[],
+  width: number,
+  height: number,
+  time: number,
+  options: SceneOptions
+): string {
+  const ctx = new SvgContext(width, height);
+  const pool = new GrowthProgressPool();
+  pool.beginFrame();
+  try {
+    drawScene(ctx, plants, width, height, time, options, pool);
+  } finally {
+    pool.endFrame();
+  }
+  return ctx.toSVG();
+}
+
+export {
+  exportFrames,
+  exportPNGSequence,
+  exportAnimation,
+  type FrameExportOptions,
+  type AnimationExportOptions,
+  type ExportedFrame,
+  type ExportedPNGFrame,
+} from './exporter';
+export { encodePNG, encodeAPNG, type RGBAImage, type APNGOptions } from './png';
@@ -7,28 +7,68 @@ export type {
   GardenController,
   GardenEvents,
   PlaybackState,
+  AutoPauseReason,
+  LoopMode,
+  GardenDriver,
+  ScrollRange,
+  TimeSource,
+  FrameScheduler,
+  GardenSnapshot,
+  SnapshotOptions,
+  CueTarget,
+  CueCallback,
+  PlaybackOutcome,
+  WaitTarget,
+  WaitOutcome,
+  SvgExportOptions,
+  ImageSnapshotOptions,
   ColorOptions,
   ColorPalette,
+  ColorScheme,
+  ColorSchemeVariant,
+  ColorSchemes,
   Density,
+  GardenAnchor,
+  PlantEdge,
+  RadialAnchor,
+  ResolvedRadialAnchor,
+  TerrainShape,
+  TerrainFunction,
+  TerrainOptions,
+  ResolvedTerrain,
+  DistributionMode,
+  DistributionFunction,
+  DistributionOptions,
+  ResolvedDistribution,
+  DepthOptions,
+  ResolvedDepth,
+  ParallaxView,
+  AvoidRect,
+  AvoidTarget,
+  AvoidLayout,
   PlantData,
   PlantVariation,
   TimingCurve,
   ResolvedOptions,
   GardenPreset,
   GardenTheme,
+  GardenThemeVariant,
+  DrawingContext,
   PlantRenderContext,
   FloweringPlantContext,
   PlantRenderer,
   GardenEventType,
   GardenEventData,
+  GardenEventHandler,
 } from './types';
 
 export { PlantType, PlantCategory } from './types';
 
 // Utility exports (for advanced usage)
 export { seededRandom, createRandom } from './utils';
-export { flowerPalettes, foliagePalettes } from './palettes';
+export { flowerPalettes, foliagePalettes, darkFlowerPalettes, darkFoliagePalettes } from './palettes';
 export { PLANT_CATEGORIES, getPlantCategory, getPlantVariation } from './plants';
+export { createTerrainProfile, type TerrainProfile } from './terrain';
 
 // New abstractions
 export { Color, hexToRgb, rgbToHex, lightenColor, darkenColor } from './Color';
@@ -47,7 +87,26 @@ export {
 } from './GrowthProgressPool';
 export { SeededRandom } from './SeededRandom';
 export { CanvasHelper, drawStem, drawLeaf, drawLeafPair } from './CanvasHelper';
+export { SvgContext, SvgGradient } from './SvgContext';
+export { renderToSVG, type SvgRenderOptions } from './headless';
+export {
+  exportFrames,
+  exportPNGSequence,
+  exportAnimation,
+  type FrameExportOptions,
+  type AnimationExportOptions,
+  type ExportedFrame,
+  type ExportedPNGFrame,
+} from './exporter';
+export { encodePNG, encodeAPNG, type RGBAImage, type APNGOptions } from './png';
 export { EventEmitter, SimpleEventEmitter } from './EventEmitter';
+export { CueList } from './CueList';
+export { ScrollDriver, type ScrollDriverOptions } from './ScrollDriver';
+export { ParallaxTracker, type ParallaxTrackerOptions } from './ParallaxTracker';
+export { RenderWorker, type RenderWorkerMessage } from './RenderWorker';
+export { browserScheduler } from './scheduler';
+export { GardenClock, type GardenClockOptions, type ClockState, type ClockChange } from './GardenClock';
+export { SNAPSHOT_VERSION, isGardenSnapshot } from './snapshot';
 export { Environment, prefersReducedMotion, getPixelRatio, isBrowser, hasCanvasSupport } from './Environment';
 
 // Presets and themes
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'vitest';
 import {
   flowerPalettes,
   foliagePalettes,
+  darkFlowerPalettes,
+  darkFoliagePalettes,
   generateAccentVariants,
   generateMonotoneFlowerColors,
   generateMonotoneFoliageColors,
@@ -358,3 +360,43 @@ describe('buildFoliageColors - monotone', () => {
     }
   });
 });
+
+describe('dark palettes', () => {
+  const palettes: ColorPalette[] = ['natural', 'warm', 'cool', 'grayscale', 'vibrant', 'monotone'];
+  const options = {
+    accent: '#F6821F',
+    palette: 'natural' as ColorPalette,
+    flowerColors: [] as string[],
+    foliageColors: [] as string[],
+    accentWeight: 0.4,
+  };
+
+  it('should match the light palettes in size so plants keep their color slots', () => {
+    for (const palette of palettes) {
+      expect(darkFlowerPalettes[palette]).toHaveLength(flowerPalettes[palette].length);
+      expect(darkFoliagePalettes[palette].leaves).toHaveLength(foliagePalettes[palette].leaves.length);
+      expect(darkFoliagePalettes[palette].stems).toHaveLength(foliagePalettes[palette].stems.length);
+    }
+  });
+
+  it('should be used for the dark scheme only', () => {
+    expect(buildFoliageColors(options, 'dark')).toBe(darkFoliagePalettes.natural);
+    expect(buildFoliageColors(options)).toBe(foliagePalettes.natural);
+    const flowers = buildFlowerColors({ ...options, accentWeight: 0 }, 'dark');
+    expect(flowers.every((color) => darkFlowerPalettes.natural.includes(color))).toBe(true);
+  });
+
+  it('should keep custom colors in either scheme', () => {
+    const custom = { ...options, flowerColors: ['#123456'] };
+    expect(buildFlowerColors(custom, 'dark')).toEqual(['#123456']);
+  });
+
+  it('should darken monotone foliage less for dark pages', () => {
+    const brightness = (colors: string[]) =>
+      colors.reduce((sum, c) => sum + parseInt(c.slice(1, 3), 16), 0) / colors.length;
+    const light = generateMonotoneFoliageColors('#8888FF');
+    const dark = generateMonotoneFoliageColors('#8888FF', 'dark');
+    expect(brightness(dark.leaves)).toBeGreaterThan(brightness(light.leaves));
+    expect(brightness(dark.stems)).toBeGreaterThan(brightness(light.stems));
+  });
+});
@@ -12,6 +12,11 @@
 import type { ColorPalette, ColorOptions } from './types';
 import { lightenColor, darkenColor } from './utils';
 
+/**
+ * Active color scheme, after resolving 'auto'
+ */
+export type ResolvedColorScheme = 'light' | 'dark';
+
 /**
  * Flower color palettes by theme
  */
@@ -80,6 +85,62 @@ export const foliagePalettes: Record<ColorPalette, { leaves: string[]; stems: st
   },
 };
 
+/**
+ * Flower palettes for dark pages
+ * Brighter and more saturated so blooms read against a dark background.
+ * Same lengths as the light palettes, so plants keep their color slots.
+ */
+export const darkFlowerPalettes: Record<ColorPalette, string[]> = {
+  natural: [
+    '#FF6F91', '#FF5C6E', '#FFB3C1', '#E84AA8',
+    '#FFE066', '#FFD23F', '#FFEA70', '#F5B82E',
+    '#B98BD9', '#9D8CFF', '#8C7BFF', '#A855F7',
+    '#FFFFFF', '#FFF5D6', '#FFE4C4', '#F8F0FF',
+  ],
+  warm: [
+    '#FF7B7B', '#FFB08A', '#FFE15C', '#FF9B54',
+    '#FF6F91', '#FFB3C1', '#FFE066', '#FFEA70',
+    '#FFF5D6', '#FFE4C4',
+  ],
+  cool: [
+    '#9D8CFF', '#8C7BFF', '#B98BD9', '#A855F7',
+    '#7FD8FF', '#B5F0FF', '#9ED8F0', '#E6E6FA',
+    '#FFFFFF', '#F0F8FF',
+  ],
+  // Light grays already stand out on a dark page
+  grayscale: flowerPalettes.grayscale,
+  vibrant: flowerPalettes.vibrant,
+  monotone: [],
+};
+
+/**
+ * Foliage palettes for dark pages
+ * Lighter greens in place of the olive and forest tones, which sink into dark backgrounds.
+ */
+export const darkFoliagePalettes: Record<ColorPalette, { leaves: string[]; stems: string[] }> = {
+  natural: {
+    leaves: ['#4CAF50', '#5FBF77', '#7BD389', '#9ACD32', '#8FBC8F', '#A8D5A2'],
+    stems: ['#5D8A52', '#6FA362', '#7DB36E', '#8CC07D'],
+  },
+  warm: {
+    leaves: ['#9ACD32', '#B5C938', '#C0D860', '#8DB600', '#A4C639'],
+    stems: ['#8A8A4A', '#9A9A5A', '#8AA060', '#A0B070'],
+  },
+  cool: {
+    leaves: ['#3CB371', '#40E0D0', '#66CDAA', '#48D1CC', '#7FFFD4'],
+    stems: ['#4A8C70', '#5A9C80', '#6AAC90', '#7ABCA0'],
+  },
+  grayscale: {
+    leaves: ['#A9A9A9', '#B8B8B8', '#C8C8C8', '#9AA5B1', '#A0AAB4'],
+    stems: ['#808080', '#8C8C8C', '#999999', '#A6A6A6'],
+  },
+  vibrant: foliagePalettes.vibrant,
+  monotone: {
+    leaves: [],
+    stems: [],
+  },
+};
+
 /**
  * Generate accent color variants
  */
@@ -110,8 +171,30 @@ export function generateMonotoneFlowerColors(accent: string): string[] {
 
 /**
  * Generate monotone foliage colors (desaturated/darkened accent variants)
+ * The dark scheme darkens less, so foliage stays visible on a dark page.
  */
-export function generateMonotoneFoliageColors(accent: string): { leaves: string[]; stems: string[] } {
+export function generateMonotoneFoliageColors(
+  accent: string,
+  scheme: ResolvedColorScheme = 'light'
+): { leaves: string[]; stems: string[] } {
+  if (scheme === 'dark') {
+    return {
+      leaves: [
+        darkenColor(accent, 0.05),
+        darkenColor(accent, 0.15),
+        darkenColor(accent, 0.1),
+        darkenColor(accent, 0.2),
+        lightenColor(accent, 0.05),
+      ],
+      stems: [
+        darkenColor(accent, 0.25),
+        darkenColor(accent, 0.3),
+        darkenColor(accent, 0.35),
+        darkenColor(accent, 0.2),
+      ],
+    };
+  }
+
   return {
     leaves: [
       darkenColor(accent, 0.25),
@@ -131,8 +214,12 @@ export function generateMonotoneFoliageColors(accent: string): { leaves: string[
 
 /**
  * Build flower color array with accent weighting
+ * @param scheme Picks the light or dark variant of the palette
  */
-export function buildFlowerColors(options: Required<ColorOptions>): string[] {
+export function buildFlowerColors(
+  options: Required<ColorOptions>,
+  scheme: ResolvedColorScheme = 'light'
+): string[] {
   // Use custom colors if provided
   if (options.flowerColors.length > 0) {
     return options.flowerColors;
@@ -140,7 +227,7 @@ export function buildFlowerColors(options: Required<ColorOptions>): string[] {
 
   // Grayscale ignores accent entirely - pure achromatic
   if (options.palette === 'grayscale') {
-    return flowerPalettes.grayscale;
+    return scheme === 'dark' ? darkFlowerPalettes.grayscale : flowerPalettes.grayscale;
   }
 
   // Monotone derives all colors from accent
@@ -149,7 +236,7 @@ export function buildFlowerColors(options: Required<ColorOptions>): string[] {
   }
 
   // Standard palettes mix base colors with accent variants
-  const baseColors = flowerPalettes[options.palette];
+  const baseColors = (scheme === 'dark' ? darkFlowerPalettes : flowerPalettes)[options.palette];
   const accentVariants = generateAccentVariants(options.accent);
 
   // Calculate how many accent colors to include based on weight
@@ -175,9 +262,11 @@ export function buildFlowerColors(options: Required<ColorOptions>): string[] {
 
 /**
  * Build foliage colors
+ * @param scheme Picks the light or dark variant of the palette
  */
 export function buildFoliageColors(
-  options: Required<ColorOptions>
+  options: Required<ColorOptions>,
+  scheme: ResolvedColorScheme = 'light'
 ): { leaves: string[]; stems: string[] } {
   if (options.foliageColors.length > 0) {
     // Use custom colors for both
@@ -189,9 +278,9 @@ export function buildFoliageColors(
 
   // Monotone derives foliage from accent
   if (options.palette === 'monotone') {
-    return generateMonotoneFoliageColors(options.accent);
+    return generateMonotoneFoliageColors(options.accent, scheme);
   }
 
   // Grayscale and other palettes use predefined foliage
-  return foliagePalettes[options.palette];
+  return (scheme === 'dark' ? darkFoliagePalettes : foliagePalettes)[options.palette];
 }
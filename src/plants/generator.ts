@@ -1,8 +1,13 @@
-import type { PlantData, ResolvedOptions, ColorOptions } from '../types';
+import type { AvoidLayout, PlantData, ResolvedOptions, ColorOptions } from '../types';
 import { PlantType, PlantCategory } from '../types';
 import { createRandom, randomRange, applyTimingCurve } from '../utils';
 import { buildFlowerColors, buildFoliageColors } from '../palettes';
 import { plantsPerGeneration } from '../defaults';
+import { createTerrainProfile } from '../terrain';
+import { FRAME_EDGES, isRadialAnchor, placeOnAnchor } from '../anchor';
+import { createPositionSampler, resolveDistribution } from '../distribution';
+import { createDepthSampler, getRowLift, getRowScale } from '../depth';
+import { createPlantFitter } from '../avoid';
 import { getPlantVariation } from './variations';
 
 // Type declaration for process (Node.js environment detection)
@@ -468,12 +473,26 @@ function generatePlantHeight(minH: number, maxH: number, maxHeight: number, rand
   return minH + range * rand();
 }
 
+/**
+ * Options that determine which plants are generated
+ * colorScheme only picks colors; 'auto' should be resolved first and counts as light.
+ */
+export type PlantGenerationOptions = Pick<
+  ResolvedOptions,
+  'duration' | 'generations' | 'maxHeight' | 'density' | 'seed' | 'colors' | 'timingCurve' | 'categories'
+> & Partial<Pick<ResolvedOptions, 'colorScheme' | 'terrain' | 'anchor' | 'distribution' | 'depth'>> & {
+  /** Regions to keep plants out of, measured for the current layout */
+  avoidLayout?: AvoidLayout | null;
+};
+
 /**
  * Generate all plants for the garden
  * Optimized for memory efficiency with pre-allocated array
  */
-export function generatePlants(options: ResolvedOptions): PlantData[] {
+export function generatePlants(options: PlantGenerationOptions): PlantData[] {
   const { duration, generations, maxHeight, density, seed, colors, timingCurve, categories } = options;
+  const scheme = options.colorScheme === 'dark' ? 'dark' : 'light';
+  const anchor = options.anchor ?? 'bottom';
 
   const [minPlantsPerGen, maxPlantsPerGen] = plantsPerGeneration[density];
 
@@ -483,9 +502,33 @@ export function generatePlants(options: ResolvedOptions): PlantData[] {
   // Pre-compute available categories once for efficiency (avoids filtering on every plant)
   const precomputedCategories = precomputeCategories(maxHeight, categoryFilter);
 
-  // Build color arrays once
-  const flowerColors = buildFlowerColors(colors as Required<ColorOptions>);
-  const foliageColors = buildFoliageColors(colors as Required<ColorOptions>);
+  // Ground profile plants are rooted on (flat when not given)
+  const terrainHeight = options.terrain?.height ?? 0;
+  const terrain = options.terrain && terrainHeight > 0 ? createTerrainProfile(options.terrain.shape, seed) : null;
+  const elevationAt = (x: number): number => (terrain ? terrain(x) * terrainHeight : 0);
+
+  // Estimate total plants for pre-allocation (reduces memory fragmentation)
+  const avgPlantsPerGen = (minPlantsPerGen + maxPlantsPerGen) / 2;
+  const estimatedTotal = Math.ceil(generations * avgPlantsPerGen * 1.1);
+
+  // Maps each plant's position draw; poisson spacing depends on how many plants there are
+  const samplePosition = createPositionSampler(options.distribution ?? resolveDistribution('uniform'), seed, {
+    segments: anchor === 'frame' ? FRAME_EDGES.length : 1,
+    wraps: anchor === 'frame' || isRadialAnchor(anchor),
+    count: generations * avgPlantsPerGen,
+  });
+
+  // Rows come from their own stream, one draw per plant
+  const depth = options.depth ?? null;
+  const sampleRow = createDepthSampler(depth?.layers ?? 1, seed);
+
+  // Fitting runs after all random draws, so it never shifts other plants' properties
+  const fitPlant = options.avoidLayout ? createPlantFitter(options.avoidLayout, anchor) : null;
+
+  // Build color arrays once; their lengths never affect the random sequence,
+  // so switching schemes recolors plants without moving them
+  const flowerColors = buildFlowerColors(colors as Required<ColorOptions>, scheme);
+  const foliageColors = buildFoliageColors(colors as Required<ColorOptions>, scheme);
 
   // Validate color arrays are non-empty
   if (flowerColors.length === 0) {
@@ -495,9 +538,6 @@ export function generatePlants(options: ResolvedOptions): PlantData[] {
     throw new Error('Garten: No foliage colors available. Check palette configuration.');
   }
 
-  // Estimate total plants for pre-allocation (reduces memory fragmentation)
-  const avgPlantsPerGen = (minPlantsPerGen + maxPlantsPerGen) / 2;
-  const estimatedTotal = Math.ceil(generations * avgPlantsPerGen * 1.1);
   const plants: PlantData[] = [];
   plants.length = estimatedTotal; // Pre-allocate
 
@@ -522,8 +562,8 @@ export function generatePlants(options: ResolvedOptions): PlantData[] {
       // Select plant type using pre-computed category weights
       const type = selectPlantType(plantRand, precomputedCategories);
 
-      // Position
-      const x = plantRand();
+      // Position along the plant's edge
+      const { edge, x } = placeOnAnchor(anchor, samplePosition(plantRand()));
 
       // Height based on type (biased toward max for tall gardens)
       const [minH, maxH] = getHeightRange(type, maxHeight);
@@ -553,11 +593,26 @@ export function generatePlants(options: ResolvedOptions): PlantData[] {
       const category = plantTypeToCategory.get(type) ?? PlantCategory.SimpleFlower;
       const variation = getPlantVariation(type);
 
+      const row = sampleRow();
+
+      // Keep clear of avoided regions, capping, moving or leaving out the plant
+      // Back rows are fitted as drawn: smaller, and raised off the ground
+      const initial = { x, maxHeight: plantHeight, elevation: elevationAt(x) };
+      const rowScale = depth ? getRowScale(depth, row) : 1;
+      const placement = fitPlant
+        ? fitPlant(edge, initial, {
+          heightMultiplier: variation.heightMultiplier * rowScale,
+          scale,
+          lift: depth ? getRowLift(depth, row) : 0,
+        }, elevationAt)
+        : initial;
+      if (!placement) continue;
+
       plants[actualCount++] = {
         id: plantId++,
         type,
-        x,
-        maxHeight: plantHeight,
+        x: placement.x,
+        maxHeight: placement.maxHeight,
         flowerColor: flowerColors[flowerColorIdx],
         stemColor: foliageColors.stems[stemColorIdx],
         leafColor: foliageColors.leaves[leafColorIdx],
@@ -567,6 +622,9 @@ export function generatePlants(options: ResolvedOptions): PlantData[] {
         petals,
         lean,
         scale,
+        elevation: placement.elevation,
+        edge,
+        depth: row,
         generation: gen,
         category,
         variation,
@@ -577,8 +635,8 @@ export function generatePlants(options: ResolvedOptions): PlantData[] {
   // Trim array to actual size
   plants.length = actualCount;
 
-  // Sort by height for proper layering (shorter plants in front)
-  plants.sort((a, b) => a.maxHeight - b.maxHeight);
+  // Sort back rows first, then by height for proper layering (shorter plants in front)
+  plants.sort((a, b) => (b.depth ?? 0) - (a.depth ?? 0) || a.maxHeight - b.maxHeight);
 
   return plants;
 }
@@ -593,6 +651,7 @@ export function getCurrentGeneration(time: number, duration: number, generations
 
 /**
  * Check if a generation just completed
+ * @returns The first generation whose completion boundary was crossed, or null
  */
 export function didGenerationComplete(
   prevTime: number,
@@ -604,13 +663,35 @@ export function didGenerationComplete(
   const prevGen = Math.floor(prevTime / timePerGen);
   const currentGen = Math.floor(currentTime / timePerGen);
 
-  if (currentGen > prevGen && currentGen <= generations) {
+  // Stepping past the end still completes the generations in between
+  if (currentGen > prevGen && prevGen < generations) {
     return prevGen + 1;
   }
 
   return null;
 }
 
+/**
+ * Check if a generation was just undone by playing backwards
+ * @returns The generation whose completion boundary was crossed, or null
+ */
+export function didGenerationRevert(
+  prevTime: number,
+  currentTime: number,
+  duration: number,
+  generations: number
+): number | null {
+  const timePerGen = duration / generations;
+  const prevGen = Math.floor(prevTime / timePerGen);
+  const currentGen = Math.floor(currentTime / timePerGen);
+
+  if (currentGen < prevGen && prevGen >= 1) {
+    return Math.min(prevGen, generations);
+  }
+
+  return null;
+}
+
 /**
  * Get the category for a plant type (exported for renderer use)
  */
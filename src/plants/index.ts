@@ -1,3 +1,3 @@
 export { drawPlant, drawStem, drawLeaf } from './renderers';
-export { generatePlants, getCurrentGeneration, didGenerationComplete, getPlantCategory, PlantCategory, PLANT_CATEGORIES } from './generator';
+export { generatePlants, getCurrentGeneration, didGenerationComplete, didGenerationRevert, getPlantCategory, PlantCategory, PLANT_CATEGORIES } from './generator';
 export { getPlantVariation, defaultVariation } from './variations';
@@ -1,4 +1,4 @@
-import type { PlantData, PlantVariation } from '../types';
+import type { DrawingContext, PlantData, PlantVariation } from '../types';
 import { PlantType, PlantCategory } from '../types';
 import { seededRandom, createRandom } from '../utils';
 import { getPlantCategory } from './generator';
@@ -8,7 +8,7 @@ import { GrowthProgressPool, MutableGrowthProgress, getDefaultPool } from '../Gr
 /**
  * Common drawing context type
  */
-type Ctx = CanvasRenderingContext2D;
+type Ctx = DrawingContext;
 
 /**
  * Calculate growth phases from progress value using the object pool
@@ -1588,5 +1588,15 @@ export function drawPlant(
     return;
   }
 
+  // Root the plant on the terrain surface; flat ground needs no transform
+  const lift = (plant.elevation ?? 0) * height;
+  if (lift === 0) {
+    renderer(ctx, plant, width, height, time, variation, pool);
+    return;
+  }
+
+  ctx.save();
+  ctx.translate(0, -lift);
   renderer(ctx, plant, width, height, time, variation, pool);
+  ctx.restore();
 }
@@ -0,0 +1,156 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { encodePNG, encodeAPNG, type RGBAImage } from './png';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * Split a PNG file into chunks after checking the signature
+ */
+async function readChunks(blob: Blob): Promise<Chunk[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  expect(Array.from(bytes.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+
+  const view = new DataView(bytes.buffer);
+  const chunks: Chunk[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/**
+ * Inflate zlib data and strip the per-row filter bytes (all filter type 0)
+ */
+async function decodePixels(compressed: Uint8Array, width: number): Promise<number[]> {
+  const stream = new Blob([compressed as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  const raw = new Uint8Array(await new Response(stream).arrayBuffer());
+  const pixels: number[] = [];
+  for (let row = 0; row < raw.length; row += width * 4 + 1) {
+    expect(raw[row]).toBe(0);
+    pixels.push(...raw.subarray(row + 1, row + 1 + width * 4));
+  }
+  return pixels;
+}
+
+function uint32At(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset).getUint32(offset);
+}
+
+function solidImage(width: number, height: number, rgba: number[]): RGBAImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { data, width, height };
+}
+
+describe('encodePNG', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const image: RGBAImage = {
+    width: 2,
+    height: 2,
+    data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 40]),
+  };
+
+  it('should encode RGBA pixels that decode back unchanged', async () => {
+    const blob = await encodePNG(image);
+    const chunks = await readChunks(blob);
+
+    expect(blob.type).toBe('image/png');
+    expect(chunks.map((c) => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect(Array.from(chunks[0].data)).toEqual([0, 0, 0, 2, 0, 0, 0, 2, 8, 6, 0, 0, 0]);
+    expect(await decodePixels(chunks[1].data, 2)).toEqual(Array.from(image.data));
+  });
+
+  it('should fall back to stored deflate blocks without CompressionStream', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    // Larger than one stored block
+    const large = solidImage(200, 100, [1, 2, 3, 4]);
+
+    const chunks = await readChunks(await encodePNG(large));
+
+    expect(await decodePixels(chunks[1].data, 200)).toEqual(Array.from(large.data));
+  });
+
+  it('should reject images whose data does not match their size', async () => {
+    await expect(encodePNG({ ...image, width: 3 })).rejects.toThrow('Garten:');
+    await expect(encodePNG({ ...image, width: 0, data: new Uint8Array(0) })).rejects.toThrow('Garten:');
+  });
+});
+
+describe('encodeAPNG', () => {
+  const red = solidImage(4, 3, [255, 0, 0, 255]);
+  const clear = solidImage(4, 3, [0, 0, 0, 0]);
+
+  it('should write an animation control chunk and one frame per image', async () => {
+    const blob = await encodeAPNG([red, clear, red], { fps: 20, plays: 2 });
+    const chunks = await readChunks(blob);
+
+    expect(blob.type).toBe('image/apng');
+    expect(chunks.map((c) => c.type)).toEqual([
+      'IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND',
+    ]);
+
+    const actl = chunks[1].data;
+    expect(uint32At(actl, 0)).toBe(3);
+    expect(uint32At(actl, 4)).toBe(2);
+
+    // Sequence numbers run across fcTL and fdAT chunks
+    const sequence = chunks
+      .filter((c) => c.type === 'fcTL' || c.type === 'fdAT')
+      .map((c) => uint32At(c.data, 0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+
+    // 1/20s per frame at 20fps
+    const fctl = chunks[2].data;
+    expect(new DataView(fctl.buffer, fctl.byteOffset).getUint16(20)).toBe(1);
+    expect(new DataView(fctl.buffer, fctl.byteOffset).getUint16(22)).toBe(20);
+
+    expect(await decodePixels(chunks[3].data, 4)).toEqual(Array.from(red.data));
+    expect(await decodePixels(chunks[5].data.subarray(4), 4)).toEqual(Array.from(clear.data));
+  });
+
+  it('should write exact frame delays for whole frame rates', async () => {
+    const delays = async (fps: number) => {
+      const chunks = await readChunks(await encodeAPNG([red, red], { fps }));
+      return chunks
+        .filter((c) => c.type === 'fcTL')
+        .map((c) => {
+          const view = new DataView(c.data.buffer, c.data.byteOffset);
+          return [view.getUint16(20), view.getUint16(22)];
+        });
+    };
+
+    expect(await delays(30)).toEqual([[1, 30], [1, 30]]);
+    // Fractional rates fall back to whole milliseconds
+    expect(await delays(12.5)).toEqual([[80, 1000], [80, 1000]]);
+    expect(await delays(0.01)).toEqual([[65535, 1000], [65535, 1000]]);
+  });
+
+  it('should accept frames from an async iterable', async () => {
+    async function* frames() {
+      yield red;
+      yield clear;
+    }
+    const chunks = await readChunks(await encodeAPNG(frames(), { fps: 10 }));
+
+    expect(uint32At(chunks[1].data, 0)).toBe(2);
+    expect(uint32At(chunks[1].data, 4)).toBe(0);
+  });
+
+  it('should reject empty, mismatched or invalid input', async () => {
+    await expect(encodeAPNG([], { fps: 10 })).rejects.toThrow('Garten:');
+    await expect(encodeAPNG([red, solidImage(2, 2, [0, 0, 0, 0])], { fps: 10 })).rejects.toThrow('Garten:');
+    await expect(encodeAPNG([red], { fps: 0 })).rejects.toThrow('Garten:');
+    await expect(encodeAPNG([red], { fps: 10, plays: -1 })).rejects.toThrow('Garten:');
+  });
+});
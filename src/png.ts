@@ -0,0 +1,271 @@
+/**
+ * PNG - Dependency-free PNG and APNG encoding of RGBA pixels
+ * Compresses with CompressionStream where available and falls back to
+ * uncompressed deflate blocks, so it runs in browsers, workers and Node.
+ */
+
+/**
+ * Pixels to encode: ImageData or anything shaped like it
+ */
+export interface RGBAImage {
+  /** Non-premultiplied RGBA bytes, row by row */
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/** Largest payload of a stored deflate block */
+const MAX_STORED_BLOCK = 65535;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 as used by PNG chunks (lazily built lookup table)
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Adler-32 checksum for the zlib trailer
+ */
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Big-endian unsigned integer fields
+ */
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Build a PNG chunk: length, type, data and CRC of type + data
+ */
+function chunk(type: string, data: Uint8Array | number[]): Uint8Array {
+  const body = new Uint8Array(4 + data.length);
+  for (let i = 0; i < 4; i++) body[i] = type.charCodeAt(i);
+  body.set(data, 4);
+  return concat([new Uint8Array(uint32(data.length)), body, new Uint8Array(uint32(crc32(body)))]);
+}
+
+/**
+ * zlib stream made of stored (uncompressed) deflate blocks
+ */
+function storedZlib(bytes: Uint8Array): Uint8Array {
+  const blocks = Math.max(1, Math.ceil(bytes.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + bytes.length + blocks * 5 + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let offset = 2;
+  for (let i = 0; i < blocks; i++) {
+    const start = i * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, bytes.length - start);
+    out[offset] = i === blocks - 1 ? 1 : 0;
+    out[offset + 1] = length & 0xff;
+    out[offset + 2] = length >>> 8;
+    out[offset + 3] = ~length & 0xff;
+    out[offset + 4] = (~length >>> 8) & 0xff;
+    out.set(bytes.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  out.set(uint32(adler32(bytes)), offset);
+  return out;
+}
+
+/**
+ * Wrap bytes in a Blob
+ * Newer DOM typings only accept ArrayBuffer-backed views, which these always are.
+ */
+function toBlob(parts: Uint8Array[], type?: string): Blob {
+  return new Blob(parts as BlobPart[], type ? { type } : undefined);
+}
+
+/**
+ * zlib-compress bytes, compressed when CompressionStream is available
+ */
+async function zlib(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    return storedZlib(bytes);
+  }
+  const stream = toBlob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Check an image's size matches its data
+ * @throws {Error} If the size is not positive or the data is the wrong length
+ */
+function validateImage(image: RGBAImage): void {
+  const { width, height, data } = image;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error('Garten: Image width and height must be positive integers');
+  }
+  if (data.length !== width * height * 4) {
+    throw new Error('Garten: Image data must hold width x height RGBA pixels');
+  }
+}
+
+/**
+ * Compressed scanlines of an image, each prefixed with filter type 0 (none)
+ */
+function compressPixels(image: RGBAImage): Promise<Uint8Array> {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return zlib(raw);
+}
+
+/**
+ * IHDR chunk for 8-bit RGBA
+ */
+function header(width: number, height: number): Uint8Array {
+  return chunk('IHDR', [...uint32(width), ...uint32(height), 8, 6, 0, 0, 0]);
+}
+
+/**
+ * Encode pixels as a PNG image
+ * @returns Blob of type 'image/png'
+ * @throws {Error} If the size does not match the data
+ */
+export async function encodePNG(image: RGBAImage): Promise<Blob> {
+  validateImage(image);
+  return toBlob([
+    new Uint8Array(PNG_SIGNATURE),
+    header(image.width, image.height),
+    chunk('IDAT', await compressPixels(image)),
+    chunk('IEND', []),
+  ], 'image/png');
+}
+
+/**
+ * Options for encodeAPNG()
+ */
+export interface APNGOptions {
+  /** Frames per second of playback */
+  fps: number;
+
+  /**
+   * Number of times to play, 0 for forever
+   * @default 0
+   */
+  plays?: number;
+}
+
+/**
+ * Encode same-sized frames as an animated PNG
+ * Browsers without APNG support show the first frame.
+ * @returns Blob of type 'image/apng'
+ * @throws {Error} If there are no frames, sizes differ or fps is not positive
+ */
+export async function encodeAPNG(
+  frames: Iterable<RGBAImage> | AsyncIterable<RGBAImage>,
+  options: APNGOptions
+): Promise<Blob> {
+  const { fps, plays = 0 } = options;
+  if (!(fps > 0) || !Number.isFinite(fps)) {
+    throw new Error('Garten: fps must be a positive number');
+  }
+  if (!Number.isInteger(plays) || plays < 0) {
+    throw new Error('Garten: plays must be a non-negative integer');
+  }
+
+  // Frame delay as a fraction of a second: exactly 1/fps for whole rates, else in
+  // milliseconds, at least 1ms so players do not pick their own default
+  const [delayNum, delayDen] = Number.isInteger(fps) && fps <= 65535
+    ? [1, fps]
+    : [Math.min(65535, Math.max(1, Math.round(1000 / fps))), 1000];
+  const parts: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let count = 0;
+  let sequence = 0;
+
+  for await (const frame of frames) {
+    validateImage(frame);
+    if (count === 0) {
+      ({ width, height } = frame);
+    } else if (frame.width !== width || frame.height !== height) {
+      throw new Error('Garten: All animation frames must be the same size');
+    }
+
+    parts.push(chunk('fcTL', [
+      ...uint32(sequence++),
+      ...uint32(width),
+      ...uint32(height),
+      ...uint32(0),
+      ...uint32(0),
+      ...uint16(delayNum),
+      ...uint16(delayDen),
+      0, // dispose: none
+      0, // blend: source, so transparent pixels replace the previous frame
+    ]));
+
+    const pixels = await compressPixels(frame);
+    if (count === 0) {
+      parts.push(chunk('IDAT', pixels));
+    } else {
+      parts.push(chunk('fdAT', concat([new Uint8Array(uint32(sequence++)), pixels])));
+    }
+    count++;
+  }
+
+  if (count === 0) {
+    throw new Error('Garten: An animation needs at least one frame');
+  }
+
+  return toBlob([
+    new Uint8Array(PNG_SIGNATURE),
+    header(width, height),
+    chunk('acTL', [...uint32(count), ...uint32(plays)]),
+    ...parts,
+    chunk('IEND', []),
+  ], 'image/apng');
+}
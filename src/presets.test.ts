@@ -79,6 +79,28 @@ describe('applyTheme', () => {
     expect(consoleSpy).toHaveBeenCalled();
     consoleSpy.mockRestore();
   });
+
+  it('should turn light and dark variants into scheme overrides', () => {
+    const { flowerColors, foliageColors, background } = themes.lavender.dark!;
+    const options = applyTheme('lavender');
+    expect(options.schemes!.dark).toEqual({ colors: { flowerColors, foliageColors }, background });
+    expect(options.schemes!.light).toEqual({});
+  });
+
+  it('should let explicit options win over the theme', () => {
+    const options = applyTheme('ocean', {
+      background: '#000000',
+      schemes: { dark: { background: '#111111' } },
+    });
+    expect(options.background).toBe('#000000');
+    expect(options.schemes!.dark).toEqual({ colors: { accent: '#48B5E8' }, background: '#111111' });
+  });
+
+  it('should give every built-in theme a dark background', () => {
+    for (const theme of Object.values(themes)) {
+      expect(theme.dark?.background).toBeDefined();
+    }
+  });
 });
 
 describe('applyPreset', () => {
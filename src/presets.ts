@@ -3,7 +3,15 @@
  * Provides ready-to-use configurations for common use cases
  */
 
-import type { GardenOptions, GardenPreset, GardenTheme, ColorOptions, Density } from './types';
+import type {
+  GardenOptions,
+  GardenPreset,
+  GardenTheme,
+  GardenThemeVariant,
+  ColorOptions,
+  ColorSchemeVariant,
+  Density,
+} from './types';
 import { COLORS } from './constants';
 
 // ==================== THEMES ====================
@@ -19,6 +27,9 @@ export const themes: Record<string, GardenTheme> = {
     name: 'Natural',
     palette: 'natural',
     accent: COLORS.DEFAULT_ACCENT,
+    dark: {
+      background: COLORS.DARK_CANVAS_BACKGROUND,
+    },
   },
 
   /**
@@ -29,6 +40,10 @@ export const themes: Record<string, GardenTheme> = {
     palette: 'warm',
     accent: '#FF6B35',
     fadeColor: '#FFF5EB',
+    dark: {
+      accent: '#FF8C5A',
+      background: '#1F1410',
+    },
   },
 
   /**
@@ -39,6 +54,10 @@ export const themes: Record<string, GardenTheme> = {
     palette: 'cool',
     accent: '#0077B6',
     fadeColor: '#F0F8FF',
+    dark: {
+      accent: '#48B5E8',
+      background: '#0B1622',
+    },
   },
 
   /**
@@ -49,6 +68,10 @@ export const themes: Record<string, GardenTheme> = {
     palette: 'grayscale',
     accent: '#666666',
     fadeColor: '#F5F5F5',
+    dark: {
+      accent: '#BBBBBB',
+      background: '#161616',
+    },
   },
 
   /**
@@ -58,6 +81,9 @@ export const themes: Record<string, GardenTheme> = {
     name: 'Vibrant',
     palette: 'vibrant',
     accent: '#FF1493',
+    dark: {
+      background: '#0F0F14',
+    },
   },
 
   /**
@@ -69,6 +95,9 @@ export const themes: Record<string, GardenTheme> = {
     accent: '#FFB7C5',
     flowerColors: ['#FFB7C5', '#FFDCE5', '#FFC0CB', '#FF69B4', '#FFFFFF'],
     fadeColor: '#FFF5F7',
+    dark: {
+      background: '#1C1218',
+    },
   },
 
   /**
@@ -81,6 +110,11 @@ export const themes: Record<string, GardenTheme> = {
     flowerColors: ['#9370DB', '#E6E6FA', '#DDA0DD', '#BA55D3', '#8B008B'],
     foliageColors: ['#556B2F', '#6B8E23', '#808000'],
     fadeColor: '#F5F0FF',
+    dark: {
+      flowerColors: ['#B39DFF', '#E6E6FA', '#E3B5E3', '#D17FE8', '#A855F7'],
+      foliageColors: ['#8DB600', '#9ACD32', '#A4C639'],
+      background: '#16121F',
+    },
   },
 
   /**
@@ -93,6 +127,10 @@ export const themes: Record<string, GardenTheme> = {
     flowerColors: ['#D2691E', '#CD853F', '#DAA520', '#B8860B', '#8B4513', '#FF8C00'],
     foliageColors: ['#8B4513', '#A0522D', '#CD853F', '#D2691E'],
     fadeColor: '#FFF8DC',
+    dark: {
+      foliageColors: ['#C0703A', '#CD853F', '#DAA520', '#E08A4A'],
+      background: '#1E150D',
+    },
   },
 
   /**
@@ -105,6 +143,11 @@ export const themes: Record<string, GardenTheme> = {
     flowerColors: ['#4169E1', '#6A5ACD', '#9932CC', '#8A2BE2', '#483D8B'],
     foliageColors: ['#2F4F4F', '#006400', '#228B22'],
     fadeColor: '#1A1A2E',
+    dark: {
+      flowerColors: ['#6F8FFF', '#9D8CFF', '#C061F0', '#A855F7', '#7B6FD8'],
+      foliageColors: ['#4F8080', '#3C9A3C', '#4CAF50'],
+      background: '#1A1A2E',
+    },
   },
 
   /**
@@ -116,6 +159,10 @@ export const themes: Record<string, GardenTheme> = {
     accent: '#FF4500',
     flowerColors: ['#FF4500', '#FF6347', '#FFD700', '#00CED1', '#FF1493', '#32CD32'],
     foliageColors: ['#006400', '#228B22', '#32CD32'],
+    dark: {
+      foliageColors: ['#2E9E2E', '#32CD32', '#66E066'],
+      background: '#08161A',
+    },
   },
 
   /**
@@ -128,6 +175,10 @@ export const themes: Record<string, GardenTheme> = {
     flowerColors: ['#FFFFFF', '#F5F5F5', '#E8E8E8', '#98FB98'],
     foliageColors: ['#556B2F', '#6B8E23'],
     fadeColor: '#FAFAFA',
+    dark: {
+      foliageColors: ['#8FA868', '#9ACD32'],
+      background: '#141414',
+    },
   },
 };
 
@@ -322,6 +373,21 @@ export const presets: Record<string, GardenPreset> = {
 
 // ==================== HELPER FUNCTIONS ====================
 
+/**
+ * Convert a theme's light or dark half into colorScheme overrides
+ */
+function toSchemeVariant(variant: GardenThemeVariant | undefined): ColorSchemeVariant | undefined {
+  if (!variant) return undefined;
+
+  // What remains are color fields: palette, accent, flower and foliage colors
+  const { background, groundColor, ...colors } = variant;
+  return {
+    ...(Object.keys(colors).length > 0 ? { colors } : {}),
+    ...(background !== undefined ? { background } : {}),
+    ...(groundColor !== undefined ? { groundColor } : {}),
+  };
+}
+
 /**
  * Apply a theme to garden options
  * @param theme Theme name or GardenTheme object
@@ -346,10 +412,23 @@ export function applyTheme(
     ...options.colors,
   };
 
+  // Light and dark halves apply under colorScheme; explicit options.schemes win
+  const light = toSchemeVariant(themeConfig.light);
+  const dark = toSchemeVariant(themeConfig.dark);
+  const schemes = light || dark || options.schemes
+    ? {
+        light: { ...light, ...options.schemes?.light },
+        dark: { ...dark, ...options.schemes?.dark },
+      }
+    : undefined;
+
   return {
     ...options,
     colors,
     fadeColor: themeConfig.fadeColor ?? options.fadeColor,
+    background: options.background ?? themeConfig.background,
+    groundColor: options.groundColor ?? themeConfig.groundColor,
+    ...(schemes ? { schemes } : {}),
   };
 }
 
@@ -0,0 +1,188 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { drawBackground, drawScene, type SceneOptions } from './scene';
+import { SvgContext } from './SvgContext';
+import { generatePlants } from './plants';
+import { resolveDetachedOptions } from './defaults';
+import { GrowthProgressPool } from './GrowthProgressPool';
+import type { DrawingContext, GardenOptions } from './types';
+
+const WIDTH = 200;
+const HEIGHT = 100;
+const FULL_FRAME = `d="M0 0L${WIDTH} 0L${WIDTH} ${HEIGHT}L0 ${HEIGHT}Z"`;
+
+/**
+ * Draw a fully grown scene into an SvgContext and return the SVG
+ * @param garden - Options the plants are generated with as well as drawn with
+ */
+function renderScene(options: Partial<SceneOptions>, garden: Partial<GardenOptions> = {}): string {
+  const resolved = resolveDetachedOptions({ seed: 42, duration: 10, generations: 3, maxHeight: 0.6, ...garden });
+  const sceneOptions: SceneOptions = { ...resolved, ...options };
+  const ctx = new SvgContext(WIDTH, HEIGHT);
+  const pool = new GrowthProgressPool();
+  pool.beginFrame();
+  drawScene(
+    ctx,
+    generatePlants(resolved),
+    WIDTH,
+    HEIGHT,
+    resolved.duration,
+    sceneOptions,
+    pool
+  );
+  pool.endFrame();
+  return ctx.toSVG();
+}
+
+/**
+ * Markup after <defs>, i.e. the painted elements in order
+ */
+function body(svg: string): string {
+  return svg.replace(/<defs>.*<\/defs>/, '');
+}
+
+describe('scene backgrounds', () => {
+  it('should paint a solid background behind everything else', () => {
+    const svg = body(renderScene({ background: '#102030' }));
+
+    expect(svg).toContain(`<path ${FULL_FRAME} fill="#102030"/>`);
+    // First painted element, so plants and the ground sit on top of it
+    expect(svg.indexOf(`<path ${FULL_FRAME}`)).toBe(svg.indexOf('<path'));
+  });
+
+  it('should draw nothing behind the plants when transparent', () => {
+    const svg = renderScene({ background: 'transparent' });
+
+    expect(svg).not.toContain(FULL_FRAME);
+  });
+
+  it('should fade only the plants, never the background', () => {
+    const svg = body(renderScene({ background: '#102030', fadeHeight: 0.2 }));
+
+    // The background comes before, and so outside, the masked group the fade erases from
+    expect(svg).toMatch(new RegExp(`^<svg[^>]*><path ${FULL_FRAME} fill="#102030"/><g mask=`));
+  });
+
+  it('should map linear gradient angles like CSS', () => {
+    const down = renderScene({ background: { type: 'linear', stops: [{ offset: 0, color: '#000' }] } });
+    const right = renderScene({
+      background: { type: 'linear', angle: 90, stops: [{ offset: 0, color: '#000' }, { offset: 1, color: '#fff' }] },
+    });
+
+    expect(down).toContain('x1="100" y1="0" x2="100" y2="100"');
+    expect(right).toContain('x1="0" y1="50" x2="200" y2="50"');
+    expect(right).toContain('<stop offset="1" stop-color="#ffffff"/>');
+  });
+
+  it('should size radial gradients to the farthest corner', () => {
+    const svg = renderScene({
+      background: { type: 'radial', x: 0, y: 1, radius: 0.5, stops: [{ offset: 0, color: '#fff' }] },
+    });
+
+    // Farthest corner from (0, 100) is (200, 0): distance ~223.6, half of that is the radius
+    expect(svg).toMatch(/<radialGradient [^>]*cx="0" cy="100" r="111\.8/);
+  });
+
+  it('should run background callbacks behind the plants with the frame size', () => {
+    const painter = vi.fn((ctx: DrawingContext, width: number, height: number) => {
+      ctx.fillStyle = '#abcdef';
+      ctx.fillRect(0, 0, width, height / 2);
+    });
+    const svg = body(renderScene({ background: painter }));
+
+    expect(painter).toHaveBeenCalledWith(expect.anything(), WIDTH, HEIGHT);
+    expect(svg.indexOf('fill="#abcdef"')).toBeLessThan(svg.indexOf('fill="#8b7765"'));
+  });
+
+  it('should leave the composite mode and style untouched', () => {
+    const ctx = new SvgContext(WIDTH, HEIGHT);
+    ctx.fillStyle = '#123456';
+
+    drawBackground(ctx, WIDTH, HEIGHT, '#ffffff');
+
+    expect(ctx.globalCompositeOperation).toBe('source-over');
+    expect(ctx.fillStyle).toBe('#123456');
+  });
+});
+
+describe('scene terrain', () => {
+  it('should keep flat ground as a strip along the bottom edge', () => {
+    const svg = renderScene({});
+
+    expect(svg).toContain(`<path d="M0 ${HEIGHT - 8}L${WIDTH} ${HEIGHT - 8}L${WIDTH} ${HEIGHT}L0 ${HEIGHT}Z" fill="#8b7765"`);
+  });
+
+  it('should fill the soil up to the terrain surface and draw the grass line', () => {
+    const resolved = resolveDetachedOptions({
+      seed: 42,
+      terrain: { shape: () => 1, height: 0.2, soil: '#332211', grass: '#2f6b2f', grassWidth: 2 },
+    });
+    const svg = renderScene({ terrain: resolved.terrain });
+    // Surface sits 20% of the height plus the ground strip above the bottom edge
+    const surface = HEIGHT - 8 - HEIGHT * 0.2;
+
+    expect(svg).toMatch(new RegExp(`<path d="M0 ${HEIGHT}L0 ${surface}L[^"]*L${WIDTH} ${HEIGHT}Z" fill="#332211"/>`));
+    expect(svg).toMatch(new RegExp(`<path d="M0 ${surface}L[^"]*L${WIDTH} ${surface}" fill="none" stroke="#2f6b2f" stroke-width="2"`));
+  });
+});
+
+describe('scene anchors', () => {
+  it('should draw the ground along the anchor edge', () => {
+    expect(renderScene({ anchor: 'top' })).toContain(`<path d="M${WIDTH} 8L0 8L0 0L${WIDTH} 0Z" fill="#8b7765"`);
+    expect(renderScene({ anchor: 'left' })).toContain(`<path d="M8 0L8 ${HEIGHT}L0 ${HEIGHT}L0 0Z" fill="#8b7765"`);
+    expect(renderScene({ anchor: 'frame' }).match(/fill="#8b7765"/g)).toHaveLength(4);
+  });
+
+  it('should only erase the share of a frame belonging to each edge when fading', () => {
+    const svg = renderScene({ anchor: 'frame', fadeHeight: 0.2, maxHeight: 0.2 });
+
+    // Bottom edge: from its plant line (20px up) to the middle, between the corner diagonals
+    expect(svg).toContain('<path d="M20 80L180 80L150 50L50 50Z" fill="url(#');
+  });
+
+  it('should draw a ring of ground and fade outward from a radial circle', () => {
+    const svg = renderScene({
+      anchor: { type: 'radial', x: 0.5, y: 0.5, radius: 0.2 },
+      maxHeight: 0.5,
+      fadeHeight: 0.2,
+    });
+
+    // Circle of radius 20 at the center, with room to grow out to 50
+    expect(svg).toMatch(/<radialGradient [^>]*fx="100" fy="50" fr="35" cx="100" cy="50" r="41"/);
+    // Soil between the circle (20) and the ground line (28), the circle left open
+    expect(svg).toMatch(/<path d="M128 50[^"M]*C[^"M]*M120 50[^"]*" fill="#8b7765"/);
+  });
+});
+
+describe('scene depth rows', () => {
+  it('should scale, raise and haze back rows', () => {
+    const flat = renderScene({});
+    const deep = renderScene({}, { depth: { layers: 3, haze: 0 } });
+    const hazy = renderScene({}, { depth: 3 });
+
+    expect(deep).not.toBe(flat);
+    expect(hazy).not.toBe(deep);
+    // Haze only recolors
+    const shapes = (svg: string) => svg.replace(/#[0-9a-f]{6}/gi, '');
+    expect(shapes(hazy)).toBe(shapes(deep));
+  });
+
+  it('should blur back rows in SVG output as on a canvas', () => {
+    const svg = renderScene({}, { depth: { layers: 3, blur: 4 } });
+
+    // The middle row at half the blur, the back row at all of it
+    expect(svg).toContain('<feGaussianBlur stdDeviation="2"/>');
+    expect(svg).toContain('<feGaussianBlur stdDeviation="4"/>');
+    expect(renderScene({}, { depth: 3 })).not.toContain('<filter');
+  });
+
+  it('should shift back rows with the parallax view', () => {
+    const depth = { layers: 3, parallax: 0.1 };
+    const centered = renderScene({}, { depth });
+
+    expect(renderScene({ view: { x: 0, y: 0 } }, { depth })).toBe(centered);
+    expect(renderScene({ view: { x: 1, y: -1 } }, { depth })).not.toBe(centered);
+    // A single row has nothing to shift against
+    expect(renderScene({ view: { x: 1, y: 1 } }, { depth: { layers: 1, parallax: 0.1 } })).toBe(renderScene({}));
+  });
+});
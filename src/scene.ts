@@ -0,0 +1,540 @@
+/**
+ * Scene - Draws a garden frame onto any 2D context
+ * Shared by the DOM Renderer and headless rendering, so both produce the same pixels
+ */
+
+import type {
+  DrawingContext,
+  GardenAnchor,
+  GardenBackground,
+  LinearBackground,
+  ParallaxView,
+  PlantData,
+  PlantEdge,
+  RadialBackground,
+  ResolvedDepth,
+  ResolvedOptions,
+} from './types';
+import { drawPlant } from './plants';
+import { clamp } from './utils';
+import { ANIMATION } from './constants';
+import { createTerrainProfile } from './terrain';
+import {
+  anchorEdges,
+  getEdgeFrame,
+  getRadialFrame,
+  isRadialAnchor,
+  transformToCircle,
+  transformToEdge,
+  type EdgeFrame,
+  type RadialFrame,
+} from './anchor';
+import { getRowLift, getRowScale, hazePlant, resolveHazeColor } from './depth';
+import type { Color } from './Color';
+import type { GrowthProgressPool } from './GrowthProgressPool';
+
+/** Pixels between terrain surface samples */
+const TERRAIN_SAMPLE_SPACING = 4;
+
+/** Upper bound on surface samples, for very wide canvases */
+const TERRAIN_MAX_SEGMENTS = 512;
+
+/** Lower bound on surface samples around a radial garden's circle */
+const RADIAL_MIN_SEGMENTS = 48;
+
+/**
+ * Options that affect how a frame is drawn
+ * A null background (a callback that could not be serialized) draws nothing.
+ */
+export type SceneOptions = Pick<
+  ResolvedOptions,
+  'duration' | 'maxHeight' | 'fadeHeight' | 'groundColor' | 'terrain' | 'seed' | 'anchor' | 'depth'
+> & {
+  background: GardenBackground | null;
+  /** Pointer and scroll position that depth rows shift with; centered when unset */
+  view?: ParallaxView | null;
+};
+
+/**
+ * How the rows of a garden with depth are drawn in one frame
+ */
+export interface RowStyle {
+  depth: ResolvedDepth;
+  /** Color back rows are tinted toward, or null to only desaturate them */
+  haze: Color | null;
+  /** Parallax offset of the back row in pixels; nearer rows shift less */
+  shiftX: number;
+  shiftY: number;
+}
+
+/**
+ * Clear the frame to transparent
+ */
+export function clearScene(ctx: DrawingContext, width: number, height: number): void {
+  ctx.clearRect(0, 0, width, height);
+}
+
+/**
+ * Create the canvas gradient for a gradient background spec
+ * Linear gradients span the frame like CSS linear-gradient() at the same angle;
+ * radial radii are relative to the farthest corner from the center.
+ */
+function createBackgroundGradient(
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  spec: LinearBackground | RadialBackground
+): CanvasGradient {
+  let gradient: CanvasGradient;
+  if (spec.type === 'linear') {
+    const angle = ((spec.angle ?? 180) * Math.PI) / 180;
+    const dx = Math.sin(angle);
+    const dy = -Math.cos(angle);
+    const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    gradient = ctx.createLinearGradient(
+      width / 2 - dx * halfLength,
+      height / 2 - dy * halfLength,
+      width / 2 + dx * halfLength,
+      height / 2 + dy * halfLength
+    );
+  } else {
+    const cx = width * (spec.x ?? 0.5);
+    const cy = height * (spec.y ?? 0.5);
+    const farthest = Math.hypot(Math.max(cx, width - cx), Math.max(cy, height - cy));
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.max(0, farthest * (spec.radius ?? 1)));
+  }
+
+  for (const stop of spec.stops) {
+    gradient.addColorStop(clamp(stop.offset, 0, 1), stop.color);
+  }
+  return gradient;
+}
+
+/**
+ * Paint the background behind everything already drawn
+ * Uses 'destination-over', so it must come after the plants and fade: the fade
+ * then only erases plants and the background stays intact.
+ */
+export function drawBackground(
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  background: GardenBackground | null
+): void {
+  if (background === null || background === 'transparent') return;
+
+  ctx.save();
+  try {
+    ctx.globalCompositeOperation = 'destination-over';
+    if (typeof background === 'function') {
+      background(ctx, width, height);
+    } else {
+      ctx.fillStyle = typeof background === 'string'
+        ? background
+        : createBackgroundGradient(ctx, width, height, background);
+      ctx.fillRect(0, 0, width, height);
+    }
+  } finally {
+    ctx.restore();
+  }
+}
+
+/**
+ * Run a drawing step once per anchor edge, in that edge's frame
+ * A bottom-anchored garden draws straight onto the context.
+ */
+function forEachEdge(
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  anchor: GardenAnchor,
+  draw: (length: number, depth: number, frame: EdgeFrame) => void
+): void {
+  if (anchor === 'bottom') {
+    draw(width, height, { edge: 'bottom', length: width, depth: height });
+    return;
+  }
+
+  for (const edge of anchorEdges(anchor)) {
+    const frame = getEdgeFrame(edge, anchor, width, height);
+    ctx.save();
+    try {
+      transformToEdge(ctx, frame, width, height);
+      draw(frame.length, frame.depth, frame);
+    } finally {
+      ctx.restore();
+    }
+  }
+}
+
+/**
+ * Draw the ground along every anchor edge
+ */
+export function drawGround(
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  options: Pick<SceneOptions, 'groundColor' | 'terrain' | 'seed' | 'anchor'>
+): void {
+  if (isRadialAnchor(options.anchor)) {
+    drawRadialGround(ctx, getRadialFrame(options.anchor, width, height), options);
+    return;
+  }
+  forEachEdge(ctx, width, height, options.anchor, (length, depth) => drawEdgeGround(ctx, length, depth, options));
+}
+
+/**
+ * Draw the ground for one edge frame: soil filled up to just above the terrain
+ * surface, plus an optional grass line along it. Plants are rooted on the
+ * surface, so the soil overlaps their bases. Flat ground is a plain strip.
+ */
+function drawEdgeGround(
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  options: Pick<SceneOptions, 'groundColor' | 'terrain' | 'seed'>
+): void {
+  const { terrain } = options;
+  const top = height - ANIMATION.GROUND_HEIGHT;
+
+  // Soil top edge in canvas pixels, sampled across the width
+  const surface: Array<[number, number]> = [];
+  if (terrain.height === 0) {
+    ctx.fillStyle = terrain.soil ?? options.groundColor;
+    ctx.fillRect(0, top, width, ANIMATION.GROUND_HEIGHT);
+    surface.push([0, top], [width, top]);
+  } else {
+    const profile = createTerrainProfile(terrain.shape, options.seed);
+    const segments = clamp(Math.ceil(width / TERRAIN_SAMPLE_SPACING), 1, TERRAIN_MAX_SEGMENTS);
+    for (let i = 0; i <= segments; i++) {
+      const x = i / segments;
+      surface.push([x * width, top - profile(x) * terrain.height * height]);
+    }
+
+    ctx.beginPath();
+    ctx.moveTo(0, height);
+    for (const [x, y] of surface) ctx.lineTo(x, y);
+    ctx.lineTo(width, height);
+    ctx.closePath();
+    ctx.fillStyle = terrain.soil ?? options.groundColor;
+    ctx.fill();
+  }
+
+  if (terrain.grass && terrain.grassWidth > 0) {
+    ctx.beginPath();
+    surface.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+    ctx.strokeStyle = terrain.grass;
+    ctx.lineWidth = terrain.grassWidth;
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+}
+
+/**
+ * Draw the ground of a radial garden: a ring of soil around the circle, out
+ * to just beyond the terrain surface, plus an optional grass line along it
+ */
+function drawRadialGround(
+  ctx: DrawingContext,
+  circle: RadialFrame,
+  options: Pick<SceneOptions, 'groundColor' | 'terrain' | 'seed'>
+): void {
+  const { terrain } = options;
+  const ground = circle.radius + ANIMATION.GROUND_HEIGHT;
+
+  // Outer edge of the soil, clockwise from the top like plant positions
+  const traceSurface = (): void => {
+    if (terrain.height === 0) {
+      ctx.moveTo(circle.x + ground, circle.y);
+      ctx.arc(circle.x, circle.y, ground, 0, Math.PI * 2);
+      return;
+    }
+    const profile = createTerrainProfile(terrain.shape, options.seed);
+    const outer = ground + terrain.height * circle.depth;
+    const segments = clamp(
+      Math.ceil((Math.PI * 2 * outer) / TERRAIN_SAMPLE_SPACING), RADIAL_MIN_SEGMENTS, TERRAIN_MAX_SEGMENTS
+    );
+    for (let i = 0; i <= segments; i++) {
+      const position = i / segments;
+      const angle = position * Math.PI * 2;
+      const r = ground + profile(position) * terrain.height * circle.depth;
+      const x = circle.x + Math.sin(angle) * r;
+      const y = circle.y - Math.cos(angle) * r;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+  };
+
+  ctx.beginPath();
+  traceSurface();
+  // Counterclockwise inner circle leaves the middle unfilled
+  if (circle.radius > 0) {
+    ctx.moveTo(circle.x + circle.radius, circle.y);
+    ctx.arc(circle.x, circle.y, circle.radius, Math.PI * 2, 0, true);
+  }
+  ctx.fillStyle = terrain.soil ?? options.groundColor;
+  ctx.fill();
+
+  if (terrain.grass && terrain.grassWidth > 0) {
+    ctx.beginPath();
+    traceSurface();
+    ctx.strokeStyle = terrain.grass;
+    ctx.lineWidth = terrain.grassWidth;
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+}
+
+/**
+ * Work out how rows are drawn for a frame
+ * @returns The style, or null for a garden with a single row
+ */
+export function getRowStyle(width: number, height: number, options: SceneOptions): RowStyle | null {
+  const { depth, view } = options;
+  if (depth.layers <= 1) return null;
+
+  return {
+    depth,
+    haze: resolveHazeColor(depth, options.background),
+    shiftX: view ? view.x * depth.parallax * width : 0,
+    shiftY: view ? view.y * depth.parallax * height : 0,
+  };
+}
+
+/**
+ * Draw a plant in its row, in a frame length x depth pixels
+ * Back rows are scaled about the plant's root, raised, hazed and blurred.
+ * Changes the context's state; callers save and restore around it.
+ */
+function drawPlantInRow(
+  ctx: DrawingContext,
+  plant: PlantData,
+  length: number,
+  depth: number,
+  time: number,
+  pool: GrowthProgressPool | undefined,
+  rows: RowStyle | null
+): void {
+  const row = plant.depth ?? 0;
+  if (!rows || row <= 0) {
+    drawPlant(ctx, plant, length, depth, time, pool);
+    return;
+  }
+
+  // drawPlant roots the plant at its elevation; scale about that point, then raise it
+  const scale = getRowScale(rows.depth, row);
+  const rootX = plant.x * length;
+  const rootY = depth * (1 - (plant.elevation ?? 0));
+  ctx.translate(rootX, rootY - getRowLift(rows.depth, row) * depth);
+  ctx.scale(scale, scale);
+  ctx.translate(-rootX, -rootY);
+  if (rows.depth.blur > 0) {
+    ctx.filter = `blur(${rows.depth.blur * row}px)`;
+  }
+  drawPlant(ctx, hazePlant(plant, rows.depth.haze * row, rows.haze), length, depth, time, pool);
+}
+
+/**
+ * Draw plants that have started growing at the given time
+ * Plants off the bottom edge are drawn in their edge's frame, and plants in a
+ * radial garden each in their own frame turned to face out from the circle.
+ */
+export function drawPlants(
+  ctx: DrawingContext,
+  plants: PlantData[],
+  width: number,
+  height: number,
+  time: number,
+  pool?: GrowthProgressPool,
+  anchor: SceneOptions['anchor'] = 'bottom',
+  rows: RowStyle | null = null
+): void {
+  // Parallax shifts rows on screen, whichever way their frame faces
+  const shiftRow = (plant: PlantData): void => {
+    const row = plant.depth ?? 0;
+    if (rows && row > 0) ctx.translate(rows.shiftX * row, rows.shiftY * row);
+  };
+
+  if (isRadialAnchor(anchor)) {
+    const circle = getRadialFrame(anchor, width, height);
+    for (const plant of plants) {
+      if (time < plant.delay) continue;
+      ctx.save();
+      shiftRow(plant);
+      transformToCircle(ctx, circle, plant.x);
+      drawPlantInRow(ctx, plant, circle.length, circle.depth, time, pool, rows);
+      ctx.restore();
+    }
+    return;
+  }
+
+  const frames: Partial<Record<PlantEdge, EdgeFrame>> = {};
+  for (const plant of plants) {
+    // Skip plants that haven't started growing yet
+    if (time < plant.delay) continue;
+
+    const edge = plant.edge ?? 'bottom';
+    if (anchor === 'bottom' && edge === 'bottom') {
+      if (!rows) {
+        drawPlant(ctx, plant, width, height, time, pool);
+        continue;
+      }
+      ctx.save();
+      shiftRow(plant);
+      drawPlantInRow(ctx, plant, width, height, time, pool, rows);
+      ctx.restore();
+      continue;
+    }
+
+    const frame = frames[edge] ?? (frames[edge] = getEdgeFrame(edge, anchor, width, height));
+    ctx.save();
+    shiftRow(plant);
+    transformToEdge(ctx, frame, width, height);
+    drawPlantInRow(ctx, plant, frame.length, frame.depth, time, pool, rows);
+    ctx.restore();
+  }
+}
+
+/**
+ * Apply gradient fade to make plants fade out further from their edge or circle
+ * This improves content legibility when plants might obscure page content
+ */
+export function applyVerticalFade(
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  options: SceneOptions
+): void {
+  const { fadeHeight, maxHeight, terrain, anchor } = options;
+  if (fadeHeight <= 0) return;
+
+  if (isRadialAnchor(anchor)) {
+    // Fade outward from the circle, starting maxHeight beyond the highest ground
+    const circle = getRadialFrame(anchor, width, height);
+    const fadeStart = circle.radius + circle.depth * (maxHeight + terrain.height);
+    const gradient = ctx.createRadialGradient(
+      circle.x, circle.y, fadeStart, circle.x, circle.y, fadeStart + circle.depth * fadeHeight
+    );
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+    return;
+  }
+
+  forEachEdge(ctx, width, height, anchor, (length, depth, frame) => {
+    // Calculate fade zone positions
+    // Plants grow from the ground, so fade starts maxHeight above its highest point
+    const plantTopY = depth * (1 - maxHeight - terrain.height);
+    const fadeStartY = plantTopY;
+    const fadeEndY = Math.max(0, plantTopY - depth * fadeHeight);
+
+    // Only alpha matters for destination-out: fully erase at the top, nothing at the plant line
+    const gradient = ctx.createLinearGradient(0, fadeEndY, 0, fadeStartY);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+    // Erase what has been drawn so far; the background is painted afterwards
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = gradient;
+    if (anchor === 'frame') {
+      // Only erase this edge's share of the card: up to the diagonals from
+      // its corners and the middle, so other edges' plants are left alone
+      const across = frame.edge === 'top' || frame.edge === 'bottom' ? height : width;
+      const start = depth - fadeStartY;
+      const end = Math.min(length, across) / 2;
+      if (end > start) {
+        ctx.beginPath();
+        ctx.moveTo(start, fadeStartY);
+        ctx.lineTo(length - start, fadeStartY);
+        ctx.lineTo(length - end, depth - end);
+        ctx.lineTo(end, depth - end);
+        ctx.closePath();
+        ctx.fill();
+      }
+    } else {
+      ctx.fillRect(0, 0, length, fadeStartY);
+    }
+    ctx.globalCompositeOperation = 'source-over';
+  });
+}
+
+/**
+ * Draw a complete frame: ground, plants, fade, then the background behind them
+ * The context's transform should already map CSS pixels (width x height) to the canvas.
+ */
+export function drawScene(
+  ctx: DrawingContext,
+  plants: PlantData[],
+  width: number,
+  height: number,
+  time: number,
+  options: SceneOptions,
+  pool?: GrowthProgressPool
+): void {
+  clearScene(ctx, width, height);
+  drawGround(ctx, width, height, options);
+  drawPlants(ctx, plants, width, height, time, pool, options.anchor, getRowStyle(width, height, options));
+  applyVerticalFade(ctx, width, height, options);
+  drawBackground(ctx, width, height, options.background);
+}
+
+/**
+ * Draw a new garden growing in front of a fully grown one fading out
+ * @param time - Current time of the new cycle
+ * @param outgoingAlpha - Opacity of the previous, fully grown garden (0-1)
+ */
+export function drawCrossfadeScene(
+  ctx: DrawingContext,
+  plants: PlantData[],
+  width: number,
+  height: number,
+  time: number,
+  outgoingAlpha: number,
+  options: SceneOptions,
+  pool?: GrowthProgressPool
+): void {
+  try {
+    clearScene(ctx, width, height);
+    drawGround(ctx, width, height, options);
+    const rows = getRowStyle(width, height, options);
+
+    ctx.globalAlpha = Math.max(0, Math.min(1, outgoingAlpha));
+    drawPlants(ctx, plants, width, height, options.duration, pool, options.anchor, rows);
+    ctx.globalAlpha = 1;
+
+    drawPlants(ctx, plants, width, height, time, pool, options.anchor, rows);
+    applyVerticalFade(ctx, width, height, options);
+    drawBackground(ctx, width, height, options.background);
+  } finally {
+    ctx.globalAlpha = 1;
+  }
+}
+
+/**
+ * Check an output size, in CSS pixels
+ * @throws {Error} If width or height is not a positive finite number
+ */
+export function validateSize(width: number, height: number): void {
+  if (!(width > 0) || !(height > 0) || !Number.isFinite(width) || !Number.isFinite(height)) {
+    throw new Error('Garten: width and height must be positive numbers');
+  }
+}
+
+/**
+ * Pick the time to render from an explicit time or a progress fraction
+ * @returns Time in seconds, clamped to [0, duration]
+ */
+export function resolveRenderTime(
+  time: number | undefined,
+  progress: number | undefined,
+  duration: number
+): number {
+  return time !== undefined && Number.isFinite(time)
+    ? clamp(time, 0, duration)
+    : clamp(progress ?? 1, 0, 1) * duration;
+}
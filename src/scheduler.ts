@@ -0,0 +1,15 @@
+/**
+ * Scheduler - Default time source and frame scheduler
+ */
+
+import type { FrameScheduler } from './types';
+
+/**
+ * Browser scheduler backed by performance.now() and requestAnimationFrame()
+ * Globals are looked up on each call, so polyfills installed later still apply.
+ */
+export const browserScheduler: FrameScheduler = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+};
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SNAPSHOT_VERSION,
+  serializeOptions,
+  deserializeOptions,
+  isGardenSnapshot,
+  readPersistedSnapshot,
+  writePersistedSnapshot,
+} from './snapshot';
+import { resolveOptions } from './defaults';
+import type { GardenSnapshot } from './types';
+
+function createSnapshot(overrides: Partial<GardenSnapshot> = {}): GardenSnapshot {
+  const options = resolveOptions({ container: document.createElement('div'), seed: 7 });
+  return {
+    version: SNAPSHOT_VERSION,
+    options: serializeOptions(options),
+    elapsedTime: 12,
+    speed: 1,
+    state: 'playing',
+    lastReportedGeneration: 0,
+    ...overrides,
+  };
+}
+
+describe('snapshot', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  describe('serializeOptions', () => {
+    it('should drop the container, events and persistKey', () => {
+      const options = resolveOptions({
+        container: document.createElement('div'),
+        persistKey: 'garden',
+        events: { onComplete: () => {} },
+      });
+      const serialized = serializeOptions(options) as Record<string, unknown>;
+
+      expect(serialized.container).toBeUndefined();
+      expect(serialized.events).toBeUndefined();
+      expect(serialized.persistKey).toBeUndefined();
+      expect(serialized.seed).toBe(options.seed);
+    });
+
+    it('should survive a JSON round trip', () => {
+      const options = resolveOptions({
+        container: document.createElement('div'),
+        categories: ['rose'],
+        colors: { flowerColors: ['#ff0000'] },
+      });
+      const serialized = serializeOptions(options);
+
+      expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+    });
+
+    it('should keep scheme overrides but drop background callbacks', () => {
+      const options = resolveOptions({
+        container: document.createElement('div'),
+        colorScheme: 'auto',
+        schemes: { dark: { colors: { accent: '#00ffaa' }, background: () => {} }, light: { background: '#fafafa' } },
+      });
+      const serialized = serializeOptions(options);
+
+      expect(serialized.colorScheme).toBe('auto');
+      expect(serialized.schemes.dark).toEqual({ colors: { accent: '#00ffaa' }, background: null });
+      expect(deserializeOptions(serialized).schemes).toEqual({
+        light: { background: '#fafafa' },
+        dark: { colors: { accent: '#00ffaa' }, background: undefined },
+      });
+    });
+
+    it('should keep terrain shapes but flatten terrain functions', () => {
+      const hills = serializeOptions(
+        resolveOptions({ container: document.createElement('div'), terrain: { shape: 'hills', grass: '#2f6b2f' } })
+      );
+      expect(deserializeOptions(hills).terrain).toEqual({
+        shape: 'hills', height: 0.12, soil: undefined, grass: '#2f6b2f', grassWidth: 3,
+      });
+
+      const custom = serializeOptions(resolveOptions({ container: document.createElement('div'), terrain: () => 1 }));
+      expect(custom.terrain).toMatchObject({ shape: 'flat', height: 0 });
+      expect(JSON.parse(JSON.stringify(custom))).toEqual(custom);
+    });
+
+    it('should keep distribution modes but make density functions uniform', () => {
+      const clusters = serializeOptions(
+        resolveOptions({ container: document.createElement('div'), distribution: { mode: 'clusters', clusters: 4 } })
+      );
+      expect(deserializeOptions(clusters).distribution).toEqual({
+        mode: 'clusters', minGap: undefined, clusters: 4, spread: 0.06,
+      });
+
+      const custom = serializeOptions(resolveOptions({ container: document.createElement('div'), distribution: (x) => x }));
+      expect(custom.distribution.mode).toBe('uniform');
+      expect(JSON.parse(JSON.stringify(custom))).toEqual(custom);
+    });
+
+    it('should keep avoided selectors and rectangles but not elements', () => {
+      const rect = { x: 10, y: 20, width: 30, height: 40 };
+      const options = serializeOptions(
+        resolveOptions({ container: document.createElement('div'), avoid: [document.createElement('h1'), '.cta', rect] })
+      );
+
+      expect(options.avoid).toEqual(['.cta', rect]);
+      expect(JSON.parse(JSON.stringify(options))).toEqual(options);
+    });
+
+    it('should map null categories back to undefined', () => {
+      const snapshot = createSnapshot();
+      expect(snapshot.options.categories).toBeNull();
+      expect(deserializeOptions(snapshot.options).categories).toBeUndefined();
+    });
+  });
+
+  describe('isGardenSnapshot', () => {
+    it('should accept a valid snapshot', () => {
+      expect(isGardenSnapshot(createSnapshot())).toBe(true);
+    });
+
+    it('should reject other versions and malformed values', () => {
+      expect(isGardenSnapshot(null)).toBe(false);
+      expect(isGardenSnapshot({})).toBe(false);
+      expect(isGardenSnapshot(createSnapshot({ version: SNAPSHOT_VERSION + 1 }))).toBe(false);
+      expect(isGardenSnapshot(createSnapshot({ speed: 0 }))).toBe(false);
+      expect(isGardenSnapshot(createSnapshot({ elapsedTime: NaN }))).toBe(false);
+      expect(isGardenSnapshot({ ...createSnapshot(), state: 'running' })).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should write and read back a snapshot', () => {
+      const snapshot = createSnapshot();
+      writePersistedSnapshot('garden', snapshot);
+      expect(readPersistedSnapshot('garden')).toEqual(snapshot);
+    });
+
+    it('should return null for missing or corrupt entries', () => {
+      expect(readPersistedSnapshot('missing')).toBeNull();
+      sessionStorage.setItem('corrupt', '{not json');
+      expect(readPersistedSnapshot('corrupt')).toBeNull();
+    });
+
+    it('should ignore storage errors', () => {
+      const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+      expect(() => writePersistedSnapshot('garden', createSnapshot())).not.toThrow();
+      setItem.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Snapshot - Serialize garden playback state and persist it to sessionStorage
+ */
+
+import type {
+  AvoidRect,
+  ColorSchemeVariant,
+  GardenBackground,
+  GardenOptions,
+  GardenSnapshot,
+  PlaybackState,
+  ResolvedDistribution,
+  ResolvedOptions,
+  ResolvedTerrain,
+  SnapshotOptions,
+  SnapshotSchemeVariant,
+} from './types';
+import { toTerrainOptions } from './terrain';
+import { toDistributionOptions } from './distribution';
+import { toDepthOptions } from './depth';
+import { isAvoidRect } from './avoid';
+
+/**
+ * Current snapshot format version
+ * Snapshots with a different version are ignored when restoring.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+const PLAYBACK_STATES: readonly PlaybackState[] = ['idle', 'playing', 'paused', 'complete'];
+
+/**
+ * Copy a background into a JSON-safe value, null for a drawing callback
+ */
+function serializeBackground(background: GardenBackground): SnapshotOptions['background'] {
+  if (typeof background === 'function') return null;
+  if (typeof background === 'string') return background;
+  return { ...background, stops: background.stops.map((stop) => ({ ...stop })) };
+}
+
+/**
+ * Copy a terrain into a JSON-safe value, flat ground for a terrain function
+ */
+function serializeTerrain(terrain: ResolvedTerrain): SnapshotOptions['terrain'] {
+  if (typeof terrain.shape === 'function') return { ...terrain, shape: 'flat', height: 0 };
+  return { ...terrain, shape: terrain.shape };
+}
+
+/**
+ * Copy a distribution into a JSON-safe value, uniform for a density function
+ */
+function serializeDistribution(distribution: ResolvedDistribution): SnapshotOptions['distribution'] {
+  return { ...distribution, mode: typeof distribution.mode === 'function' ? 'uniform' : distribution.mode };
+}
+
+/**
+ * Copy a color scheme variant into a JSON-safe value
+ */
+function serializeSchemeVariant(variant: ColorSchemeVariant | undefined): SnapshotSchemeVariant | undefined {
+  if (!variant) return undefined;
+  const { background, colors, ...rest } = variant;
+  return {
+    ...rest,
+    ...(colors ? { colors: { ...colors } } : {}),
+    ...(background !== undefined ? { background: serializeBackground(background) } : {}),
+  };
+}
+
+/**
+ * Turn a serialized variant back into options, dropping unrestorable backgrounds
+ */
+function deserializeSchemeVariant(variant: SnapshotSchemeVariant | undefined): ColorSchemeVariant | undefined {
+  if (!variant) return undefined;
+  return { ...variant, background: variant.background ?? undefined };
+}
+
+/**
+ * Copy resolved options into a JSON-safe object
+ * Drops the container, event callbacks, persistence key, scroll target, clock,
+ * scheduler and worker factory. Background drawing callbacks become null,
+ * terrain functions become flat ground, density functions become a uniform
+ * distribution and avoided elements are left out.
+ */
+export function serializeOptions(options: ResolvedOptions): SnapshotOptions {
+  const {
+    container, events, persistKey, scrollTarget, clock, scheduler, createWorker, background, schemes, terrain, avoid,
+    distribution, ...rest
+  } = options;
+  return {
+    ...rest,
+    background: serializeBackground(background),
+    terrain: serializeTerrain(terrain),
+    distribution: serializeDistribution(distribution),
+    avoid: avoid.flatMap((target): Array<string | AvoidRect> => {
+      if (typeof target === 'string') return [target];
+      return isAvoidRect(target) ? [{ ...target }] : [];
+    }),
+    schemes: {
+      light: serializeSchemeVariant(schemes.light),
+      dark: serializeSchemeVariant(schemes.dark),
+    },
+    colors: {
+      ...rest.colors,
+      flowerColors: [...rest.colors.flowerColors],
+      foliageColors: [...rest.colors.foliageColors],
+    },
+    categories: rest.categories ? [...rest.categories] : null,
+    scrollRange: rest.scrollRange ? { ...rest.scrollRange } : null,
+  };
+}
+
+/**
+ * Convert snapshot options back into constructor options
+ */
+export function deserializeOptions(options: SnapshotOptions): Omit<GardenOptions, 'container'> {
+  return {
+    ...options,
+    categories: options.categories ?? undefined,
+    scrollRange: options.scrollRange ?? undefined,
+    background: options.background ?? undefined,
+    schemes: {
+      light: deserializeSchemeVariant(options.schemes.light),
+      dark: deserializeSchemeVariant(options.schemes.dark),
+    },
+    terrain: toTerrainOptions(options.terrain),
+    distribution: toDistributionOptions(options.distribution),
+    depth: toDepthOptions(options.depth),
+  };
+}
+
+/**
+ * Check that a value is a snapshot this version can restore
+ */
+export function isGardenSnapshot(value: unknown): value is GardenSnapshot {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const snapshot = value as Partial<GardenSnapshot>;
+  return (
+    snapshot.version === SNAPSHOT_VERSION &&
+    typeof snapshot.options === 'object' &&
+    snapshot.options !== null &&
+    Number.isFinite(snapshot.elapsedTime) &&
+    Number.isFinite(snapshot.speed) &&
+    snapshot.speed !== 0 &&
+    Number.isFinite(snapshot.lastReportedGeneration) &&
+    PLAYBACK_STATES.includes(snapshot.state as PlaybackState)
+  );
+}
+
+/**
+ * Read a snapshot from sessionStorage
+ * @returns The snapshot, or null if missing, malformed or storage is unavailable
+ */
+export function readPersistedSnapshot(key: string): GardenSnapshot | null {
+  try {
+    if (typeof sessionStorage === 'undefined') return null;
+
+    const raw = sessionStorage.getItem(key);
+    if (raw === null) return null;
+
+    const parsed: unknown = JSON.parse(raw);
+    return isGardenSnapshot(parsed) ? parsed : null;
+  } catch {
+    // Storage blocked (privacy mode, sandboxed iframe) or invalid JSON
+    return null;
+  }
+}
+
+/**
+ * Write a snapshot to sessionStorage, ignoring storage errors
+ */
+export function writePersistedSnapshot(key: string, snapshot: GardenSnapshot): void {
+  try {
+    if (typeof sessionStorage === 'undefined') return;
+    sessionStorage.setItem(key, JSON.stringify(snapshot));
+  } catch {
+    // Storage blocked or quota exceeded - persistence is best effort
+  }
+}
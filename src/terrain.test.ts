@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createTerrainProfile, resolveTerrain } from './terrain';
+import { generatePlants } from './plants';
+import { resolveDetachedOptions } from './defaults';
+
+const SAMPLES = Array.from({ length: 101 }, (_, i) => i / 100);
+
+describe('resolveTerrain', () => {
+  it('should default to flat ground with no height', () => {
+    expect(resolveTerrain(undefined)).toEqual({
+      shape: 'flat', height: 0, soil: null, grass: null, grassWidth: 3,
+    });
+    expect(resolveTerrain({ shape: 'flat', height: 0.3 }).height).toBe(0);
+  });
+
+  it('should fill in and clamp the height of shaped terrain', () => {
+    expect(resolveTerrain('hills').height).toBe(0.12);
+    expect(resolveTerrain({ shape: 'mound', height: 2 }).height).toBe(0.5);
+    expect(resolveTerrain({ shape: 'terraces', height: -1, grass: '#4a7c3f' })).toMatchObject({
+      height: 0, grass: '#4a7c3f',
+    });
+  });
+});
+
+describe('createTerrainProfile', () => {
+  it('should be deterministic per seed and stay within 0-1', () => {
+    for (const shape of ['hills', 'mound', 'terraces'] as const) {
+      const a = SAMPLES.map(createTerrainProfile(shape, 42));
+      const b = SAMPLES.map(createTerrainProfile(shape, 42));
+
+      expect(a).toEqual(b);
+      expect(Math.min(...a)).toBeGreaterThanOrEqual(0);
+      expect(Math.max(...a)).toBeLessThanOrEqual(1);
+    }
+    expect(SAMPLES.map(createTerrainProfile('hills', 1))).not.toEqual(SAMPLES.map(createTerrainProfile('hills', 2)));
+  });
+
+  it('should build terraces from level steps spanning the full height', () => {
+    const profile = createTerrainProfile('terraces', 42);
+    const levels = new Set(SAMPLES.map((x) => Math.round(profile(x) * 1000) / 1000));
+
+    expect(levels.has(0)).toBe(true);
+    expect(levels.has(1)).toBe(true);
+    // Mostly level: most samples sit on a step rather than a riser
+    const onStep = SAMPLES.filter((x) => Math.abs(profile(x) - profile(Math.min(1, x + 0.005))) < 1e-9);
+    expect(onStep.length).toBeGreaterThan(SAMPLES.length / 2);
+  });
+
+  it('should clamp custom functions and treat invalid values as 0', () => {
+    const profile = createTerrainProfile((x) => (x < 0.5 ? x * 4 : NaN), 0);
+
+    expect(profile(0.1)).toBeCloseTo(0.4);
+    expect(profile(0.4)).toBe(1);
+    expect(profile(0.8)).toBe(0);
+  });
+});
+
+describe('terrain and plant generation', () => {
+  it('should raise plants onto the terrain without moving them', () => {
+    const flat = generatePlants(resolveDetachedOptions({ seed: 42, generations: 3 }));
+    const hills = generatePlants(resolveDetachedOptions({ seed: 42, generations: 3, terrain: 'hills' }));
+    const profile = createTerrainProfile('hills', 42);
+
+    expect(hills.map((p) => p.x)).toEqual(flat.map((p) => p.x));
+    expect(flat.every((p) => p.elevation === 0)).toBe(true);
+    for (const plant of hills) {
+      expect(plant.elevation).toBeCloseTo(profile(plant.x) * 0.12);
+    }
+  });
+});
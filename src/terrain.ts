@@ -0,0 +1,126 @@
+/**
+ * Terrain - Ground profiles that plants are rooted on
+ * Built-in shapes are derived from the garden seed on their own random stream,
+ * so changing the terrain never changes which plants grow or where.
+ */
+
+import type { GardenOptions, ResolvedTerrain, TerrainFunction, TerrainOptions, TerrainShape } from './types';
+import { createRandom, clamp } from './utils';
+import { LAYOUT, OPTION_BOUNDS } from './constants';
+
+/**
+ * Elevation (0-1) at a position across the width (0-1)
+ */
+export type TerrainProfile = (x: number) => number;
+
+/** Offset of the terrain's random stream from the plant streams (seed + gen * 1000 + p * 100) */
+const TERRAIN_SEED_OFFSET = -7919;
+
+/** Fraction of each terrace taken by the rise to the next one */
+const TERRACE_RISER = 0.2;
+
+/**
+ * Smooth 0-1 ramp
+ */
+function smoothstep(t: number): number {
+  const c = clamp(t, 0, 1);
+  return c * c * (3 - 2 * c);
+}
+
+/**
+ * Resolve the terrain option, filling in defaults
+ * Flat ground has no height, whatever was asked for.
+ */
+export function resolveTerrain(terrain: GardenOptions['terrain']): ResolvedTerrain {
+  const spec = typeof terrain === 'object' && terrain !== null
+    ? terrain
+    : { shape: terrain ?? 'flat' };
+  const { min, max } = OPTION_BOUNDS.TERRAIN_HEIGHT;
+
+  return {
+    shape: spec.shape,
+    height: spec.shape === 'flat' ? 0 : clamp(spec.height ?? LAYOUT.DEFAULT_TERRAIN_HEIGHT, min, max),
+    soil: spec.soil ?? null,
+    grass: spec.grass ?? null,
+    grassWidth: Math.max(0, spec.grassWidth ?? 3),
+  };
+}
+
+/**
+ * Turn a resolved terrain back into options
+ */
+export function toTerrainOptions<T extends Pick<ResolvedTerrain, 'soil' | 'grass'>>(
+  terrain: T
+): Omit<T, 'soil' | 'grass'> & Pick<TerrainOptions, 'soil' | 'grass'> {
+  return { ...terrain, soil: terrain.soil ?? undefined, grass: terrain.grass ?? undefined };
+}
+
+/**
+ * Rolling hills: a few sine waves with seeded frequencies and phases
+ */
+function createHills(rand: () => number): TerrainProfile {
+  const waves = [
+    { frequency: 0.6 + rand() * 0.6, phase: rand() * Math.PI * 2, amplitude: 1 },
+    { frequency: 1.5 + rand() * 1.2, phase: rand() * Math.PI * 2, amplitude: 0.45 },
+    { frequency: 3.5 + rand() * 2, phase: rand() * Math.PI * 2, amplitude: 0.15 },
+  ];
+  const total = waves.reduce((sum, wave) => sum + wave.amplitude, 0);
+
+  return (x) => {
+    let sum = 0;
+    for (const wave of waves) {
+      sum += wave.amplitude * Math.sin(x * wave.frequency * Math.PI * 2 + wave.phase);
+    }
+    return (sum / total + 1) / 2;
+  };
+}
+
+/**
+ * A single rounded rise with a seeded center and spread
+ */
+function createMound(rand: () => number): TerrainProfile {
+  const center = 0.35 + rand() * 0.3;
+  const spread = 0.18 + rand() * 0.12;
+  return (x) => Math.exp(-(((x - center) / spread) ** 2));
+}
+
+/**
+ * A slope of 3-5 level steps, rising to the left or right
+ */
+function createTerraces(rand: () => number): TerrainProfile {
+  const steps = 3 + Math.floor(rand() * 3);
+  const risesRight = rand() < 0.5;
+
+  return (x) => {
+    const t = clamp(risesRight ? x : 1 - x, 0, 1) * steps;
+    const step = Math.min(steps - 1, Math.floor(t));
+    // Each step is level, then rises smoothly into the next; the top one stays level
+    const rise = step < steps - 1 ? smoothstep((t - step - (1 - TERRACE_RISER)) / TERRACE_RISER) : 0;
+    return (step + rise) / (steps - 1);
+  };
+}
+
+/**
+ * Build the elevation profile for a terrain and seed
+ * Custom functions are clamped to 0-1; built-in shapes are deterministic per seed.
+ */
+export function createTerrainProfile(shape: TerrainShape | TerrainFunction, seed: number): TerrainProfile {
+  if (typeof shape === 'function') {
+    return (x) => {
+      const elevation = shape(x);
+      return Number.isFinite(elevation) ? clamp(elevation, 0, 1) : 0;
+    };
+  }
+
+  const rand = createRandom(seed + TERRAIN_SEED_OFFSET);
+  switch (shape) {
+    case 'hills':
+      return createHills(rand);
+    case 'mound':
+      return createMound(rand);
+    case 'terraces':
+      return createTerraces(rand);
+    default:
+      return () => 0;
+  }
+}
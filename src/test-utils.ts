@@ -0,0 +1,58 @@
+/**
+ * Test utilities - Fixtures shared by the test suites
+ * Not part of the package; only imported from *.test.ts files.
+ */
+
+/**
+ * A recorded 2D context method call
+ */
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Canvas stand-in whose 2D context records every method call
+ * getImageData() ends a frame, moving the calls so far into frames, and
+ * returns image data of the requested size filled with the frame count.
+ */
+export function createRecordingCanvas(width: number, height: number) {
+  const frames: RecordedCall[][] = [];
+  let calls: RecordedCall[] = [];
+  const state: Record<string | symbol, unknown> = {};
+  const ctx = new Proxy(state, {
+    get(target, prop) {
+      if (prop in target) return target[prop];
+      if (prop === 'getImageData') {
+        return (_x: number, _y: number, w: number, h: number) => {
+          frames.push(calls);
+          calls = [];
+          const data = new Uint8ClampedArray(w * h * 4).fill(frames.length);
+          return { data, width: w, height: h };
+        };
+      }
+      return (...args: unknown[]) => {
+        calls.push({ method: String(prop), args });
+        if (prop === 'createLinearGradient' || prop === 'createRadialGradient') {
+          return { addColorStop: () => {} };
+        }
+        return undefined;
+      };
+    },
+    set(target, prop, value) {
+      target[prop] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+
+  return {
+    width,
+    height,
+    frames,
+    /** Calls since the last getImageData() */
+    get calls() {
+      return calls;
+    },
+    getContext: () => ctx,
+  };
+}
@@ -1,3 +1,5 @@
+import type { GardenClock } from './GardenClock';
+
 /**
  * Plant category for efficient type grouping
  * Categories determine rendering approach and height ranges
@@ -255,11 +257,484 @@ export type TimingCurve = 'linear' | 'ease-out' | 'ease-in' | 'ease-in-out' | nu
  */
 export type Density = 'sparse' | 'normal' | 'dense' | 'lush';
 
+/**
+ * Light or dark appearance
+ * - 'light' / 'dark': always use that scheme
+ * - 'auto': follow the prefers-color-scheme media query, switching live
+ */
+export type ColorScheme = 'auto' | 'light' | 'dark';
+
 /**
  * Playback state
  */
 export type PlaybackState = 'idle' | 'playing' | 'paused' | 'complete';
 
+/**
+ * Why playback was paused automatically
+ * - 'hidden': the page (tab) is hidden
+ * - 'offscreen': the container has been scrolled out of view
+ */
+export type AutoPauseReason = 'hidden' | 'offscreen';
+
+/**
+ * How a looping garden starts its next cycle
+ * - 'restart': jump back to an empty garden
+ * - 'ping-pong': play backwards to the start, then forwards again
+ * - 'reseed': restart with a new seed derived from the current one
+ * - 'crossfade': restart while the previous garden fades out
+ */
+export type LoopMode = 'restart' | 'ping-pong' | 'reseed' | 'crossfade';
+
+/**
+ * What moves the timeline
+ * - 'time': wall-clock playback controlled by play/pause
+ * - 'scroll': the page's scroll position
+ * - 'manual': setProgress() calls, tweened towards each target
+ */
+export type GardenDriver = 'time' | 'scroll' | 'manual';
+
+/**
+ * Color stop of a background gradient
+ */
+export interface BackgroundGradientStop {
+  /** Position along the gradient (0-1) */
+  offset: number;
+  /** CSS color */
+  color: string;
+}
+
+/**
+ * Linear background gradient, angled like CSS linear-gradient()
+ */
+export interface LinearBackground {
+  type: 'linear';
+  /**
+   * Direction in degrees: 0 points up, 90 right, 180 down
+   * @default 180
+   */
+  angle?: number;
+  stops: BackgroundGradientStop[];
+}
+
+/**
+ * Radial background gradient
+ */
+export interface RadialBackground {
+  type: 'radial';
+  /**
+   * Center as fractions of the width and height
+   * @default 0.5
+   */
+  x?: number;
+  /** @default 0.5 */
+  y?: number;
+  /**
+   * Radius as a fraction of the distance from the center to the farthest corner
+   * @default 1
+   */
+  radius?: number;
+  stops: BackgroundGradientStop[];
+}
+
+/**
+ * Draws a custom backdrop (image, pattern, scene) behind the garden
+ * Runs with globalCompositeOperation 'destination-over', so each shape lands
+ * behind everything drawn before it: draw the front-most shapes first.
+ * @param width - Width in CSS pixels
+ * @param height - Height in CSS pixels
+ */
+export type BackgroundPainter = (ctx: DrawingContext, width: number, height: number) => void;
+
+/**
+ * What is drawn behind the plants
+ * - 'transparent': nothing, so the page shows through
+ * - CSS color string: solid fill
+ * - LinearBackground / RadialBackground: gradient fill
+ * - BackgroundPainter: custom drawing
+ */
+export type GardenBackground = 'transparent' | string | LinearBackground | RadialBackground | BackgroundPainter;
+
+/**
+ * Container edge plants grow from
+ * - 'bottom': upward from the bottom edge
+ * - 'top': hanging down from the top edge, like a window box
+ * - 'left' / 'right': inward from a side
+ * - 'frame': inward from all four edges
+ */
+export type GardenAnchor = 'bottom' | 'top' | 'left' | 'right' | 'frame';
+
+/**
+ * A single container edge a plant grows from
+ */
+export type PlantEdge = Exclude<GardenAnchor, 'frame'>;
+
+/**
+ * Plants growing outward from a circle, e.g. around an avatar
+ */
+export interface RadialAnchor {
+  type: 'radial';
+  /** Center x as a fraction of the width (0-1), default 0.5 */
+  x?: number;
+  /** Center y as a fraction of the height (0-1), default 0.5 */
+  y?: number;
+  /** Circle radius as a fraction of the shorter side (0-0.4), default 0.25 */
+  radius?: number;
+}
+
+/**
+ * RadialAnchor with defaults filled in
+ */
+export type ResolvedRadialAnchor = Required<RadialAnchor>;
+
+/**
+ * Rectangle in container pixels, measured from the container's top-left corner
+ */
+export interface AvoidRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Page content plants should keep out of: an element, a CSS selector
+ * (every match in the document) or a rectangle
+ */
+export type AvoidTarget = Element | string | AvoidRect;
+
+/**
+ * Avoided regions as measured for one container size
+ */
+export interface AvoidLayout {
+  width: number;
+  height: number;
+  rects: AvoidRect[];
+}
+
+/**
+ * Built-in ground profiles, shaped from the seed
+ * - 'flat': straight ground along the bottom edge
+ * - 'hills': rolling hills
+ * - 'mound': a single rounded rise
+ * - 'terraces': a stepped slope
+ */
+export type TerrainShape = 'flat' | 'hills' | 'mound' | 'terraces';
+
+/**
+ * Custom ground profile
+ * @param x - Position across the width (0-1)
+ * @returns Elevation (0-1) as a fraction of the terrain height; clamped
+ */
+export type TerrainFunction = (x: number) => number;
+
+/**
+ * Ground profile and styling
+ */
+export interface TerrainOptions {
+  shape: TerrainShape | TerrainFunction;
+
+  /**
+   * Highest elevation as a fraction of the container height (0-0.5)
+   * @default 0.12
+   */
+  height?: number;
+
+  /**
+   * Ground fill color
+   * @default The groundColor option
+   */
+  soil?: string;
+
+  /** Color of a grass line along the surface; none when unset */
+  grass?: string;
+
+  /**
+   * Width of the grass line in pixels
+   * @default 3
+   */
+  grassWidth?: number;
+}
+
+/**
+ * Terrain with defaults applied
+ */
+export interface ResolvedTerrain {
+  shape: TerrainShape | TerrainFunction;
+  /** Highest elevation (fraction of the container height); 0 for flat ground */
+  height: number;
+  /** Ground fill, or null to use groundColor */
+  soil: string | null;
+  grass: string | null;
+  grassWidth: number;
+}
+
+/**
+ * Rows of plants receding from the viewer
+ * Settings describe the back row; rows in between are interpolated, and the
+ * front row is drawn as usual.
+ */
+export interface DepthOptions {
+  /** Number of rows (1-8); a single row is a flat garden */
+  layers: number;
+
+  /**
+   * Size of the back row relative to the front (0.1-1)
+   * @default 0.6
+   */
+  scale?: number;
+
+  /**
+   * How far above the ground the back row sits, as a fraction of the garden depth (0-0.5)
+   * @default 0.08
+   */
+  lift?: number;
+
+  /**
+   * How far the back row is desaturated and tinted toward the haze color (0-1)
+   * @default 0.5
+   */
+  haze?: number;
+
+  /**
+   * Color back rows are tinted toward
+   * @default The background color, if it is a color or gradient
+   */
+  hazeColor?: string;
+
+  /**
+   * Blur of the back row in pixels (0-20)
+   * @default 0
+   */
+  blur?: number;
+
+  /**
+   * How far the back row shifts as the pointer moves and the page scrolls,
+   * as a fraction of the container size (0-0.2); the front row stays put
+   * @default 0
+   */
+  parallax?: number;
+}
+
+/**
+ * Depth with defaults applied
+ */
+export interface ResolvedDepth {
+  layers: number;
+  scale: number;
+  lift: number;
+  haze: number;
+  /** Color back rows are tinted toward, or null to use the background */
+  hazeColor: string | null;
+  blur: number;
+  parallax: number;
+}
+
+/**
+ * Pointer and scroll position parallax offsets follow, each from -1 to 1
+ * (0 when centered)
+ */
+export interface ParallaxView {
+  x: number;
+  y: number;
+}
+
+/**
+ * Built-in ways of spreading plants along their edge
+ * - 'uniform': independent random positions, so plants clump and leave gaps
+ * - 'poisson': evenly spread, with a minimum gap between plants
+ * - 'edges': denser toward the sides, keeping the middle clear
+ * - 'clusters': a few groups around seeded centers
+ */
+export type DistributionMode = 'uniform' | 'poisson' | 'edges' | 'clusters';
+
+/**
+ * Custom density map
+ * @param x - Position along the edge (0-1)
+ * @returns Relative density at x; negative or invalid values count as 0
+ */
+export type DistributionFunction = (x: number) => number;
+
+/**
+ * How plants are spread along their edge, with settings for each mode
+ */
+export interface DistributionOptions {
+  mode: DistributionMode | DistributionFunction;
+
+  /**
+   * Smallest gap between plants with 'poisson', as a fraction of the edge (0-0.25)
+   * @default Based on the number of plants
+   */
+  minGap?: number;
+
+  /**
+   * Number of groups with 'clusters' (1-20)
+   * @default 3
+   */
+  clusters?: number;
+
+  /**
+   * Width of each group with 'clusters', as a fraction of the edge (0.01-0.5)
+   * @default 0.06
+   */
+  spread?: number;
+}
+
+/**
+ * Distribution with defaults applied
+ */
+export interface ResolvedDistribution {
+  mode: DistributionMode | DistributionFunction;
+  /** Smallest poisson gap, or null to space plants by their number */
+  minGap: number | null;
+  clusters: number;
+  spread: number;
+}
+
+/**
+ * Overrides applied while one color scheme is active
+ * Unset fields keep the base options (or the built-in dark defaults).
+ */
+export interface ColorSchemeVariant {
+  /** Merged over the base color options */
+  colors?: ColorOptions;
+  background?: GardenBackground;
+  groundColor?: string;
+}
+
+/**
+ * Per-scheme overrides for the colorScheme option
+ */
+export interface ColorSchemes {
+  light?: ColorSchemeVariant;
+  dark?: ColorSchemeVariant;
+}
+
+/**
+ * Window scroll offsets in pixels mapped to the start and end of the timeline
+ */
+export interface ScrollRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Source of the current time in milliseconds
+ */
+export interface TimeSource {
+  now(): number;
+}
+
+/**
+ * Time source plus frame scheduling, replacing performance.now() and
+ * requestAnimationFrame() for playback
+ * Swap in your own to drive gardens from a test clock or an offline exporter.
+ */
+export interface FrameScheduler extends TimeSource {
+  /** Call back on the next frame with the frame's timestamp (ms), returning a handle */
+  requestFrame(callback: (timestamp: number) => void): number;
+  /** Cancel a callback scheduled with requestFrame() */
+  cancelFrame(handle: number): void;
+}
+
+/**
+ * Timeline position for a cue point
+ * - number: time in seconds
+ * - { progress }: fraction of the duration (0-1), follows duration changes
+ */
+export type CueTarget = number | { progress: number };
+
+/**
+ * Callback fired when playback crosses a cue point
+ */
+export type CueCallback = () => void;
+
+/**
+ * How the promise returned by play() settled
+ * - 'complete': playback reached the end (or zero, when rewinding)
+ * - 'stopped': stop() was called first
+ * - 'destroyed': destroy() was called first
+ */
+export type PlaybackOutcome = 'complete' | 'stopped' | 'destroyed';
+
+/**
+ * Point on the timeline for waitFor()
+ * - { generation }: generation number (1-based) has finished growing
+ * - { progress }: fraction of the duration (0-1) has been reached
+ */
+export type WaitTarget = { generation: number } | { progress: number };
+
+/**
+ * How the promise returned by waitFor() settled
+ */
+export type WaitOutcome = 'reached' | 'stopped' | 'destroyed';
+
+/**
+ * Frame and size for toSVG()
+ */
+export interface SvgExportOptions {
+  /**
+   * Time to export, in seconds (clamped to the duration)
+   * @default The frame currently shown
+   */
+  time?: number;
+
+  /** Progress to export (0-1), used when time is not given */
+  progress?: number;
+
+  /**
+   * Output width in CSS pixels
+   * @default The canvas width
+   */
+  width?: number;
+
+  /**
+   * Output height in CSS pixels
+   * @default The canvas height
+   */
+  height?: number;
+}
+
+/**
+ * Frame and encoding for snapshot()
+ */
+export interface ImageSnapshotOptions {
+  /**
+   * Time to capture, in seconds (clamped to the duration)
+   * @default The frame currently shown
+   */
+  time?: number;
+
+  /** Progress to capture (0-1), used when time is not given */
+  progress?: number;
+
+  /**
+   * Image pixels per CSS pixel of the canvas
+   * @default The device pixel ratio, capped at maxPixelRatio
+   */
+  scale?: number;
+
+  /**
+   * Image MIME type, e.g. 'image/png' or 'image/webp'
+   * @default 'image/png'
+   */
+  type?: string;
+
+  /** Quality from 0 to 1 for lossy types such as 'image/webp' and 'image/jpeg' */
+  quality?: number;
+
+  /**
+   * Leave the background transparent instead of drawing the background option
+   * @default false
+   */
+  transparent?: boolean;
+
+  /**
+   * Resolve with a Blob or a data URL string
+   * @default 'blob'
+   */
+  output?: 'blob' | 'dataURL';
+}
+
 /**
  * Color configuration options
  */
@@ -340,7 +815,9 @@ export interface GardenOptions {
   generations?: number;
 
   /**
-   * Maximum height as fraction of container (0-1)
+   * Maximum height as fraction of container (0-1), measured away from the
+   * anchor edge: the width for 'left'/'right', the shorter side for 'frame',
+   * and the space from the circle to half the shorter side for radial gardens
    * Also controls which plant categories appear:
    * - 0.35 (default): Ground plants only (grass, flowers, bushes)
    * - 0.5+: Adds tall flowers and giant grasses
@@ -377,6 +854,63 @@ export interface GardenOptions {
    */
   loop?: boolean;
 
+  /**
+   * How each new loop cycle begins (only used when loop is true)
+   * @default 'restart'
+   */
+  loopMode?: LoopMode;
+
+  /**
+   * What moves the timeline
+   * With 'scroll', scroll position maps onto the timeline (once per frame),
+   * generation events fire in both directions and play/pause are ignored.
+   * With 'manual', the timeline only moves through setProgress().
+   * @default 'time'
+   */
+  driver?: GardenDriver;
+
+  /**
+   * Seconds setProgress() takes to ease towards a new target (driver: 'manual')
+   * 0 jumps straight to the target.
+   * @default 0.5
+   */
+  progressTweenDuration?: number;
+
+  /**
+   * Element whose passage through the viewport drives a 'scroll' garden:
+   * 0 as its top enters the bottom of the viewport, 1 as its bottom leaves the top
+   * @default undefined (the whole document)
+   */
+  scrollTarget?: HTMLElement | string;
+
+  /**
+   * Window scroll offsets (px) for the start and end of a 'scroll' garden
+   * Takes precedence over scrollTarget.
+   * @default undefined
+   */
+  scrollRange?: ScrollRange;
+
+  /**
+   * Shared clock to synchronize with other gardens
+   * The clock drives this garden instead of its own animation loop, and
+   * play/pause/seek/setSpeed on this garden are forwarded to the clock.
+   * Pass null to setOptions() to detach and continue on the garden's own clock.
+   * @default undefined (own clock)
+   */
+  clock?: GardenClock | null;
+
+  /**
+   * Seconds added to the shared clock's time for this garden
+   * @default 0
+   */
+  clockOffset?: number;
+
+  /**
+   * Time source and frame scheduler for playback, scroll driving and parallax
+   * @default browserScheduler (performance.now() and requestAnimationFrame())
+   */
+  scheduler?: FrameScheduler;
+
   /**
    * Initial playback speed multiplier
    * @default 1
@@ -391,10 +925,28 @@ export interface GardenOptions {
 
   /**
    * Whether to respect prefers-reduced-motion
+   * The preference is followed live: turning it on shows a static frame,
+   * turning it off returns to the animation where it left off
    * @default true
    */
   respectReducedMotion?: boolean;
 
+  /**
+   * Pause automatically while the page is hidden or the container is
+   * scrolled out of view, and resume from the same position on return.
+   * Listen for 'autoPause' / 'autoResume' to tell these apart from user pauses.
+   * @default false
+   */
+  pauseWhenHidden?: boolean;
+
+  /**
+   * sessionStorage key for saving playback state automatically
+   * The snapshot is written when the page is hidden or unloaded and on destroy(),
+   * and a garden constructed with the same key resumes where it left off.
+   * @default undefined (no persistence)
+   */
+  persistKey?: string;
+
   /**
    * Random seed for deterministic generation
    * @default undefined (random)
@@ -407,6 +959,21 @@ export interface GardenOptions {
    */
   maxPixelRatio?: number;
 
+  /**
+   * Generate plants and draw in a Web Worker via OffscreenCanvas
+   * Requires createWorker. Falls back to drawing on the main thread when
+   * OffscreenCanvas is unavailable or the worker cannot be started.
+   * @default false
+   */
+  offscreen?: boolean;
+
+  /**
+   * Start a worker running the garten/worker entry point (used with offscreen)
+   * @example () => new Worker(new URL('garten/worker', import.meta.url), { type: 'module' })
+   * @default undefined
+   */
+  createWorker?: () => Worker;
+
   /**
    * Target frames per second
    * @default 30
@@ -447,12 +1014,78 @@ export interface GardenOptions {
   fadeHeight?: number;
 
   /**
-   * Color to fade into (should match page background)
-   * Only used when fadeHeight > 0
+   * Color to fade into
+   * @deprecated The fade now erases plants to transparency, showing the
+   * background (see background) or the page through. This has no effect.
    * @default '#ffffff'
    */
   fadeColor?: string;
 
+  /**
+   * What to draw behind the plants: 'transparent', a CSS color, a gradient
+   * spec or a drawing callback. The vertical fade never fades the background.
+   * @default '#ffffff'
+   */
+  background?: GardenBackground;
+
+  /**
+   * Color of the strip drawn along the bottom edge
+   * @default 'rgba(139, 119, 101, 0.08)'
+   */
+  groundColor?: string;
+
+  /**
+   * Edge plants grow from, or a RadialAnchor circle they grow outward from.
+   * Positions, maxHeight, terrain, the ground and the vertical fade all follow it.
+   * @default 'bottom'
+   */
+  anchor?: GardenAnchor | RadialAnchor;
+
+  /**
+   * Page content to keep plants out of. Plants that would grow into it are
+   * capped in height or moved aside. Regions are measured again when the
+   * container resizes; the same seed and layout always give the same garden.
+   * @default []
+   */
+  avoid?: AvoidTarget[];
+
+  /**
+   * Shape of the ground plants grow from: a built-in shape, a function of x,
+   * or TerrainOptions with soil and grass styling. Shapes come from the seed.
+   * @default 'flat'
+   */
+  terrain?: TerrainShape | TerrainFunction | TerrainOptions;
+
+  /**
+   * How plants are spread along their edge: a built-in mode, a density
+   * function of x, or DistributionOptions with settings for the mode.
+   * Every mode is deterministic for a seed.
+   * @default 'uniform'
+   */
+  distribution?: DistributionMode | DistributionFunction | DistributionOptions;
+
+  /**
+   * Rows of plants receding from the viewer: a number of rows, or
+   * DepthOptions. Back rows are smaller, higher, hazier and optionally
+   * blurred, and can shift with the pointer and scroll for parallax.
+   * @default 1
+   */
+  depth?: number | DepthOptions;
+
+  /**
+   * Light or dark appearance. In dark mode the palettes switch to dark-page
+   * variants, and a default background and ground color switch to dark ones.
+   * Switching never moves plants, only recolors them.
+   * @default 'light'
+   */
+  colorScheme?: ColorScheme;
+
+  /**
+   * Overrides for each scheme, e.g. { dark: { background: '#0B1020' } }
+   * Themes with light/dark variants set this via applyTheme().
+   */
+  schemes?: ColorSchemes;
+
   /**
    * Event callbacks
    */
@@ -481,6 +1114,12 @@ export interface PlantData {
   category?: PlantCategory;
   /** Cached variation for O(1) lookup during rendering */
   variation?: PlantVariation;
+  /** Ground elevation at x as a fraction of the container height (0 on flat ground) */
+  elevation?: number;
+  /** Edge the plant grows from; x runs along it (none in radial gardens, where x runs around the circle) */
+  edge?: PlantEdge;
+  /** Row the plant grows in, from 0 at the front to 1 at the back (0 without depth) */
+  depth?: number;
 }
 
 /**
@@ -495,9 +1134,21 @@ export interface ResolvedOptions {
   density: Density;
   categories: string[] | null;
   loop: boolean;
+  loopMode: LoopMode;
+  driver: GardenDriver;
+  progressTweenDuration: number;
+  clock: GardenClock | null;
+  clockOffset: number;
+  scheduler: FrameScheduler;
+  scrollTarget: HTMLElement | null;
+  scrollRange: ScrollRange | null;
   speed: number;
   autoplay: boolean;
   respectReducedMotion: boolean;
+  pauseWhenHidden: boolean;
+  persistKey: string | null;
+  offscreen: boolean;
+  createWorker: (() => Worker) | null;
   seed: number;
   maxPixelRatio: number;
   targetFPS: number;
@@ -506,15 +1157,74 @@ export interface ResolvedOptions {
   opacity: number;
   fadeHeight: number;
   fadeColor: string;
+  background: GardenBackground;
+  groundColor: string;
+  anchor: GardenAnchor | ResolvedRadialAnchor;
+  avoid: AvoidTarget[];
+  terrain: ResolvedTerrain;
+  distribution: ResolvedDistribution;
+  depth: ResolvedDepth;
+  colorScheme: ColorScheme;
+  schemes: ColorSchemes;
   events: GardenEvents;
 }
 
+/**
+ * Options stored in a snapshot: resolved options minus the container,
+ * event callbacks, persistence key, scroll target element, shared clock,
+ * scheduler and worker factory
+ */
+export type SnapshotOptions = Omit<
+  ResolvedOptions,
+  | 'container' | 'events' | 'persistKey' | 'scrollTarget' | 'clock' | 'scheduler' | 'createWorker'
+  | 'background' | 'schemes' | 'terrain' | 'distribution' | 'avoid'
+> & {
+  /** Avoided selectors and rectangles; elements cannot be serialized and are left out */
+  avoid: Array<string | AvoidRect>;
+  /** Background, or null for a drawing callback (which cannot be serialized) */
+  background: Exclude<GardenBackground, BackgroundPainter> | null;
+  /** Terrain, with terrain functions (which cannot be serialized) flattened */
+  terrain: Omit<ResolvedTerrain, 'shape'> & { shape: TerrainShape };
+  /** Distribution, with density functions (which cannot be serialized) made uniform */
+  distribution: Omit<ResolvedDistribution, 'mode'> & { mode: DistributionMode };
+  /** Scheme overrides, with background callbacks likewise null */
+  schemes: {
+    light?: SnapshotSchemeVariant;
+    dark?: SnapshotSchemeVariant;
+  };
+};
+
+/**
+ * JSON-safe form of a ColorSchemeVariant
+ */
+export type SnapshotSchemeVariant = Omit<ColorSchemeVariant, 'background'> & {
+  background?: Exclude<GardenBackground, BackgroundPainter> | null;
+};
+
+/**
+ * JSON-safe playback state returned by getSnapshot()
+ */
+export interface GardenSnapshot {
+  /** Snapshot format version */
+  version: number;
+  /** Resolved options, including the seed */
+  options: SnapshotOptions;
+  /** Elapsed time in seconds */
+  elapsedTime: number;
+  /** Current speed multiplier (negative when playing backwards) */
+  speed: number;
+  /** Playback state to resume into */
+  state: PlaybackState;
+  /** Last generation reported via generationComplete */
+  lastReportedGeneration: number;
+}
+
 /**
  * Public API for controlling the garden
  */
 export interface GardenController {
-  /** Start or resume playback */
-  play(): void;
+  /** Start or resume playback, resolving when the run completes, stops or is destroyed */
+  play(): Promise<PlaybackOutcome>;
 
   /** Pause playback */
   pause(): void;
@@ -525,9 +1235,21 @@ export interface GardenController {
   /** Jump to specific time in seconds */
   seek(time: number): void;
 
-  /** Set playback speed multiplier */
+  /** Set playback speed multiplier (negative plays backwards) */
   setSpeed(speed: number): void;
 
+  /** Play backwards to the beginning */
+  rewind(): void;
+
+  /** Ease towards a progress value (driver: 'manual' only) */
+  setProgress(progress: number): void;
+
+  /** Capture playback state as a JSON-safe snapshot */
+  getSnapshot(): GardenSnapshot;
+
+  /** Resume from a snapshot taken with getSnapshot() */
+  restore(snapshot: GardenSnapshot): void;
+
   /** Get current playback state */
   getState(): PlaybackState;
 
@@ -543,18 +1265,67 @@ export interface GardenController {
   /** Force regenerate all plants */
   regenerate(): void;
 
+  /** Subscribe to a garden event, returns an unsubscribe function */
+  on<K extends GardenEventType>(event: K, handler: GardenEventHandler<GardenEventData[K]>): () => void;
+
+  /** Subscribe to a garden event for one occurrence only */
+  once<K extends GardenEventType>(event: K, handler: GardenEventHandler<GardenEventData[K]>): () => void;
+
+  /** Unsubscribe a handler from a garden event */
+  off<K extends GardenEventType>(event: K, handler: GardenEventHandler<GardenEventData[K]>): void;
+
+  /** Register a callback at a point on the timeline, returns a cue id */
+  addCue(at: CueTarget, callback: CueCallback): number;
+
+  /** Remove a cue registered with addCue() */
+  removeCue(id: number): boolean;
+
+  /** Advance by a number of seconds and render one frame, without waiting for a frame */
+  step(deltaSeconds: number): void;
+
+  /** Resolve once playback reaches a generation or progress point */
+  waitFor(target: WaitTarget): Promise<WaitOutcome>;
+
+  /** Export a frame as an SVG document */
+  toSVG(options?: SvgExportOptions): string;
+
+  /** Capture a frame as an image data URL */
+  snapshot(options: ImageSnapshotOptions & { output: 'dataURL' }): Promise<string>;
+
+  /** Capture a frame as an image Blob */
+  snapshot(options?: ImageSnapshotOptions): Promise<Blob>;
+
   /** Clean up and remove from DOM */
   destroy(): void;
 }
 
 // ==================== RENDERER TYPES ====================
 
+/**
+ * The part of the Canvas 2D API that scenes and plants are drawn with
+ * Satisfied by CanvasRenderingContext2D, OffscreenCanvasRenderingContext2D and
+ * SvgContext. filter is optional, for canvases without filter support.
+ */
+export interface DrawingContext extends Pick<
+  CanvasRenderingContext2D,
+  | 'save' | 'restore' | 'translate' | 'rotate' | 'scale'
+  | 'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'bezierCurveTo' | 'arc' | 'ellipse'
+  | 'fillRect' | 'strokeRect' | 'clearRect' | 'createLinearGradient' | 'createRadialGradient'
+  | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'lineCap' | 'lineJoin' | 'globalAlpha' | 'globalCompositeOperation'
+> {
+  filter?: string;
+  // Path2D and DOMMatrix overloads are left out
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  fill(fillRule?: CanvasFillRule): void;
+  stroke(): void;
+}
+
 /**
  * Render context passed to plant renderers
  */
 export interface PlantRenderContext {
   /** Canvas 2D rendering context */
-  ctx: CanvasRenderingContext2D;
+  ctx: DrawingContext;
   /** Canvas width in pixels */
   width: number;
   /** Canvas height in pixels */
@@ -586,7 +1357,7 @@ export interface FloweringPlantContext {
  * Plant renderer function signature
  */
 export type PlantRenderer = (
-  ctx: CanvasRenderingContext2D,
+  ctx: DrawingContext,
   plant: PlantData,
   width: number,
   height: number,
@@ -608,12 +1379,18 @@ export type GardenEventType =
   | 'play'
   | 'pause'
   | 'stop'
+  | 'seek'
   | 'complete'
+  | 'rewindComplete'
   | 'progress'
   | 'generationComplete'
   | 'stateChange'
   | 'regenerate'
-  | 'optionsChange';
+  | 'optionsChange'
+  | 'autoPause'
+  | 'autoResume'
+  | 'motionPreferenceChange'
+  | 'colorSchemeChange';
 
 /**
  * Event handler type
@@ -627,12 +1404,18 @@ export interface GardenEventData {
   play: void;
   pause: void;
   stop: void;
+  seek: { time: number };
   complete: void;
+  rewindComplete: void;
   progress: { progress: number; elapsedTime: number };
   generationComplete: { generation: number; totalGenerations: number };
   stateChange: { state: PlaybackState };
   regenerate: void;
   optionsChange: { options: Partial<GardenOptions> };
+  autoPause: { reason: AutoPauseReason };
+  autoResume: { reason: AutoPauseReason };
+  motionPreferenceChange: { reducedMotion: boolean };
+  colorSchemeChange: { colorScheme: 'light' | 'dark' };
 }
 
 // ==================== THEME/PRESET TYPES ====================
@@ -665,4 +1448,17 @@ export interface GardenTheme {
   foliageColors?: string[];
   /** Background/fade color */
   fadeColor?: string;
+  /** Background behind the plants */
+  background?: GardenBackground;
+  /** Ground strip color */
+  groundColor?: string;
+  /** Overrides used with colorScheme 'light' */
+  light?: GardenThemeVariant;
+  /** Overrides used with colorScheme 'dark' */
+  dark?: GardenThemeVariant;
 }
+
+/**
+ * Light or dark half of a theme; unset fields come from the theme itself
+ */
+export type GardenThemeVariant = Partial<Omit<GardenTheme, 'name' | 'fadeColor' | 'light' | 'dark'>>;
@@ -73,6 +73,14 @@ export function prefersReducedMotion(): boolean {
   return window.matchMedia('(prefers-reduced-motion: reduce)').matches;
 }
 
+/**
+ * Check if prefers-color-scheme is dark
+ */
+export function prefersDarkMode(): boolean {
+  if (typeof window === 'undefined') return false;
+  return window.matchMedia('(prefers-color-scheme: dark)').matches;
+}
+
 /**
  * Get device pixel ratio, clamped to max
  */
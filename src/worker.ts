@@ -0,0 +1,12 @@
+/**
+ * Worker entry point for offscreen rendering
+ * Load this file as a module worker from the createWorker option.
+ */
+
+import { RenderWorker, type RenderWorkerMessage } from './RenderWorker';
+
+const renderWorker = new RenderWorker();
+
+addEventListener('message', (event: MessageEvent<RenderWorkerMessage>) => {
+  renderWorker.handleMessage(event.data);
+});
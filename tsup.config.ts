@@ -3,7 +3,7 @@ import { defineConfig } from 'tsup';
 export default defineConfig([
   // ESM and CJS builds
   {
-    entry: ['src/index.ts'],
+    entry: ['src/index.ts', 'src/headless.ts', 'src/worker.ts'],
     format: ['esm', 'cjs'],
     dts: true,
     clean: true,